@@ -1,146 +1,333 @@
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import {
+  canUndoToTurn,
+  checkMove,
+  currentPosition,
+  handicapStonesLeft,
+  newGame,
+  type GameOptions,
+  type GameResult,
+  type GameState,
+  type HandicapPlacement,
+  type IllegalReason,
+  type MoveCheck,
+  type Players,
+} from "./gameState";
+import {
+  BOARD_SIZES,
+  DEFAULT_RULE_SET,
+  HANDICAP_KOMI,
+  MAX_HANDICAP,
+  RULE_SETS,
+  RULE_SET_IDS,
+  computeScore,
+  moveNumbersAt,
+  pointKey,
+  type BoardSize,
+  type Captures,
+  type KoRule,
+  type Position,
+  type RuleSet,
+  type RuleSetId,
+  type ScoringMethod,
+  type Snapshot,
+  type Stone,
+} from "./goRules";
+import {
+  DEFAULT_TIME_CONTROL,
+  describeTimeControl,
+  formatClock,
+  type ClockState,
+  type PlayerClock,
+  type TimeControl,
+  type TimeControlKind,
+} from "./clock";
+import { AI_LEVELS, type AiLevel, type AiResponse } from "./mcts";
+import {
+  DEFAULT_GTP_BRIDGE_URL,
+  OpponentError,
+  gtpOpponent,
+  mctsOpponent,
+  type Opponent,
+  type OpponentKind,
+  type OpponentReply,
+} from "./opponent";
+import { announceTurn, describePoint, parseMoveInput } from "./announce";
+import {
+  LOCALES,
+  LOCALE_NAMES,
+  MESSAGES,
+  NOTATIONS,
+  makeI18n,
+  type I18n,
+  type Locale,
+  type Notation,
+} from "./i18n";
+import {
+  BOARD_COLORS,
+  CELL,
+  STONE_RADIUS,
+  diagramAscii,
+  diagramLayers,
+  diagramSize,
+  diagramSvg,
+  lineAt,
+  type Diagram,
+  type Mark,
+} from "./diagram";
+import {
+  deleteNode,
+  idsOf,
+  isMainLine,
+  lineThrough,
+  mainLineLength,
+  nodePath,
+  playInTree,
+  promoteLine,
+  setComment,
+  timelineOf,
+  treeFromSgf,
+  treeToSgf,
+  type GameTree,
+  type GameTreeNode,
+} from "./gameTree";
+import { SgfError, formatSgfResult, gameToSgf, parseSgf, replaySgf, sgfRuleSet } from "./sgf";
+import {
+  DEFAULT_OVERLAYS,
+  buildOverlay,
+  needsSearch,
+  type BoardOverlay,
+  type OverlayOptions,
+  type ShadeKind,
+} from "./analysis";
+import { DEFAULT_RELAY_URL, ROOM_CODE_LENGTH, type RoomRequest } from "./online";
+import { parseOpeningBook, type OpeningBook } from "./openingBook";
+import { BUILTIN_OPENING_BOOK } from "./openingBookData";
+import {
+  addProfile,
+  addToLibrary,
+  clearActiveGame,
+  loadActiveGame,
+  loadLibrary,
+  loadOnlineSession,
+  loadOpeningBook,
+  loadPreferences,
+  loadProfiles,
+  loadGameRecords,
+  loadTsumegoProgress,
+  loadTsumegoSets,
+  recordTsumegoAttempt,
+  recordGame,
+  removeFromLibrary,
+  removeProfile,
+  removeTsumegoSet,
+  resetTsumegoProgress,
+  restoreGame,
+  saveActiveGame,
+  saveOpeningBook,
+  savePreferences,
+  saveTsumegoSet,
+  serializeGame,
+  updateLibraryEntry,
+  type ActiveGame,
+  type GameMode,
+  type GameRecord,
+  type LibraryEntry,
+  type Participant,
+  type Profile,
+  type StoredProblemSet,
+} from "./storage";
+import { worstMoves } from "./review";
+import { INITIAL_RATING, computeRatings, profileStats, winRate, type Tally } from "./stats";
+import { attemptComment, parseProblemSet, playProblemMove, startProblem, type ProblemSet } from "./tsumego";
+import { BUILTIN_PROBLEM_SETS } from "./tsumegoProblems";
+import { useAnalysis } from "./useAnalysis";
+import { useGameClock } from "./useGameClock";
+import { useGameReview } from "./useGameReview";
+import { I18nContext, useI18n } from "./useI18n";
+import { useGoGame } from "./useGoGame";
+import { useMarkup, type MarkTool } from "./useMarkup";
+import { useOnlineGame } from "./useOnlineGame";
 
 // ---- Types & Constants ----
 
-type Stone = 0 | 1 | 2; // 0 empty, 1 black, 2 white
+type Route = "menu" | "ai" | "local" | "online" | "tsumego" | "library" | "replay" | "stats";
 
-type Route = "menu" | "ai" | "local";
+// The sides of a finished game for the statistics, null for a side nobody tracks
+interface Participants {
+  black: Participant | null;
+  white: Participant | null;
+}
 
-interface Position {
-  x: number;
-  y: number;
+interface Summary extends GameResult {
+  mode: GameMode;
+  size: number;
+  moves: number;
+  record: string; // SGF of the finished game
+  participants: Participants;
+  captures: Captures;
+  komi: number;
+  handicap: number;
+  players: Players;
+  rules: RuleSetId;
 }
 
-interface Captures {
-  black: number; // stones captured by black
-  white: number; // stones captured by white
+const PROFILE_NAMES_ID = "profile-names";
+
+const PNG_SCALE = 2; // exported pictures at twice the SVG size, sharp on dense screens
+
+const MARK_TOOL_ICONS: Record<MarkTool, string> = { triangle: "△", square: "□", circle: "○", label: "A", clear: "⌫" };
+
+// A refused move, shown while its position is on the board
+interface Rejection {
+  position: Snapshot;
+  reason: IllegalReason;
+  group: Position[];
 }
 
-interface Summary {
-  mode: "ai" | "local";
-  blackScore: number;
-  whiteScore: number;
-  captures: Captures;
+// Chosen on the setup step of ModeModal and kept for the next game
+interface GameSetup {
   komi: number;
-  winner: "black" | "white" | "draw";
+  handicap: number; // 0 for an even game, otherwise 2..MAX_HANDICAP
+  placement: HandicapPlacement;
+  humanColor: Stone; // AI mode
+  humanName: string; // AI mode
+  blackName: string; // local mode
+  whiteName: string; // local mode
+  timeControl: TimeControl;
+}
+
+const DEFAULT_SETUP: GameSetup = {
+  komi: RULE_SETS[DEFAULT_RULE_SET].komi,
+  handicap: 0,
+  placement: "fixed",
+  humanColor: 1,
+  humanName: "",
+  blackName: "",
+  whiteName: "",
+  timeControl: DEFAULT_TIME_CONTROL,
+};
+
+// Page settings saved with the game in progress, so a resumed game gets the same screen
+interface PageSettings {
+  ruleSet: RuleSetId;
+  boardSize: BoardSize;
+  aiLevel: AiLevel;
+  opponentKind: OpponentKind;
+  gtpUrl: string;
+  useBook?: boolean; // absent in games saved before the opening book
+  setup: GameSetup;
 }
 
-const BOARD_SIZE = 9;
-const DEFAULT_KOMI = 5.5;
+interface ResumedGame extends ActiveGame<PageSettings> {
+  state: GameState;
+}
 
 // ---- Utility functions ----
 
-function makeEmptyBoard(): Stone[][] {
-  return Array.from({ length: BOARD_SIZE }, () => Array<Stone>(BOARD_SIZE).fill(0));
-}
-
-function cloneBoard(board: Stone[][]): Stone[][] {
-  return board.map((row) => row.slice() as Stone[]);
-}
-
-function inBounds(x: number, y: number): boolean {
-  return x >= 0 && y >= 0 && x < BOARD_SIZE && y < BOARD_SIZE;
-}
-
-function neighbors(x: number, y: number): Position[] {
-  const dirs = [
-    { x: 1, y: 0 },
-    { x: -1, y: 0 },
-    { x: 0, y: 1 },
-    { x: 0, y: -1 },
-  ];
-  const res: Position[] = [];
-  for (const d of dirs) {
-    const nx = x + d.x;
-    const ny = y + d.y;
-    if (inBounds(nx, ny)) res.push({ x: nx, y: ny });
-  }
-  return res;
-}
-
-function getGroupAndLiberties(board: Stone[][], x: number, y: number): { group: Position[]; liberties: Set<string> } {
-  const color = board[y][x];
-  const visited = new Set<string>();
-  const liberties = new Set<string>();
-  const group: Position[] = [];
-  if (color === 0) return { group, liberties };
-  const key = (px: number, py: number) => `${px},${py}`;
-  const stack: Position[] = [{ x, y }];
-  visited.add(key(x, y));
-  while (stack.length) {
-    const cur = stack.pop()!;
-    group.push(cur);
-    for (const n of neighbors(cur.x, cur.y)) {
-      const cell = board[n.y][n.x];
-      if (cell === 0) {
-        liberties.add(key(n.x, n.y));
-      } else if (cell === color) {
-        const k = key(n.x, n.y);
-        if (!visited.has(k)) {
-          visited.add(k);
-          stack.push(n);
-        }
-      }
-    }
-  }
-  return { group, liberties };
+function summarize(mode: GameMode, state: GameState, record: string, participants: Participants): Summary {
+  const { captures } = state.timeline[state.timeline.length - 1];
+  return {
+    ...state.result!,
+    mode,
+    size: state.timeline[0].board.length,
+    moves: state.timeline.length - 1,
+    record,
+    participants,
+    captures,
+    komi: state.komi,
+    handicap: state.handicap,
+    players: state.players,
+    rules: state.rules.id,
+  };
 }
 
-function removeGroup(board: Stone[][], group: Position[]): number {
-  let removed = 0;
-  for (const p of group) {
-    if (board[p.y][p.x] !== 0) {
-      board[p.y][p.x] = 0;
-      removed++;
-    }
-  }
-  return removed;
+// A player left unnamed, or with the color as name in any language (older records)
+function isDefaultName(name: string, color: Stone): boolean {
+  return !name || Object.values(MESSAGES).some((m) => name === (color === 1 ? m.black : m.white));
 }
 
-function tryPlay(board: Stone[][], x: number, y: number, color: Stone): { legal: boolean; board?: Stone[][]; captured?: number } {
-  if (board[y][x] !== 0) return { legal: false };
-  const test = cloneBoard(board);
-  test[y][x] = color;
-  const opponent: Stone = color === 1 ? 2 : 1;
-  let captured = 0;
-  // Capture opponent groups with no liberties
-  for (const n of neighbors(x, y)) {
-    if (test[n.y][n.x] === opponent) {
-      const { group, liberties } = getGroupAndLiberties(test, n.x, n.y);
-      if (liberties.size === 0) {
-        captured += removeGroup(test, group);
-      }
-    }
-  }
-  // Check if our placed group has liberties (suicide check)
-  const { liberties } = getGroupAndLiberties(test, x, y);
-  if (liberties.size === 0 && captured === 0) {
-    return { legal: false };
-  }
-  return { legal: true, board: test, captured };
+// The name, or the color for an unnamed player
+function playerName(i18n: I18n, color: Stone, name: string): string {
+  return name || i18n.color(color);
 }
 
-function countStones(board: Stone[][]): { black: number; white: number } {
-  let black = 0;
-  let white = 0;
-  for (let y = 0; y < BOARD_SIZE; y++) {
-    for (let x = 0; x < BOARD_SIZE; x++) {
-      if (board[y][x] === 1) black++;
-      if (board[y][x] === 2) white++;
-    }
+// Players who kept the color as their name are not tracked in the statistics
+function trackedPlayer(name: string, color: Stone): Participant | null {
+  return isDefaultName(name, color) ? null : { kind: "human", name };
+}
+
+// "Đen – An", or just "Đen" when the player kept the default name
+function playerLabel(i18n: I18n, color: Stone, players: Players): string {
+  const name = color === 1 ? players.black : players.white;
+  return isDefaultName(name, color) ? i18n.color(color) : `${i18n.color(color)} – ${name}`;
+}
+
+// Whose clock runs: nobody while stones are placed, during scoring or after the game
+function clockTurn(state: GameState): Stone {
+  return state.phase === "playing" ? currentPosition(state).toMove : 0;
+}
+
+// SGF TM/OT properties for a timed game
+function sgfTiming(control: TimeControl): { timeLimit?: number; overtime?: string } {
+  if (control.kind === "none") return {};
+  const overtime = control.kind === "absolute" ? undefined : describeTimeControl(control);
+  return { timeLimit: control.mainMs / 1000, overtime };
+}
+
+function gameOptions(
+  setup: GameSetup,
+  players: Players,
+  base: Pick<GameOptions, "size" | "rules">
+): GameOptions {
+  return { ...base, komi: setup.komi, handicap: setup.handicap, placement: setup.placement, players };
+}
+
+// The autosaved game, or null when there is none or it no longer replays
+function loadResumable(): ResumedGame | null {
+  const active = loadActiveGame<PageSettings>();
+  if (!active) return null;
+  try {
+    return { ...active, state: restoreGame(active.game) };
+  } catch {
+    clearActiveGame();
+    return null;
   }
-  return { black, white };
 }
 
-function computeScore(board: Stone[][], captures: Captures, komi: number): { blackScore: number; whiteScore: number } {
-  const stones = countStones(board);
-  const blackScore = stones.black + captures.black;
-  const whiteScore = stones.white + captures.white + komi;
-  return { blackScore, whiteScore };
+// Human-readable SGF RE value
+function describeResult(i18n: I18n, result: string): string {
+  const { t } = i18n;
+  if (!result) return t.notFinished;
+  if (result === "0" || result.toLowerCase() === "draw") return t.draw;
+  const match = /^([BW])\+(.*)$/.exec(result);
+  if (!match) return result;
+  const winner = i18n.color(match[1] === "B" ? 1 : 2);
+  const margin = match[2];
+  if (margin === "R" || margin === "Resign") return t.winByResign(winner);
+  if (margin === "T" || margin === "Time") return t.winByTime(winner);
+  return margin ? t.winByPoints(winner, margin) : t.wins(winner);
+}
+
+function downloadText(filename: string, text: string, type = "application/x-go-sgf") {
+  downloadBlob(filename, new Blob([text], { type }));
+}
+
+function downloadBlob(filename: string, blob: Blob) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+function datedFileName(extension: string): string {
+  return `covay-${new Date().toISOString().slice(0, 10)}.${extension}`;
 }
 
-function prettyColor(color: Stone): string {
-  return color === 1 ? "Đen" : color === 2 ? "Trắng" : "";
+function sgfFileName(): string {
+  return datedFileName("sgf");
 }
 
 // ---- UI Components ----
@@ -150,61 +337,576 @@ function ModeModal({
   onSelect,
   onClose,
   summary,
+  ruleSet,
+  onRuleSetChange,
+  boardSize,
+  onBoardSizeChange,
+  aiLevel,
+  onAiLevelChange,
+  opponentKind,
+  onOpponentKindChange,
+  gtpUrl,
+  onGtpUrlChange,
+  setupMode,
+  onSetupModeChange,
+  setup,
+  onSetupChange,
+  onResume,
+  relayUrl,
+  onRelayUrlChange,
+  onOnline,
+  onReview,
+  useBook,
+  onUseBookChange,
+  bookName,
+  onBookImport,
+  onBookReset,
 }: {
   open: boolean;
   onSelect: (mode: "ai" | "local") => void;
   onClose: () => void;
   summary: Summary | null;
+  ruleSet: RuleSetId;
+  onRuleSetChange: (id: RuleSetId) => void;
+  boardSize: BoardSize;
+  onBoardSizeChange: (size: BoardSize) => void;
+  aiLevel: AiLevel;
+  onAiLevelChange: (level: AiLevel) => void;
+  opponentKind: OpponentKind;
+  onOpponentKindChange: (kind: OpponentKind) => void;
+  gtpUrl: string;
+  onGtpUrlChange: (url: string) => void;
+  setupMode: GameMode | null; // mode whose setup step is shown
+  onSetupModeChange: (mode: GameMode | null) => void;
+  setup: GameSetup;
+  onSetupChange: (setup: GameSetup) => void;
+  onResume: (() => void) | null; // continue the autosaved game, null when there is none
+  relayUrl: string;
+  onRelayUrlChange: (url: string) => void;
+  onOnline: (request: RoomRequest) => void;
+  onReview: (() => void) | null; // replay the last game with the engine review, null when it was not kept
+  useBook: boolean;
+  onUseBookChange: (use: boolean) => void;
+  bookName: string;
+  onBookImport: (sgf: string, name: string) => void; // throws SgfError on a bad book
+  onBookReset: (() => void) | null; // back to the built-in book, null when it is in use
 }) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [bookNote, setBookNote] = useState("");
+
+  async function handleBookImport(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      const name = file.name.replace(/\.sgf$/i, "");
+      onBookImport(await file.text(), name);
+      setBookNote(t.openingBookLoaded(name));
+    } catch (err) {
+      setBookNote(err instanceof SgfError ? i18n.sgfError(err) : t.sgfUnreadable);
+    }
+  }
+
   if (!open) return null;
   const winnerText = summary
     ? summary.winner === "draw"
-      ? "Hòa"
-      : summary.winner === "black"
-      ? "Đen thắng"
-      : "Trắng thắng"
+      ? t.draw
+      : t.wins(playerLabel(i18n, summary.winner === "black" ? 1 : 2, summary.players))
     : null;
+  const resignText = summary?.resignation
+    ? t.resignedNote(i18n.color(summary.resignation === "black" ? 1 : 2))
+    : summary?.timeout
+    ? t.timedOutNote(i18n.color(summary.timeout === "black" ? 1 : 2))
+    : "";
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
       <div className="w-full max-w-3xl rounded-xl bg-white p-6 shadow-lg">
         <div className="mb-4 flex items-center justify-between">
-          <h2 className="text-xl font-semibold">Chọn chế độ</h2>
-          <button onClick={onClose} className="rounded-md border px-3 py-1 text-sm hover:bg-gray-50">Đóng</button>
+          <h2 className="text-xl font-semibold">{setupMode ? t.setupTitle : t.chooseMode}</h2>
+          <button onClick={onClose} className="rounded-md border px-3 py-1 text-sm hover:bg-gray-50">{t.close}</button>
         </div>
         {summary && (
           <div className="mb-4 rounded-lg border p-4">
-            <div className="mb-2 text-sm font-medium text-gray-700">Kết quả ván trước ({summary.mode === "ai" ? "Chơi với máy" : "Chơi 2 người"})</div>
+            <div className="mb-2 text-sm font-medium text-gray-700">{t.lastResult(t.modes[summary.mode])}</div>
             <div className="flex flex-wrap items-center gap-4 text-sm">
-              <span className="rounded bg-gray-100 px-2 py-1">{winnerText}</span>
-              <span>Đen: {summary.blackScore.toFixed(1)}</span>
-              <span>Trắng: {summary.whiteScore.toFixed(1)} (komi {summary.komi})</span>
-              <span>Bắt: Đen {summary.captures.black}, Trắng {summary.captures.white}</span>
+              <span className="rounded bg-gray-100 px-2 py-1">
+                {winnerText}
+                {resignText}
+              </span>
+              <span>{playerLabel(i18n, 1, summary.players)}: {summary.blackScore.toFixed(1)}</span>
+              <span>
+                {playerLabel(i18n, 2, summary.players)}: {summary.whiteScore.toFixed(1)} (komi {summary.komi})
+              </span>
+              {summary.handicap > 0 && <span>{t.handicapStones(summary.handicap)}</span>}
+              <span>{t.capturesSummary(summary.captures.black, summary.captures.white)}</span>
+              <span>{t.territorySummary(summary.territory.black, summary.territory.white)}</span>
+              <span className="text-gray-500">{t.ruleSets[summary.rules]}</span>
+              {onReview && (
+                <button onClick={onReview} className="rounded-md border px-3 py-1 hover:bg-gray-50">{t.reviewLastGame}</button>
+              )}
+            </div>
+          </div>
+        )}
+        {onResume && !setupMode && (
+          <div className="mb-4 flex flex-wrap items-center justify-between gap-2 rounded-lg border border-amber-300 bg-amber-50 p-3 text-sm">
+            <span>{t.unfinishedGame}</span>
+            <button onClick={onResume} className="rounded-md border bg-white px-3 py-1 hover:bg-gray-50">{t.resumeGame}</button>
+          </div>
+        )}
+        {setupMode === "online" ? (
+          <OnlineLobby
+            boardSize={boardSize}
+            ruleSet={ruleSet}
+            url={relayUrl}
+            onUrlChange={onRelayUrlChange}
+            onStart={onOnline}
+            onBack={() => onSetupModeChange(null)}
+          />
+        ) : setupMode ? (
+          <SetupPanel
+            mode={setupMode}
+            defaultKomi={RULE_SETS[ruleSet].komi}
+            setup={setup}
+            onChange={onSetupChange}
+            onStart={() => onSelect(setupMode)}
+            onBack={() => onSetupModeChange(null)}
+          />
+        ) : (
+          <>
+            <div className="mb-4 flex flex-wrap items-center gap-2 text-sm">
+              <span className="text-gray-700">{t.boardSize}</span>
+              {BOARD_SIZES.map((size) => (
+                <button
+                  key={size}
+                  onClick={() => onBoardSizeChange(size)}
+                  className={`rounded-md border px-3 py-1 ${size === boardSize ? "bg-black text-white" : "hover:bg-gray-50"}`}
+                  aria-pressed={size === boardSize}
+                >
+                  {size}x{size}
+                </button>
+              ))}
+              <label htmlFor="rule-set" className="ml-2 text-gray-700">{t.ruleSet}</label>
+              <select
+                id="rule-set"
+                value={ruleSet}
+                onChange={(e) => onRuleSetChange(e.target.value as RuleSetId)}
+                className="rounded-md border px-2 py-1"
+                aria-describedby="rule-set-details"
+              >
+                {RULE_SET_IDS.map((id) => (
+                  <option key={id} value={id}>
+                    {t.ruleSets[id]}
+                  </option>
+                ))}
+              </select>
+              <label htmlFor="opponent-kind" className="ml-2 text-gray-700">{t.opponentKind}</label>
+              <select
+                id="opponent-kind"
+                value={opponentKind}
+                onChange={(e) => onOpponentKindChange(e.target.value as OpponentKind)}
+                className="rounded-md border px-2 py-1"
+              >
+                <option value="builtin">{t.builtinEngine}</option>
+                <option value="gtp">{t.gtpEngine}</option>
+              </select>
+              {opponentKind === "builtin" ? (
+                <>
+                  <label htmlFor="ai-level" className="ml-2 text-gray-700">{t.aiLevel}</label>
+                  <select
+                    id="ai-level"
+                    value={aiLevel}
+                    onChange={(e) => onAiLevelChange(e.target.value as AiLevel)}
+                    className="rounded-md border px-2 py-1"
+                  >
+                    {(Object.keys(AI_LEVELS) as AiLevel[]).map((level) => (
+                      <option key={level} value={level}>
+                        {t.aiLevels[level]}
+                      </option>
+                    ))}
+                  </select>
+                  <label className="ml-2 flex items-center gap-1 text-gray-700" title={bookName}>
+                    <input type="checkbox" checked={useBook} onChange={() => onUseBookChange(!useBook)} />
+                    {t.useOpeningBook}
+                  </label>
+                </>
+              ) : (
+                <>
+                  <label htmlFor="gtp-url" className="ml-2 text-gray-700">{t.bridgeUrl}</label>
+                  <input
+                    id="gtp-url"
+                    value={gtpUrl}
+                    onChange={(e) => onGtpUrlChange(e.target.value)}
+                    className="w-56 rounded-md border px-2 py-1"
+                    placeholder={DEFAULT_GTP_BRIDGE_URL}
+                  />
+                </>
+              )}
+            </div>
+            <p id="rule-set-details" className="-mt-2 mb-4 text-xs text-gray-600">
+              {i18n.rules(RULE_SETS[ruleSet])}
+            </p>
+            {opponentKind === "builtin" && useBook && (
+              <div className="-mt-2 mb-4 flex flex-wrap items-center gap-2 text-xs text-gray-600">
+                <span>{t.openingBookName(bookName)}</span>
+                <label className="cursor-pointer rounded-md border px-2 py-0.5 hover:bg-gray-50">
+                  {t.importOpeningBook}
+                  <input type="file" accept=".sgf,application/x-go-sgf" onChange={handleBookImport} className="hidden" />
+                </label>
+                {onBookReset && (
+                  <button
+                    onClick={() => {
+                      onBookReset();
+                      setBookNote("");
+                    }}
+                    className="rounded-md border px-2 py-0.5 hover:bg-gray-50"
+                  >
+                    {t.builtinOpeningBook}
+                  </button>
+                )}
+                {bookNote && <span role="status">{bookNote}</span>}
+              </div>
+            )}
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+              <button
+                onClick={() => onSetupModeChange("ai")}
+                className="flex items-center gap-4 rounded-lg border p-4 text-left hover:shadow focus:outline-none focus:ring"
+              >
+                <div className="bg-gray-200 border-2 border-dashed rounded-xl w-16 h-16" />
+                <div>
+                  <div className="font-medium">{t.modes.ai}</div>
+                  <div className="text-sm text-gray-600">{t.aiModeText}</div>
+                </div>
+              </button>
+              <button
+                onClick={() => onSetupModeChange("local")}
+                className="flex items-center gap-4 rounded-lg border p-4 text-left hover:shadow focus:outline-none focus:ring"
+              >
+                <div className="bg-gray-200 border-2 border-dashed rounded-xl w-16 h-16" />
+                <div>
+                  <div className="font-medium">{t.modes.local}</div>
+                  <div className="text-sm text-gray-600">{t.localModeText}</div>
+                </div>
+              </button>
+              <button
+                onClick={() => onSetupModeChange("online")}
+                className="flex items-center gap-4 rounded-lg border p-4 text-left hover:shadow focus:outline-none focus:ring"
+              >
+                <div className="bg-gray-200 border-2 border-dashed rounded-xl w-16 h-16" />
+                <div>
+                  <div className="font-medium">{t.modes.online}</div>
+                  <div className="text-sm text-gray-600">{t.onlineModeText}</div>
+                </div>
+              </button>
             </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Names of the saved human profiles, suggested by the name fields
+function ProfileNames() {
+  const [names] = useState(() => loadProfiles().filter((p) => p.kind === "human").map((p) => p.name));
+  return (
+    <datalist id={PROFILE_NAMES_ID}>
+      {names.map((name) => (
+        <option key={name} value={name} />
+      ))}
+    </datalist>
+  );
+}
+
+function SetupPanel({
+  mode,
+  defaultKomi,
+  setup,
+  onChange,
+  onStart,
+  onBack,
+}: {
+  mode: "ai" | "local";
+  defaultKomi: number; // for an even game under the chosen rules
+  setup: GameSetup;
+  onChange: (setup: GameSetup) => void;
+  onStart: () => void;
+  onBack: () => void;
+}) {
+  const { t } = useI18n();
+  const set = (patch: Partial<GameSetup>) => onChange({ ...setup, ...patch });
+  const time = setup.timeControl;
+  const setTime = (patch: Partial<TimeControl>) => set({ timeControl: { ...time, ...patch } });
+  const handicapOptions = [0, ...Array.from({ length: MAX_HANDICAP - 1 }, (_, i) => i + 2)];
+  const aiPlacesStones = mode === "ai" && setup.humanColor === 2 && setup.handicap > 0 && setup.placement === "free";
+  return (
+    <div className="flex flex-col gap-4 text-sm">
+      <ProfileNames />
+      <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+        {mode === "ai" ? (
+          <>
+            <label className="flex items-center gap-2">
+              <span className="w-32 text-gray-700">{t.yourColor}</span>
+              <select
+                value={setup.humanColor}
+                onChange={(e) => set({ humanColor: Number(e.target.value) as Stone })}
+                className="rounded-md border px-2 py-1"
+              >
+                <option value={1}>{t.black}</option>
+                <option value={2}>{t.white}</option>
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              <span className="w-32 text-gray-700">{t.yourName}</span>
+              <input
+                value={setup.humanName}
+                onChange={(e) => set({ humanName: e.target.value })}
+                placeholder={t.humanName}
+                list={PROFILE_NAMES_ID}
+                className="flex-1 rounded-md border px-2 py-1"
+              />
+            </label>
+          </>
+        ) : (
+          <>
+            <label className="flex items-center gap-2">
+              <span className="w-32 text-gray-700">{t.blackName}</span>
+              <input
+                value={setup.blackName}
+                onChange={(e) => set({ blackName: e.target.value })}
+                placeholder={t.black}
+                list={PROFILE_NAMES_ID}
+                className="flex-1 rounded-md border px-2 py-1"
+              />
+            </label>
+            <label className="flex items-center gap-2">
+              <span className="w-32 text-gray-700">{t.whiteName}</span>
+              <input
+                value={setup.whiteName}
+                onChange={(e) => set({ whiteName: e.target.value })}
+                placeholder={t.white}
+                list={PROFILE_NAMES_ID}
+                className="flex-1 rounded-md border px-2 py-1"
+              />
+            </label>
+          </>
+        )}
+        <label className="flex items-center gap-2">
+          <span className="w-32 text-gray-700">{t.handicap}</span>
+          <select
+            value={setup.handicap}
+            // Handicap games usually give white only half a point
+            onChange={(e) => {
+              const handicap = Number(e.target.value);
+              set({ handicap, komi: handicap > 0 ? HANDICAP_KOMI : defaultKomi });
+            }}
+            className="rounded-md border px-2 py-1"
+          >
+            {handicapOptions.map((n) => (
+              <option key={n} value={n}>
+                {n === 0 ? t.noHandicap : t.stones(n)}
+              </option>
+            ))}
+          </select>
+          <select
+            value={setup.placement}
+            onChange={(e) => set({ placement: e.target.value as HandicapPlacement })}
+            disabled={setup.handicap === 0}
+            className="rounded-md border px-2 py-1 disabled:opacity-40"
+            aria-label={t.placement}
+          >
+            <option value="fixed">{t.placementFixed}</option>
+            <option value="free">{t.placementFree}</option>
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          <span className="w-32 text-gray-700">{t.komi}:</span>
+          <input
+            type="number"
+            step={0.5}
+            value={setup.komi}
+            onChange={(e) => {
+              const komi = Number(e.target.value);
+              if (e.target.value !== "" && Number.isFinite(komi)) set({ komi });
+            }}
+            className="w-24 rounded-md border px-2 py-1"
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          <span className="w-32 text-gray-700">{t.timeControl}</span>
+          <select
+            value={time.kind}
+            onChange={(e) => {
+              const kind = e.target.value as TimeControlKind;
+              // A Canadian block is counted in minutes, a byo-yomi period in seconds
+              setTime({ kind, periodMs: kind === "canadian" ? 5 * 60_000 : DEFAULT_TIME_CONTROL.periodMs });
+            }}
+            className="rounded-md border px-2 py-1"
+          >
+            {(Object.keys(t.timeControls) as TimeControlKind[]).map((kind) => (
+              <option key={kind} value={kind}>
+                {t.timeControls[kind]}
+              </option>
+            ))}
+          </select>
+        </label>
+        {time.kind !== "none" && (
+          <div className="flex flex-wrap items-center gap-2">
+            <TimeField label={t.mainTime} value={time.mainMs / 60_000} min={0} onChange={(v) => setTime({ mainMs: v * 60_000 })} />
+            {time.kind === "byoyomi" && (
+              <>
+                <TimeField label={t.periods} value={time.periods} min={1} onChange={(v) => setTime({ periods: v })} />
+                <TimeField label={t.periodSeconds} value={time.periodMs / 1000} min={1} onChange={(v) => setTime({ periodMs: v * 1000 })} />
+              </>
+            )}
+            {time.kind === "canadian" && (
+              <>
+                <TimeField label={t.periodStones} value={time.stones} min={1} onChange={(v) => setTime({ stones: v })} />
+                <TimeField label={t.periodMinutes} value={time.periodMs / 60_000} min={1} onChange={(v) => setTime({ periodMs: v * 60_000 })} />
+              </>
+            )}
+            {time.kind === "fischer" && (
+              <TimeField label={t.increment} value={time.incrementMs / 1000} min={0} onChange={(v) => setTime({ incrementMs: v * 1000 })} />
+            )}
           </div>
         )}
-        <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+      </div>
+      <p className="text-gray-600">
+        {setup.handicap > 0 ? t.handicapNote(setup.handicap, setup.placement === "free") : t.evenGameNote}
+        {aiPlacesStones && t.aiPlacesNote}
+      </p>
+      <div className="flex justify-end gap-2">
+        <button onClick={onBack} className="rounded-md border px-3 py-1 hover:bg-gray-50">{t.back}</button>
+        <button onClick={onStart} className="rounded-md border bg-black px-3 py-1 text-white hover:bg-gray-800">{t.start}</button>
+      </div>
+    </div>
+  );
+}
+
+// Create a room (with the board size and rules chosen above) or join one by its code
+function OnlineLobby({
+  boardSize,
+  ruleSet,
+  url,
+  onUrlChange,
+  onStart,
+  onBack,
+}: {
+  boardSize: BoardSize;
+  ruleSet: RuleSetId;
+  url: string;
+  onUrlChange: (url: string) => void;
+  onStart: (request: RoomRequest) => void;
+  onBack: () => void;
+}) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [name, setName] = useState("");
+  const [color, setColor] = useState<Stone>(1);
+  const [handicap, setHandicap] = useState(0);
+  const rules = RULE_SETS[ruleSet];
+  const [komi, setKomi] = useState(rules.komi);
+  const [code, setCode] = useState("");
+  const handicapOptions = [0, ...Array.from({ length: MAX_HANDICAP - 1 }, (_, i) => i + 2)];
+  return (
+    <div className="flex flex-col gap-4 text-sm">
+      <ProfileNames />
+      <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+        <label className="flex items-center gap-2">
+          <span className="w-32 text-gray-700">{t.yourName}</span>
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={t.humanName}
+            list={PROFILE_NAMES_ID}
+            maxLength={40}
+            className="flex-1 rounded-md border px-2 py-1"
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          <span className="w-32 text-gray-700">{t.relayServer}</span>
+          <input
+            value={url}
+            onChange={(e) => onUrlChange(e.target.value)}
+            placeholder={DEFAULT_RELAY_URL}
+            className="flex-1 rounded-md border px-2 py-1"
+          />
+        </label>
+      </div>
+      <div className="rounded-lg border p-4">
+        <div className="mb-3 font-medium">{t.createRoomTitle}</div>
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="flex items-center gap-2">
+            <span className="text-gray-700">{t.yourColor}</span>
+            <select value={color} onChange={(e) => setColor(Number(e.target.value) as Stone)} className="rounded-md border px-2 py-1">
+              <option value={1}>{t.black}</option>
+              <option value={2}>{t.white}</option>
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            <span className="text-gray-700">{t.handicap}</span>
+            <select
+              value={handicap}
+              onChange={(e) => {
+                const n = Number(e.target.value);
+                setHandicap(n);
+                setKomi(n > 0 ? HANDICAP_KOMI : rules.komi);
+              }}
+              className="rounded-md border px-2 py-1"
+            >
+              {handicapOptions.map((n) => (
+                <option key={n} value={n}>
+                  {n === 0 ? t.noHandicap : t.stones(n)}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            <span className="text-gray-700">{t.komi}:</span>
+            <input
+              type="number"
+              step={0.5}
+              value={komi}
+              onChange={(e) => {
+                const value = Number(e.target.value);
+                if (e.target.value !== "" && Number.isFinite(value)) setKomi(value);
+              }}
+              className="w-20 rounded-md border px-2 py-1"
+            />
+          </label>
           <button
-            onClick={() => onSelect("ai")}
-            className="flex items-center gap-4 rounded-lg border p-4 text-left hover:shadow focus:outline-none focus:ring"
+            onClick={() =>
+              onStart({ type: "create", name, color, settings: { size: boardSize, rules: ruleSet, komi, handicap } })
+            }
+            className="rounded-md border bg-black px-3 py-1 text-white hover:bg-gray-800"
           >
-            <div className="bg-gray-200 border-2 border-dashed rounded-xl w-16 h-16" />
-            <div>
-              <div className="font-medium">Chơi với máy</div>
-              <div className="text-sm text-gray-600">Đối thủ máy cơ bản, phù hợp để làm quen.</div>
-            </div>
+            {t.createRoom}
           </button>
+        </div>
+        <p className="mt-2 text-gray-600">{t.roomNote(boardSize, i18n.rules(rules))}</p>
+      </div>
+      <div className="rounded-lg border p-4">
+        <div className="mb-3 font-medium">{t.joinRoomTitle}</div>
+        <div className="flex flex-wrap items-center gap-3">
+          <input
+            value={code}
+            onChange={(e) => setCode(e.target.value.toUpperCase())}
+            placeholder={t.roomCode}
+            maxLength={ROOM_CODE_LENGTH}
+            className="w-32 rounded-md border px-2 py-1 font-mono tracking-widest"
+          />
           <button
-            onClick={() => onSelect("local")}
-            className="flex items-center gap-4 rounded-lg border p-4 text-left hover:shadow focus:outline-none focus:ring"
+            onClick={() => onStart({ type: "join", code: code.trim(), name })}
+            disabled={code.trim().length !== ROOM_CODE_LENGTH}
+            className="rounded-md border bg-black px-3 py-1 text-white hover:bg-gray-800 disabled:opacity-40"
           >
-            <div className="bg-gray-200 border-2 border-dashed rounded-xl w-16 h-16" />
-            <div>
-              <div className="font-medium">Chơi 2 người</div>
-              <div className="text-sm text-gray-600">Cùng chơi trên một máy, luân phiên đi quân.</div>
-            </div>
+            {t.joinRoom}
           </button>
         </div>
       </div>
+      <div className="flex justify-end">
+        <button onClick={onBack} className="rounded-md border px-3 py-1 hover:bg-gray-50">{t.back}</button>
+      </div>
     </div>
   );
 }
@@ -214,94 +916,676 @@ function GoBoard({
   lastMove,
   onPlay,
   disabled,
+  territory,
+  dead,
+  moveNumbers,
+  overlay,
+  preview,
+  highlight,
+  marks,
 }: {
   board: Stone[][];
   lastMove: Position | null;
   onPlay: (x: number, y: number) => void;
   disabled?: boolean;
+  territory?: Stone[][] | null; // owner of each point during scoring
+  dead?: Set<string>;
+  moveNumbers?: number[][] | null; // move number to print on each stone, 0 for none
+  overlay?: BoardOverlay | null; // analysis aids
+  preview?: (x: number, y: number) => MoveCheck; // what a move at the hovered point would do
+  highlight?: Position[] | null; // stones of the last refused move
+  marks?: Mark[]; // triangles, squares, circles and labels
 }) {
-  const isStar = (x: number, y: number) => {
-    // Standard star points for 9x9: (2,2), (2,6), (6,2), (6,6), (4,4) [0-based]
-    if (BOARD_SIZE !== 9) return false;
-    const pts = [
-      { x: 2, y: 2 },
-      { x: 6, y: 2 },
-      { x: 2, y: 6 },
-      { x: 6, y: 6 },
-      { x: 4, y: 4 },
-    ];
-    return pts.some((p) => p.x === x && p.y === y);
-  };
+  const i18n = useI18n();
+  const { t } = i18n;
+  const size = board.length;
+  const side = diagramSize(size);
+  const heat = new Map((overlay?.heat ?? []).map((h) => [pointKey(h.x, h.y), h]));
+  const book = new Map((overlay?.book ?? []).map((m) => [pointKey(m.x, m.y), m]));
+  // Fit the board to the viewport: 40px per point at most, smaller on narrow or short screens
+  const cellSize = `min(2.5rem, calc((100vw - 4.5rem) / ${size + 1}), calc((100vh - 15rem) / ${size + 1}))`;
+  // The buttons cover the grid with half a cell around it, so each one is centred on its point
+  const inset = `${(100 * (lineAt(0) - CELL / 2)) / side}%`;
+  // Roving focus: only one point is in the tab order and the arrow keys move it
+  const [focus, setFocus] = useState<Position>(() => ({ x: size >> 1, y: size >> 1 }));
+  const cells = useRef<(HTMLButtonElement | null)[]>([]);
+  const fx = Math.min(focus.x, size - 1);
+  const fy = Math.min(focus.y, size - 1);
+  const [hover, setHover] = useState<Position | null>(null);
+  const hint = hover && preview && !disabled && board[hover.y]?.[hover.x] === 0 ? preview(hover.x, hover.y) : null;
+  // Only the board's own reasons are previewed; turn and game state show on the click
+  const shownHint = hint && (hint.legal || hint.reason === "suicide" || hint.reason === "ko") ? hint : null;
+  const flagged = [...(highlight ?? []), ...(shownHint?.legal === false ? shownHint.group ?? [] : [])];
+
+  // A stone the estimate gives to the other side is probably dead
+  const faded = new Set(dead);
+  board.forEach((row, y) =>
+    row.forEach((cell, x) => {
+      const shade = overlay?.shade ? overlay.shade[y][x] : 0;
+      if (cell !== 0 && (cell === 1 ? shade < -0.3 : shade > 0.3)) faded.add(pointKey(x, y));
+    })
+  );
+  const layers = diagramLayers({ board, lastMove, numbers: moveNumbers, marks, faded, coordinates: i18n.notation });
+
+  function handleKeyDown(e: React.KeyboardEvent) {
+    const moves: Record<string, Position> = {
+      ArrowLeft: { x: fx - 1, y: fy },
+      ArrowRight: { x: fx + 1, y: fy },
+      ArrowUp: { x: fx, y: fy - 1 },
+      ArrowDown: { x: fx, y: fy + 1 },
+      Home: { x: 0, y: fy },
+      End: { x: size - 1, y: fy },
+      PageUp: { x: fx, y: 0 },
+      PageDown: { x: fx, y: size - 1 },
+    };
+    const to = moves[e.key];
+    if (!to) return;
+    e.preventDefault();
+    const x = Math.max(0, Math.min(size - 1, to.x));
+    const y = Math.max(0, Math.min(size - 1, to.y));
+    setFocus({ x, y });
+    cells.current[y * size + x]?.focus();
+  }
+
+  // What the tooltip says about a point besides its name
+  function pointTitle(x: number, y: number): string {
+    const parts = [i18n.point({ x, y }, size)];
+    const hinted = shownHint && hover!.x === x && hover!.y === y ? shownHint : null;
+    if (hinted) {
+      parts.push(
+        hinted.legal
+          ? hinted.captures
+            ? t.previewCaptures(i18n.color(hinted.color), hinted.captures)
+            : t.previewMove(i18n.color(hinted.color))
+          : t.illegal[hinted.reason!]
+      );
+    }
+    const liberties = overlay?.liberties ? overlay.liberties[y][x] : 0;
+    if (liberties) parts.push(liberties === 1 ? t.atariTitle : t.twoLibertiesTitle);
+    const hot = board[y][x] === 0 ? heat.get(pointKey(x, y)) : undefined;
+    if (hot) parts.push(t.candidateTitle(hot.rank, Math.round(hot.winRate * 100)));
+    const known = board[y][x] === 0 ? book.get(pointKey(x, y)) : undefined;
+    if (known) parts.push(t.bookMoveTitle(Math.round(known.share * 100)));
+    return parts.join(": ");
+  }
 
   return (
-    <div className="inline-block rounded-lg border bg-yellow-100 p-2">
-      <div className="grid grid-cols-9">
-        {board.map((row, y) =>
-          row.map((cell, x) => {
-            const isLast = lastMove && lastMove.x === x && lastMove.y === y;
-            const baseBorders = [
-              y === 0 ? "border-t" : "",
-              x === 0 ? "border-l" : "",
-              y === BOARD_SIZE - 1 ? "border-b" : "",
-              x === BOARD_SIZE - 1 ? "border-r" : "",
-            ]
-              .filter(Boolean)
-              .join(" ");
-            return (
+    <div className="inline-block rounded-lg border shadow-sm" style={{ width: `calc(${size + 1} * ${cellSize})` }}>
+      <div className="relative">
+        <svg
+          viewBox={`0 0 ${side} ${side}`}
+          className={`block h-auto w-full rounded-lg ${disabled ? "opacity-70" : ""}`}
+          aria-hidden="true"
+        >
+          <g dangerouslySetInnerHTML={{ __html: layers }} />
+          {board.map((row, y) =>
+            row.map((cell, x) => {
+              const cx = lineAt(x);
+              const cy = lineAt(y);
+              const shade = overlay?.shade ? overlay.shade[y][x] : 0;
+              const owner = territory ? territory[y][x] : 0;
+              const liberties = overlay?.liberties ? overlay.liberties[y][x] : 0;
+              const hot = cell === 0 ? heat.get(pointKey(x, y)) : undefined;
+              const known = cell === 0 && book.has(pointKey(x, y));
+              return (
+                <g key={`${x}-${y}`}>
+                  {cell === 0 && shade !== 0 && (
+                    <rect
+                      x={cx - CELL / 2}
+                      y={cy - CELL / 2}
+                      width={CELL}
+                      height={CELL}
+                      fill={shade > 0 ? "#000" : "#fff"}
+                      fillOpacity={shade > 0 ? 0.45 * shade : -0.75 * shade}
+                    />
+                  )}
+                  {owner !== 0 && (
+                    <rect
+                      x={cx - CELL * 0.15}
+                      y={cy - CELL * 0.15}
+                      width={CELL * 0.3}
+                      height={CELL * 0.3}
+                      fill={owner === 1 ? BOARD_COLORS.black : BOARD_COLORS.white}
+                      stroke={owner === 1 ? "none" : "#6b7280"}
+                    />
+                  )}
+                  {known && (
+                    <circle
+                      cx={cx}
+                      cy={cy}
+                      r={CELL * 0.36}
+                      fill="rgba(22, 163, 74, 0.2)"
+                      stroke="#15803d"
+                      strokeWidth={2.5}
+                      strokeDasharray="5 3"
+                    />
+                  )}
+                  {hot && (
+                    <g>
+                      <circle
+                        cx={cx}
+                        cy={cy}
+                        r={CELL * 0.3}
+                        fill={`rgba(37, 99, 235, ${0.25 + 0.6 * hot.share})`}
+                        stroke={hot.rank === 1 ? "#1d4ed8" : "none"}
+                        strokeWidth={3}
+                      />
+                      <text x={cx} y={cy} fontSize={CELL * 0.3} fill="#fff" textAnchor="middle" dominantBaseline="central">
+                        {Math.round(hot.winRate * 100)}
+                      </text>
+                    </g>
+                  )}
+                  {liberties > 0 && (
+                    <g>
+                      <circle
+                        cx={cx + STONE_RADIUS * 0.75}
+                        cy={cy - STONE_RADIUS * 0.75}
+                        r={CELL * 0.17}
+                        fill={liberties === 1 ? "#dc2626" : "#f97316"}
+                      />
+                      <text
+                        x={cx + STONE_RADIUS * 0.75}
+                        y={cy - STONE_RADIUS * 0.75}
+                        fontSize={CELL * 0.24}
+                        fill="#fff"
+                        textAnchor="middle"
+                        dominantBaseline="central"
+                      >
+                        {liberties}
+                      </text>
+                    </g>
+                  )}
+                </g>
+              );
+            })
+          )}
+          {flagged.map((p) => (
+            <circle
+              key={`flag-${p.x}-${p.y}`}
+              cx={lineAt(p.x)}
+              cy={lineAt(p.y)}
+              r={STONE_RADIUS + 1}
+              fill="none"
+              stroke="#ef4444"
+              strokeWidth={3}
+            />
+          ))}
+          {shownHint && hover && (
+            <g pointerEvents="none">
+              {shownHint.legal ? (
+                <>
+                  <circle
+                    cx={lineAt(hover.x)}
+                    cy={lineAt(hover.y)}
+                    r={STONE_RADIUS}
+                    fill={shownHint.color === 1 ? BOARD_COLORS.black : BOARD_COLORS.white}
+                    fillOpacity={0.45}
+                  />
+                  {shownHint.captures > 0 && (
+                    <text
+                      x={lineAt(hover.x)}
+                      y={lineAt(hover.y)}
+                      fontSize={CELL * 0.36}
+                      fontWeight="bold"
+                      fill={shownHint.color === 1 ? BOARD_COLORS.white : BOARD_COLORS.black}
+                      textAnchor="middle"
+                      dominantBaseline="central"
+                    >
+                      +{shownHint.captures}
+                    </text>
+                  )}
+                </>
+              ) : (
+                <text
+                  x={lineAt(hover.x)}
+                  y={lineAt(hover.y)}
+                  fontSize={CELL * 0.6}
+                  fontWeight="bold"
+                  fill="#dc2626"
+                  textAnchor="middle"
+                  dominantBaseline="central"
+                >
+                  ×
+                </text>
+              )}
+            </g>
+          )}
+        </svg>
+        <div
+          className="absolute grid"
+          style={{ inset, gridTemplateColumns: `repeat(${size}, 1fr)`, gridTemplateRows: `repeat(${size}, 1fr)` }}
+          role="group"
+          aria-label={t.boardLabel(size)}
+          onKeyDown={handleKeyDown}
+          onMouseLeave={() => setHover(null)}
+        >
+          {board.map((row, y) =>
+            row.map((cell, x) => (
+              // aria-disabled rather than disabled, so a locked board keeps its keyboard focus
               <button
                 key={`${x}-${y}`}
-                onClick={() => onPlay(x, y)}
-                disabled={disabled}
-                className={`relative flex h-10 w-10 items-center justify-center ${baseBorders} border-yellow-700 bg-yellow-100 hover:bg-yellow-200 ${
-                  disabled ? "cursor-not-allowed opacity-70" : "cursor-pointer"
+                ref={(el) => {
+                  cells.current[y * size + x] = el;
+                }}
+                onClick={() => !disabled && onPlay(x, y)}
+                onFocus={() => setFocus({ x, y })}
+                onMouseEnter={() => setHover({ x, y })}
+                tabIndex={x === fx && y === fy ? 0 : -1}
+                aria-disabled={disabled || undefined}
+                className={`rounded-full focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 ${
+                  disabled ? "cursor-not-allowed" : "cursor-pointer hover:bg-black/10"
                 }`}
-                aria-label={`Ô (${x + 1},${y + 1})`}
-                title={`Ô (${x + 1},${y + 1})`}
-              >
-                {isStar(x, y) && cell === 0 && (
-                  <div className="h-2 w-2 rounded-full bg-yellow-700" />
-                )}
-                {cell !== 0 && (
-                  <div
-                    className={`h-7 w-7 rounded-full ${
-                      cell === 1
-                        ? "bg-black shadow"
-                        : "bg-white shadow border border-gray-400"
-                    } ${isLast ? "ring-2 ring-blue-400" : ""}`}
-                  />
-                )}
-              </button>
-            );
-          })
-        )}
+                aria-label={describePoint(i18n, cell, { x, y }, size, {
+                  last: lastMove?.x === x && lastMove.y === y,
+                  dead: !!dead && dead.has(pointKey(x, y)),
+                  owner: territory ? territory[y][x] : 0,
+                  liberties: overlay?.liberties ? overlay.liberties[y][x] : 0,
+                })}
+                title={pointTitle(x, y)}
+              />
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Markup tools and exports of the position on screen
+function BoardTools({
+  board,
+  toMove,
+  lastMove,
+  moveNumbers,
+  markup,
+}: {
+  board: Stone[][];
+  toMove: Stone;
+  lastMove: Position | null;
+  moveNumbers?: number[][] | null;
+  markup: ReturnType<typeof useMarkup>;
+}) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [status, setStatus] = useState<string | null>(null);
+  const diagram: Diagram = { board, toMove, lastMove, numbers: moveNumbers, marks: markup.marks, coordinates: i18n.notation };
+  const btn = "rounded-md border px-2 py-1 hover:bg-gray-50";
+  const tools: MarkTool[] = ["triangle", "square", "circle", "label", "clear"];
+
+  function exportPng() {
+    const side = diagramSize(board.length);
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = canvas.height = side * PNG_SCALE;
+      canvas.getContext("2d")!.drawImage(image, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob((blob) => (blob ? downloadBlob(datedFileName("png"), blob) : setStatus(t.exportFailed)), "image/png");
+    };
+    image.onerror = () => setStatus(t.exportFailed);
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(diagramSvg(diagram))}`;
+  }
+
+  function copyAscii() {
+    navigator.clipboard.writeText(diagramAscii(diagram)).then(
+      () => setStatus(t.diagramCopied),
+      () => setStatus(t.exportFailed)
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <span className="text-gray-700">{t.markup}</span>
+      <div role="group" aria-label={t.markup} className="flex gap-1">
+        {tools.map((tool) => (
+          <button
+            key={tool}
+            onClick={() => markup.setTool(markup.tool === tool ? null : tool)}
+            aria-pressed={markup.tool === tool}
+            title={t.markTools[tool]}
+            className={`${btn} ${markup.tool === tool ? "bg-blue-100 border-blue-400" : ""}`}
+          >
+            {MARK_TOOL_ICONS[tool]}
+          </button>
+        ))}
       </div>
+      {markup.marks.length > 0 && (
+        <button onClick={markup.clear} className={btn}>
+          {t.clearMarks}
+        </button>
+      )}
+      <span className="ml-2 text-gray-700">{t.exportPosition}</span>
+      <button onClick={() => downloadText(datedFileName("svg"), diagramSvg(diagram), "image/svg+xml")} className={btn}>
+        SVG
+      </button>
+      <button onClick={exportPng} className={btn}>
+        PNG
+      </button>
+      <button onClick={copyAscii} className={btn} title={t.copyDiagramTitle}>
+        {t.copyDiagram}
+      </button>
+      {status && (
+        <span role="status" className="text-gray-500">
+          {status}
+        </span>
+      )}
     </div>
   );
 }
 
+function TimeField({
+  label,
+  value,
+  min,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  min: number;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <label className="flex items-center gap-1">
+      <span className="text-gray-600">{label}</span>
+      <input
+        type="number"
+        min={min}
+        value={value}
+        onChange={(e) => {
+          const v = Number(e.target.value);
+          if (e.target.value !== "" && Number.isFinite(v) && v >= min) onChange(v);
+        }}
+        className="w-16 rounded-md border px-2 py-1"
+      />
+    </label>
+  );
+}
+
 function ScoreBar({
   current,
   captures,
   komi,
+  handicap,
+  players,
 }: {
   current: Stone;
   captures: Captures;
   komi: number;
+  handicap: number;
+  players: Players;
 }) {
+  const i18n = useI18n();
+  const { t } = i18n;
   return (
     <div className="flex flex-wrap items-center gap-3 rounded-lg border p-3">
       <div className="flex items-center gap-2">
-        <span className="text-sm text-gray-600">Lượt:</span>
+        <span className="text-sm text-gray-600">{t.turn}</span>
         <span
           className={`inline-flex items-center gap-1 rounded-full px-2 py-1 text-sm ${
             current === 1 ? "bg-black text-white" : "bg-white text-gray-900 border"
           }`}
         >
-          {prettyColor(current)}
+          {playerLabel(i18n, current, players)}
+        </span>
+      </div>
+      <div className="text-sm text-gray-700">{t.captures(captures.black, captures.white)}</div>
+      <div className="text-sm text-gray-700">
+        {t.komi}: {komi}
+      </div>
+      {handicap > 0 && <div className="text-sm text-gray-700">{t.handicapShort(handicap)}</div>}
+    </div>
+  );
+}
+
+function ClockPanel({
+  black,
+  white,
+  control,
+  turn,
+  paused,
+}: {
+  black: PlayerClock;
+  white: PlayerClock;
+  control: TimeControl;
+  turn: Stone;
+  paused: boolean;
+}) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const face = (color: Stone, clock: PlayerClock) => {
+    const active = turn === color && !paused;
+    // Warn in the last 10 seconds of main time, or of the current period in overtime
+    const low = clock.flagged || (clock.mainMs > 0 ? clock.mainMs : clock.periodMs) <= 10_000;
+    const text = low ? "text-red-500" : color === 1 ? "text-white" : "text-gray-900";
+    return (
+      <div
+        className={`rounded-md px-3 py-1 font-mono text-sm ${color === 1 ? "bg-black" : "border bg-white"} ${text} ${
+          active ? "ring-2 ring-black ring-offset-1" : ""
+        }`}
+        aria-label={t.clockOf(i18n.color(color))}
+      >
+        {clock.flagged ? t.flagged : formatClock(clock, control, t.stonesUnit)}
+      </div>
+    );
+  };
+  return (
+    <div className="flex items-center gap-2 rounded-lg border p-2 text-sm">
+      {face(1, black)}
+      {face(2, white)}
+      {paused && <span className="text-gray-500">{t.paused}</span>}
+    </div>
+  );
+}
+
+function ScoringPanel({
+  blackScore,
+  whiteScore,
+  komi,
+  method,
+  onConfirm,
+  onResume,
+}: {
+  blackScore: number;
+  whiteScore: number;
+  komi: number;
+  method: ScoringMethod;
+  onConfirm: () => void;
+  onResume: () => void;
+}) {
+  const { t } = useI18n();
+  return (
+    <div className="flex flex-col items-center gap-2 rounded-lg border p-3 text-sm">
+      <div className="text-gray-700">
+        {t.scoringHelp} {t.scoringMethods[method]}.
+      </div>
+      <div className="flex flex-wrap items-center gap-3">
+        <span>
+          {t.black}: {blackScore.toFixed(1)}
+        </span>
+        <span>
+          {t.white}: {whiteScore.toFixed(1)} (komi {komi})
         </span>
       </div>
-      <div className="text-sm text-gray-700">Bắt: Đen {captures.black} · Trắng {captures.white}</div>
-      <div className="text-sm text-gray-700">Komi: {komi}</div>
+      <div className="flex items-center gap-2">
+        <button onClick={onConfirm} className="rounded-md border px-3 py-1 hover:bg-gray-50">{t.confirmScore}</button>
+        <button onClick={onResume} className="rounded-md border px-3 py-1 hover:bg-gray-50">{t.resumePlay}</button>
+      </div>
+    </div>
+  );
+}
+
+// Typed moves for keyboard and screen-reader players: "E5", "pass"
+function MoveEntry({
+  size,
+  onPlay,
+  onPass,
+  disabled,
+}: {
+  size: number;
+  onPlay: (x: number, y: number) => void;
+  onPass: () => void;
+  disabled?: boolean;
+}) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [text, setText] = useState("");
+  const [error, setError] = useState("");
+  const example = i18n.point({ x: size >> 1, y: size >> 1 }, size);
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    const point = parseMoveInput(i18n, text, size);
+    if (point === undefined) {
+      setError(t.unreadableMove(text.trim(), example));
+      return;
+    }
+    setError("");
+    setText("");
+    if (point) onPlay(point.x, point.y);
+    else onPass();
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-wrap items-center gap-2 text-sm">
+      <label className="flex items-center gap-1">
+        <span className="text-gray-600">{t.moveEntry}</span>
+        <input
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          disabled={disabled}
+          placeholder={t.moveEntryPlaceholder(example)}
+          className="w-32 rounded-md border px-2 py-1"
+        />
+      </label>
+      <button type="submit" disabled={disabled || !text.trim()} className="rounded-md border px-3 py-1 hover:bg-gray-50 disabled:opacity-40">
+        {t.play}
+      </button>
+      {error && <span role="alert" className="text-red-600">{error}</span>}
+    </form>
+  );
+}
+
+// Reads each move, capture and change of turn to screen readers
+function GameAnnouncer({ state }: { state: GameState }) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const { timeline, phase, result } = state;
+  const text =
+    phase === "finished" && result
+      ? t.gameOver(describeResult(i18n, formatSgfResult(result)))
+      : phase === "scoring"
+      ? t.scoringStarted
+      : phase === "placing"
+      ? t.placingLeft(handicapStonesLeft(state))
+      : announceTurn(i18n, timeline);
+  return (
+    <div aria-live="polite" className="sr-only">
+      {text}
+    </div>
+  );
+}
+
+function MoveNavigator({
+  index,
+  total,
+  onNavigate,
+  showNumbers,
+  onToggleNumbers,
+}: {
+  index: number; // move number of the displayed position
+  total: number;
+  onNavigate: (index: number) => void;
+  showNumbers: boolean;
+  onToggleNumbers: () => void;
+}) {
+  const { t } = useI18n();
+  const btn = "rounded-md border px-2 py-1 text-sm hover:bg-gray-50 disabled:opacity-40";
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <button onClick={() => onNavigate(0)} disabled={index === 0} className={btn} aria-label={t.firstMove}>⏮</button>
+      <button onClick={() => onNavigate(index - 1)} disabled={index === 0} className={btn} aria-label={t.previousMove}>◀</button>
+      <span className="min-w-[6rem] text-center text-gray-700">{t.moveOf(index, total)}</span>
+      <button onClick={() => onNavigate(index + 1)} disabled={index === total} className={btn} aria-label={t.nextMove}>▶</button>
+      <button onClick={() => onNavigate(total)} disabled={index === total} className={btn} aria-label={t.lastMove}>⏭</button>
+      <label className="ml-2 flex items-center gap-1 text-gray-700">
+        <input type="checkbox" checked={showNumbers} onChange={onToggleNumbers} />
+        {t.showNumbers}
+      </label>
+    </div>
+  );
+}
+
+function AnalysisPanel({
+  options,
+  onChange,
+  analysis,
+  running,
+  failed,
+  toMove,
+  size,
+  hasBook,
+}: {
+  options: OverlayOptions;
+  onChange: (options: OverlayOptions) => void;
+  analysis: AiResponse | null;
+  running: boolean;
+  failed: boolean; // the search of this position failed
+  toMove: Stone;
+  size: number;
+  hasBook: boolean; // the opening book covers this board size
+}) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const set = (patch: Partial<OverlayOptions>) => onChange({ ...options, ...patch });
+  // The search reports win rates for the side to move
+  const blackWinRate = analysis ? (toMove === 1 ? analysis.winRate : 1 - analysis.winRate) : null;
+  const top = analysis?.candidates?.slice(0, 3) ?? [];
+  return (
+    <div className="flex flex-col gap-2 rounded-lg border p-3 text-sm">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="font-medium text-gray-700">{t.analysis}</span>
+        <select
+          value={options.shade}
+          onChange={(e) => set({ shade: e.target.value as ShadeKind })}
+          className="rounded-md border px-2 py-1"
+          aria-label={t.shading}
+        >
+          {(Object.keys(t.shades) as ShadeKind[]).map((kind) => (
+            <option key={kind} value={kind}>
+              {t.shades[kind]}
+            </option>
+          ))}
+        </select>
+        <label className="flex items-center gap-1 text-gray-700">
+          <input type="checkbox" checked={options.warnings} onChange={() => set({ warnings: !options.warnings })} />
+          {t.libertyWarnings}
+        </label>
+        <label className="flex items-center gap-1 text-gray-700">
+          <input type="checkbox" checked={options.candidates} onChange={() => set({ candidates: !options.candidates })} />
+          {t.candidateMoves}
+        </label>
+        {hasBook && (
+          <label className="flex items-center gap-1 text-gray-700">
+            <input type="checkbox" checked={options.book} onChange={() => set({ book: !options.book })} />
+            {t.bookMoves}
+          </label>
+        )}
+      </div>
+      {running && <div className="text-gray-500">{t.analyzing}</div>}
+      {failed && <div className="text-gray-500">{t.analysisFailed}</div>}
+      {blackWinRate !== null && analysis && (
+        <div className="text-gray-700">
+          {t.blackWinRate(Math.round(blackWinRate * 100), analysis.playouts)}
+          {top.length > 0 && (
+            <>
+              {" · "}
+              {t.suggestionsFor(i18n.color(toMove))}{" "}
+              {top
+                .map((c) => `${c.move ? i18n.point(c.move, size) : t.pass} (${Math.round(c.winRate * 100)}%)`)
+                .join(", ")}
+            </>
+          )}
+        </div>
+      )}
     </div>
   );
 }
@@ -311,190 +1595,261 @@ function ScoreBar({
 function AiGame({
   onRequestMode,
   reportFinish,
+  rules,
+  boardSize,
+  opponent,
+  setup,
+  paused,
+  resume,
+  onAutosave,
+  book,
 }: {
   onRequestMode: () => void;
   reportFinish: (summary: Summary) => void;
+  rules: RuleSet;
+  boardSize: BoardSize;
+  opponent: Opponent;
+  setup: GameSetup;
+  paused: boolean; // a dialog covers the board
+  resume: ResumedGame | null; // autosaved game to continue instead of a new one
+  onAutosave: (state: GameState, clock: ClockState | null) => void;
+  book: OpeningBook; // for the book move hints
 }) {
-  const [board, setBoard] = useState<Stone[][]>(() => makeEmptyBoard());
-  const [current, setCurrent] = useState<Stone>(1); // black starts
-  const [captures, setCaptures] = useState<Captures>({ black: 0, white: 0 });
-  const [lastMove, setLastMove] = useState<Position | null>(null);
-  const [passes, setPasses] = useState(0);
-  const [humanColor, setHumanColor] = useState<Stone>(1);
+  const i18n = useI18n();
+  const { t } = i18n;
+  const { humanColor } = setup;
+  const humanName = setup.humanName.trim(); // empty when unnamed; shown as the color
+  const players = humanColor === 1 ? { black: humanName, white: opponent.name } : { black: opponent.name, white: humanName };
+  // The machine cannot click, so it always takes fixed handicap points
+  const placement = humanColor === 2 ? "fixed" : setup.placement;
+  const options = gameOptions({ ...setup, placement }, players, { size: boardSize, rules });
+  const game = useGoGame(() => resume?.state ?? newGame(options));
+  const [viewIndex, setViewIndex] = useState<number | null>(null); // past position being reviewed
+  const [showNumbers, setShowNumbers] = useState(false);
+  const [thinking, setThinking] = useState(false);
   const [message, setMessage] = useState<string>("");
-  const komi = DEFAULT_KOMI;
-
-  const moveCount = countStones(board).black + countStones(board).white;
-  const canToggleColor = moveCount === 0;
-
-  function endGame(reason: string) {
-    const { blackScore, whiteScore } = computeScore(board, captures, komi);
-    const winner: "black" | "white" | "draw" =
-      Math.abs(blackScore - whiteScore) < 1e-6
-        ? "draw"
-        : blackScore > whiteScore
-        ? "black"
-        : "white";
-    reportFinish({
-      mode: "ai",
-      blackScore,
-      whiteScore,
-      captures,
-      komi,
-      winner,
-    });
-    setMessage(reason ? `Kết thúc: ${reason}` : "");
+  const [rejected, setRejected] = useState<Rejection | null>(null);
+
+  const { state } = game;
+  const { timeline, komi, phase } = state;
+  const { board, captures, toMove: current } = game.position;
+  const shownIndex = viewIndex ?? timeline.length - 1;
+  const shown = timeline[shownIndex];
+  const markup = useMarkup(shown);
+  const [overlays, setOverlays] = useState<OverlayOptions>(DEFAULT_OVERLAYS);
+  const { analysis, running, failed } = useAnalysis(timeline.slice(0, shownIndex + 1), komi, state.rules.koRule, needsSearch(overlays));
+  const preview = phase === "scoring" ? computeScore(board, captures, komi, state.rules.scoring, state.dead) : null;
+  const clock = useGameClock(
+    setup.timeControl,
+    clockTurn(state),
+    !paused,
+    (color) => finish(game.timeout(color), t.timedOut(i18n.color(color))),
+    resume?.clock
+  );
+
+  useEffect(() => {
+    if (phase !== "finished") onAutosave(state, clock.enabled ? clock.snapshot() : null);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [state]);
+
+  function record(next: GameState): string {
+    return gameToSgf(next, sgfTiming(setup.timeControl));
+  }
+
+  function finish(next: GameState, reason: string) {
+    const human = trackedPlayer(humanName, humanColor);
+    const machine: Participant = { kind: "ai", id: opponent.id, name: opponent.name };
+    reportFinish(
+      summarize("ai", next, record(next), humanColor === 1 ? { black: human, white: machine } : { black: machine, white: human })
+    );
+    setMessage(reason ? t.ended(reason) : "");
+  }
+
+  function handleExport() {
+    downloadText(sgfFileName(), record(state));
   }
 
   function handleHumanPlay(x: number, y: number) {
-    if (current !== humanColor) return;
-    const res = tryPlay(board, x, y, current);
-    if (!res.legal || !res.board) {
-      setMessage("Nước đi không hợp lệ");
+    if (markup.mark(x, y) || viewIndex !== null) return;
+    if (phase === "placing") {
+      game.placeHandicap(x, y);
       return;
     }
-    setBoard(res.board);
-    setLastMove({ x, y });
-    setPasses(0);
-    if (current === 1 && res.captured) {
-      setCaptures((c) => ({ ...c, black: c.black + (res.captured || 0) }));
-    }
-    if (current === 2 && res.captured) {
-      setCaptures((c) => ({ ...c, white: c.white + (res.captured || 0) }));
+    if (phase === "scoring") {
+      game.toggleDead(x, y);
+      return;
     }
-    setCurrent(current === 1 ? 2 : 1);
-  }
-
-  function pickAiMove(): { x: number; y: number } | null {
-    // Evaluate legal moves with simple heuristic
-    const center = { x: Math.floor(BOARD_SIZE / 2), y: Math.floor(BOARD_SIZE / 2) };
-    type Candidate = { x: number; y: number; score: number };
-    const candidates: Candidate[] = [];
-    for (let y = 0; y < BOARD_SIZE; y++) {
-      for (let x = 0; x < BOARD_SIZE; x++) {
-        const trial = tryPlay(board, x, y, current);
-        if (trial.legal) {
-          const dx = Math.abs(center.x - x);
-          const dy = Math.abs(center.y - y);
-          const dist = dx + dy;
-          const captured = trial.captured || 0;
-          const nearLast = lastMove && (Math.abs(lastMove.x - x) + Math.abs(lastMove.y - y) === 1) ? 1 : 0;
-          const score = captured * 10 - dist + nearLast;
-          candidates.push({ x, y, score });
-        }
-      }
+    const res = game.play(x, y, humanColor);
+    if (!res.legal) {
+      setMessage(t.illegal[res.reason!]);
+      setRejected({ position: game.position, reason: res.reason!, group: res.group ?? [] });
+      return;
     }
-    if (candidates.length === 0) return null;
-    candidates.sort((a, b) => b.score - a.score);
-    const take = Math.max(1, Math.min(3, candidates.length));
-    const idx = Math.floor(Math.random() * take);
-    return { x: candidates[idx].x, y: candidates[idx].y };
+    setMessage("");
   }
 
-  // AI turn effect
+  // AI turn effect: ask the opponent for a move and apply it unless the position changed
+  // meanwhile; like the clock, it waits while a dialog covers the board
   useEffect(() => {
-    if (current === humanColor) return; // wait for AI turn
-    // AI move immediately (no delay for simplicity and stability)
-    const move = pickAiMove();
-    if (move) {
-      const res = tryPlay(board, move.x, move.y, current);
-      if (res.legal && res.board) {
-        setBoard(res.board);
-        setLastMove({ x: move.x, y: move.y });
-        setPasses(0);
-        if (current === 1 && res.captured) {
-          setCaptures((c) => ({ ...c, black: c.black + (res.captured || 0) }));
-        }
-        if (current === 2 && res.captured) {
-          setCaptures((c) => ({ ...c, white: c.white + (res.captured || 0) }));
-        }
+    if (phase !== "playing" || current === humanColor || paused) return; // wait for AI turn
+    const controller = new AbortController();
+    const apply = (reply: OpponentReply) => {
+      setThinking(false);
+      if (reply.resign) {
+        finish(game.resign(current), t.resigned(i18n.color(current)));
+        return;
       }
-      setCurrent(current === 1 ? 2 : 1);
-    } else {
+      if (reply.move && game.play(reply.move.x, reply.move.y).legal) return;
       // AI passes
-      setPasses((p) => {
-        const next = p + 1;
-        if (next >= 2) {
-          endGame("Cả hai đã pass");
-        } else {
-          setCurrent(current === 1 ? 2 : 1);
-        }
-        return next;
-      });
-      setMessage("Máy pass");
-    }
+      const next = game.pass();
+      if (next.phase === "finished") finish(next, t.bothPassed);
+      else setMessage(t.aiPassed);
+    };
+    setThinking(true);
+    opponent.genmove(state, current, controller.signal).then(apply, (err) => {
+      if (controller.signal.aborted) return;
+      setThinking(false);
+      setMessage(err instanceof OpponentError ? t.opponentErrors[err.code](err.detail) : t.aiFailed);
+    });
+    return () => {
+      controller.abort();
+      setThinking(false);
+    };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [current]);
+  }, [timeline, phase, opponent, paused]);
 
   function handlePass() {
-    if (current !== humanColor) return;
-    setPasses((p) => {
-      const next = p + 1;
-      if (next >= 2) {
-        endGame("Cả hai đã pass");
-      } else {
-        setCurrent(current === 1 ? 2 : 1);
-      }
-      return next;
-    });
+    if (phase !== "playing" || viewIndex !== null || current !== humanColor) return;
+    const next = game.pass();
+    if (next.phase === "finished") finish(next, t.bothPassed);
   }
 
   function handleEndEarly() {
-    endGame("Kết thúc sớm");
+    finish(game.finish(), t.endedEarly);
   }
 
-  function handleRestartSameMode() {
-    setBoard(makeEmptyBoard());
-    setCurrent(1);
-    setCaptures({ black: 0, white: 0 });
-    setLastMove(null);
-    setPasses(0);
+  function handleConfirmScore() {
+    finish(game.finish(), t.bothPassed);
+  }
+
+  function handleResume() {
+    game.resume();
+    setMessage("");
+  }
+
+  // Rewind to the human's previous turn, taking back the machine's reply as well
+  function handleTakeback() {
+    game.undoToTurn(humanColor);
+    setViewIndex(null);
     setMessage("");
   }
 
-  function toggleHumanColor() {
-    if (!canToggleColor) return;
-    setHumanColor((c) => (c === 1 ? 2 : 1));
-    setCurrent(1); // reset turn to black after toggle when no moves have been played
+  function handleNavigate(index: number) {
+    setViewIndex(index >= timeline.length - 1 ? null : Math.max(0, index));
+  }
+
+  function handleRestartSameMode() {
+    clock.reset(clockTurn(game.reset(newGame(options))));
+    setViewIndex(null);
+    setMessage("");
   }
 
   return (
     <div className="mx-auto max-w-5xl p-4">
       <div className="mb-4 flex items-center justify-between">
         <div>
-          <h1 className="text-lg font-semibold">Chế độ: Chơi với máy</h1>
-          <p className="text-sm text-gray-600">Bàn 9x9, luật bắt quân cơ bản (suicide bị cấm trừ khi bắt).</p>
+          <h1 className="text-lg font-semibold">{t.aiTitle(opponent.name.toLowerCase())}</h1>
+          <p className="text-sm text-gray-600">{t.aiRules(board.length, i18n.rules(state.rules))}</p>
         </div>
         <div className="flex items-center gap-2">
-          <button onClick={onRequestMode} className="rounded-md border px-3 py-1 text-sm hover:bg-gray-50">Chọn chế độ</button>
-          <button onClick={handleRestartSameMode} className="rounded-md border px-3 py-1 text-sm hover:bg-gray-50">Chơi lại</button>
+          <button onClick={onRequestMode} className="rounded-md border px-3 py-1 text-sm hover:bg-gray-50">{t.chooseMode}</button>
+          <button onClick={handleRestartSameMode} className="rounded-md border px-3 py-1 text-sm hover:bg-gray-50">{t.restart}</button>
+          <button onClick={handleExport} className="rounded-md border px-3 py-1 text-sm hover:bg-gray-50">{t.exportSgf}</button>
         </div>
       </div>
 
       <div className="mb-3 flex flex-wrap items-center gap-3">
-        <ScoreBar current={current} captures={captures} komi={komi} />
+        <ScoreBar current={current} captures={captures} komi={komi} handicap={state.handicap} players={state.players} />
+        {clock.enabled && (
+          <ClockPanel black={clock.view(1)} white={clock.view(2)} control={clock.control} turn={clock.turn} paused={paused} />
+        )}
         <div className="flex items-center gap-2 rounded-lg border p-2 text-sm">
-          <span className="text-gray-600">Bạn:</span>
-          <button
-            onClick={toggleHumanColor}
-            className={`rounded-full px-3 py-1 ${
-              humanColor === 1 ? "bg-black text-white" : "bg-white text-gray-900 border"
-            } ${canToggleColor ? "" : "opacity-60 cursor-not-allowed"}`}
-            disabled={!canToggleColor}
-            title={canToggleColor ? "Đổi bên trước khi bắt đầu" : "Chỉ đổi khi chưa đi quân"}
-          >
-            {prettyColor(humanColor)}
-          </button>
+          <span className="text-gray-600">{t.you}</span>
+          <span className={`rounded-full px-3 py-1 ${humanColor === 1 ? "bg-black text-white" : "bg-white text-gray-900 border"}`}>
+            {i18n.color(humanColor)}
+          </span>
         </div>
       </div>
 
       <div className="flex flex-col items-center gap-4">
-        <GoBoard board={board} lastMove={lastMove} onPlay={handleHumanPlay} />
-        <div className="flex items-center gap-2">
-          <button onClick={handlePass} className="rounded-md border px-3 py-1 text-sm hover:bg-gray-50">Pass</button>
-          <button onClick={handleEndEarly} className="rounded-md border px-3 py-1 text-sm hover:bg-gray-50">Kết thúc ván</button>
-        </div>
-        {message && <div className="text-sm text-gray-600">{message}</div>}
+        <GoBoard
+          board={shown.board}
+          lastMove={shown.move?.point ?? null}
+          onPlay={handleHumanPlay}
+          disabled={viewIndex !== null && !markup.tool}
+          territory={viewIndex === null ? preview?.owner : null}
+          dead={viewIndex === null ? state.dead : undefined}
+          moveNumbers={showNumbers ? moveNumbersAt(timeline, shownIndex) : null}
+          overlay={buildOverlay(overlays, shown, analysis, book)}
+          preview={markup.tool ? undefined : (x, y) => game.check(x, y, humanColor)}
+          highlight={rejected?.position === game.position ? rejected.group : null}
+          marks={markup.marks}
+        />
+        <MoveNavigator
+          index={shownIndex}
+          total={timeline.length - 1}
+          onNavigate={handleNavigate}
+          showNumbers={showNumbers}
+          onToggleNumbers={() => setShowNumbers((v) => !v)}
+        />
+        <BoardTools
+          board={shown.board}
+          toMove={shown.toMove}
+          lastMove={shown.move?.point ?? null}
+          moveNumbers={showNumbers ? moveNumbersAt(timeline, shownIndex) : null}
+          markup={markup}
+        />
+        <AnalysisPanel
+          options={overlays}
+          onChange={setOverlays}
+          analysis={analysis}
+          running={running}
+          failed={failed}
+          toMove={shown.toMove}
+          size={shown.board.length}
+          hasBook={book.size === shown.board.length}
+        />
+        {phase === "placing" ? (
+          <div className="text-sm text-gray-700">{t.placingHandicap(handicapStonesLeft(state))}</div>
+        ) : preview ? (
+          <ScoringPanel
+            blackScore={preview.blackScore}
+            whiteScore={preview.whiteScore}
+            komi={komi}
+            method={state.rules.scoring}
+            onConfirm={handleConfirmScore}
+            onResume={handleResume}
+          />
+        ) : (
+          <div className="flex items-center gap-2">
+            <button onClick={handlePass} className="rounded-md border px-3 py-1 text-sm hover:bg-gray-50">{t.pass}</button>
+            <button
+              onClick={handleTakeback}
+              disabled={!canUndoToTurn(state, humanColor)}
+              className="rounded-md border px-3 py-1 text-sm hover:bg-gray-50 disabled:opacity-40"
+              title={t.takebackHint}
+            >
+              {t.takeback}
+            </button>
+            <button onClick={handleEndEarly} className="rounded-md border px-3 py-1 text-sm hover:bg-gray-50">{t.endGame}</button>
+          </div>
+        )}
+        {phase === "playing" && (
+          <MoveEntry size={board.length} onPlay={handleHumanPlay} onPass={handlePass} disabled={viewIndex !== null || current !== humanColor} />
+        )}
+        {thinking && <div className="text-sm text-gray-600">{t.thinking}</div>}
+        {message && <div role="status" className="text-sm text-gray-600">{message}</div>}
+        <GameAnnouncer state={state} />
       </div>
     </div>
   );
@@ -503,87 +1858,1197 @@ function AiGame({
 function LocalGame({
   onRequestMode,
   reportFinish,
+  rules,
+  boardSize,
+  setup,
+  paused,
+  resume,
+  onAutosave,
+  book,
 }: {
   onRequestMode: () => void;
   reportFinish: (summary: Summary) => void;
+  rules: RuleSet;
+  boardSize: BoardSize;
+  setup: GameSetup;
+  paused: boolean; // a dialog covers the board
+  resume: ResumedGame | null; // autosaved game to continue instead of a new one
+  onAutosave: (state: GameState, clock: ClockState | null) => void;
+  book: OpeningBook; // for the book move hints
 }) {
-  const [board, setBoard] = useState<Stone[][]>(() => makeEmptyBoard());
-  const [current, setCurrent] = useState<Stone>(1);
-  const [captures, setCaptures] = useState<Captures>({ black: 0, white: 0 });
-  const [lastMove, setLastMove] = useState<Position | null>(null);
-  const [passes, setPasses] = useState(0);
-  const komi = DEFAULT_KOMI;
-
-  function endGame(reason: string) {
-    const { blackScore, whiteScore } = computeScore(board, captures, komi);
-    const winner: "black" | "white" | "draw" =
-      Math.abs(blackScore - whiteScore) < 1e-6
-        ? "draw"
-        : blackScore > whiteScore
-        ? "black"
-        : "white";
-    reportFinish({ mode: "local", blackScore, whiteScore, captures, komi, winner });
-  }
-
+  const i18n = useI18n();
+  const { t } = i18n;
+  const players = {
+    black: setup.blackName.trim(),
+    white: setup.whiteName.trim(),
+  };
+  const options = gameOptions(setup, players, { size: boardSize, rules });
+  const game = useGoGame(() => resume?.state ?? newGame(options));
+  const [viewIndex, setViewIndex] = useState<number | null>(null); // past position being reviewed
+  const [showNumbers, setShowNumbers] = useState(false);
+  const [importedResult, setImportedResult] = useState<string | null>(null); // RE of an imported SGF
+  const [message, setMessage] = useState<string>("");
+  const [rejected, setRejected] = useState<Rejection | null>(null);
+
+  const { state } = game;
+  const { timeline, komi, phase } = state;
+  const { board, captures, toMove: current } = game.position;
+  const shownIndex = viewIndex ?? timeline.length - 1;
+  const shown = timeline[shownIndex];
+  const markup = useMarkup(shown);
+  const [overlays, setOverlays] = useState<OverlayOptions>(DEFAULT_OVERLAYS);
+  const { analysis, running, failed } = useAnalysis(timeline.slice(0, shownIndex + 1), komi, state.rules.koRule, needsSearch(overlays));
+  const preview = phase === "scoring" ? computeScore(board, captures, komi, state.rules.scoring, state.dead) : null;
+  const clock = useGameClock(
+    setup.timeControl,
+    clockTurn(state),
+    !paused,
+    (color) => {
+      finish(game.timeout(color));
+      setMessage(t.timedOut(i18n.color(color)));
+    },
+    resume?.clock
+  );
+
+  useEffect(() => {
+    if (phase !== "finished") onAutosave(state, clock.enabled ? clock.snapshot() : null);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [state]);
+
+  function record(next: GameState): string {
+    return gameToSgf(next, {
+      ...sgfTiming(setup.timeControl),
+      result: next.result ? formatSgfResult(next.result) : importedResult ?? undefined,
+    });
+  }
+
+  function finish(next: GameState) {
+    const { players } = next;
+    reportFinish(
+      summarize("local", next, record(next), {
+        black: trackedPlayer(players.black, 1),
+        white: trackedPlayer(players.white, 2),
+      })
+    );
+  }
+
+  function handleExport() {
+    downloadText(sgfFileName(), record(state));
+  }
+
+  async function handleImport(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = ""; // allow re-importing the same file
+    if (!file) return;
+    try {
+      const sgf = parseSgf(await file.text());
+      const sgfRules = sgfRuleSet(sgf.rules) ?? rules;
+      const next = game.reset(
+        newGame({
+          ...options,
+          rules: sgfRules,
+          size: sgf.size,
+          komi: sgf.komi,
+          handicap: sgf.handicap,
+          players: { black: sgf.playerBlack ?? "", white: sgf.playerWhite ?? "" },
+          timeline: replaySgf(sgf, sgfRules),
+        })
+      );
+      clock.reset(clockTurn(next));
+      setViewIndex(null);
+      setImportedResult(sgf.result ?? null);
+      setMessage(t.importedGame(file.name, sgf.moves.length));
+    } catch (err) {
+      setMessage(err instanceof SgfError ? i18n.sgfError(err) : t.sgfUnreadable);
+    }
+  }
+
   function handlePlay(x: number, y: number) {
-    const res = tryPlay(board, x, y, current);
-    if (!res.legal || !res.board) return;
-    setBoard(res.board);
-    setLastMove({ x, y });
-    setPasses(0);
-    if (current === 1 && res.captured) setCaptures((c) => ({ ...c, black: c.black + (res.captured || 0) }));
-    if (current === 2 && res.captured) setCaptures((c) => ({ ...c, white: c.white + (res.captured || 0) }));
-    setCurrent(current === 1 ? 2 : 1);
+    if (markup.mark(x, y) || viewIndex !== null) return;
+    if (phase === "placing") {
+      game.placeHandicap(x, y);
+      return;
+    }
+    if (phase === "scoring") {
+      game.toggleDead(x, y);
+      return;
+    }
+    const res = game.play(x, y);
+    if (!res.legal) {
+      setMessage(t.illegal[res.reason!]);
+      setRejected({ position: game.position, reason: res.reason!, group: res.group ?? [] });
+      return;
+    }
+    setMessage("");
   }
 
   function handlePass() {
-    setPasses((p) => {
-      const next = p + 1;
-      if (next >= 2) {
-        endGame("Cả hai đã pass");
-      } else {
-        setCurrent(current === 1 ? 2 : 1);
-      }
-      return next;
-    });
+    if (viewIndex !== null) return;
+    const next = game.pass();
+    if (next.phase === "finished") finish(next);
+    setMessage("");
+  }
+
+  function handleUndo() {
+    game.undo();
+    setViewIndex(null);
+    setMessage("");
+  }
+
+  function handleRedo() {
+    game.redo();
+    setViewIndex(null);
+    setMessage("");
+  }
+
+  function handleNavigate(index: number) {
+    setViewIndex(index >= timeline.length - 1 ? null : Math.max(0, index));
   }
 
   function handleEndEarly() {
-    endGame("Kết thúc sớm");
+    finish(game.finish());
+  }
+
+  function handleConfirmScore() {
+    finish(game.finish());
   }
 
   function handleRestart() {
-    setBoard(makeEmptyBoard());
-    setCurrent(1);
-    setCaptures({ black: 0, white: 0 });
-    setLastMove(null);
-    setPasses(0);
+    clock.reset(clockTurn(game.reset(newGame(options))));
+    setViewIndex(null);
+    setImportedResult(null);
+    setMessage("");
   }
 
   return (
     <div className="mx-auto max-w-5xl p-4">
       <div className="mb-4 flex items-center justify-between">
         <div>
-          <h1 className="text-lg font-semibold">Chế độ: Chơi 2 người</h1>
-          <p className="text-sm text-gray-600">Luân phiên đi quân, bàn 9x9, luật bắt quân cơ bản.</p>
+          <h1 className="text-lg font-semibold">{t.localTitle}</h1>
+          <p className="text-sm text-gray-600">{t.localRules(board.length, i18n.rules(state.rules))}</p>
         </div>
         <div className="flex items-center gap-2">
-          <button onClick={onRequestMode} className="rounded-md border px-3 py-1 text-sm hover:bg-gray-50">Chọn chế độ</button>
-          <button onClick={handleRestart} className="rounded-md border px-3 py-1 text-sm hover:bg-gray-50">Chơi lại</button>
+          <button onClick={onRequestMode} className="rounded-md border px-3 py-1 text-sm hover:bg-gray-50">{t.chooseMode}</button>
+          <button onClick={handleRestart} className="rounded-md border px-3 py-1 text-sm hover:bg-gray-50">{t.restart}</button>
+          <button onClick={handleExport} className="rounded-md border px-3 py-1 text-sm hover:bg-gray-50">{t.exportSgf}</button>
+          <label className="cursor-pointer rounded-md border px-3 py-1 text-sm hover:bg-gray-50">
+            {t.importSgf}
+            <input type="file" accept=".sgf,application/x-go-sgf" onChange={handleImport} className="hidden" />
+          </label>
         </div>
       </div>
 
-      <div className="mb-3">
-        <ScoreBar current={current} captures={captures} komi={komi} />
+      <div className="mb-3 flex flex-wrap items-center gap-3">
+        <ScoreBar current={current} captures={captures} komi={komi} handicap={state.handicap} players={state.players} />
+        {clock.enabled && (
+          <ClockPanel black={clock.view(1)} white={clock.view(2)} control={clock.control} turn={clock.turn} paused={paused} />
+        )}
       </div>
 
       <div className="flex flex-col items-center gap-4">
-        <GoBoard board={board} lastMove={lastMove} onPlay={handlePlay} />
+        <GoBoard
+          board={shown.board}
+          lastMove={shown.move?.point ?? null}
+          onPlay={handlePlay}
+          disabled={viewIndex !== null && !markup.tool}
+          territory={viewIndex === null ? preview?.owner : null}
+          dead={viewIndex === null ? state.dead : undefined}
+          moveNumbers={showNumbers ? moveNumbersAt(timeline, shownIndex) : null}
+          overlay={buildOverlay(overlays, shown, analysis, book)}
+          preview={markup.tool ? undefined : game.check}
+          highlight={rejected?.position === game.position ? rejected.group : null}
+          marks={markup.marks}
+        />
+        <MoveNavigator
+          index={shownIndex}
+          total={timeline.length - 1}
+          onNavigate={handleNavigate}
+          showNumbers={showNumbers}
+          onToggleNumbers={() => setShowNumbers((v) => !v)}
+        />
+        <BoardTools
+          board={shown.board}
+          toMove={shown.toMove}
+          lastMove={shown.move?.point ?? null}
+          moveNumbers={showNumbers ? moveNumbersAt(timeline, shownIndex) : null}
+          markup={markup}
+        />
+        <AnalysisPanel
+          options={overlays}
+          onChange={setOverlays}
+          analysis={analysis}
+          running={running}
+          failed={failed}
+          toMove={shown.toMove}
+          size={shown.board.length}
+          hasBook={book.size === shown.board.length}
+        />
+        {phase === "placing" ? (
+          <div className="text-sm text-gray-700">{t.placingHandicap(handicapStonesLeft(state))}</div>
+        ) : preview ? (
+          <ScoringPanel
+            blackScore={preview.blackScore}
+            whiteScore={preview.whiteScore}
+            komi={komi}
+            method={state.rules.scoring}
+            onConfirm={handleConfirmScore}
+            onResume={game.resume}
+          />
+        ) : (
+          <div className="flex items-center gap-2">
+            <button onClick={handlePass} className="rounded-md border px-3 py-1 text-sm hover:bg-gray-50">{t.pass}</button>
+            <button
+              onClick={handleUndo}
+              disabled={timeline.length <= 1}
+              className="rounded-md border px-3 py-1 text-sm hover:bg-gray-50 disabled:opacity-40"
+            >
+              {t.undo}
+            </button>
+            <button
+              onClick={handleRedo}
+              disabled={!state.redo.length}
+              className="rounded-md border px-3 py-1 text-sm hover:bg-gray-50 disabled:opacity-40"
+            >
+              {t.redo}
+            </button>
+            <button onClick={handleEndEarly} className="rounded-md border px-3 py-1 text-sm hover:bg-gray-50">{t.endGame}</button>
+          </div>
+        )}
+        {phase === "playing" && (
+          <MoveEntry size={board.length} onPlay={handlePlay} onPass={handlePass} disabled={viewIndex !== null} />
+        )}
+        {message && <div role="status" className="text-sm text-gray-600">{message}</div>}
+        <GameAnnouncer state={state} />
+      </div>
+    </div>
+  );
+}
+
+function OnlineGame({
+  url,
+  request,
+  onRequestMode,
+  reportFinish,
+}: {
+  url: string;
+  request: RoomRequest;
+  onRequestMode: () => void;
+  reportFinish: (summary: Summary) => void;
+}) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const online = useOnlineGame(url, request);
+  const { state, room, color, status } = online;
+  const [showNumbers, setShowNumbers] = useState(false);
+  const [rejected, setRejected] = useState<Rejection | null>(null);
+  const reported = useRef(false);
+  const markup = useMarkup(state ? state.timeline[state.timeline.length - 1] : null);
+
+  // Leaving the view keeps the seat for later; this gives it up
+  function handleLeave() {
+    online.leave();
+    onRequestMode();
+  }
+
+  useEffect(() => {
+    if (state?.phase !== "finished" || reported.current) return;
+    reported.current = true;
+    // Only our own seat is tracked; the opponent's profile lives on their device
+    const me = trackedPlayer(color === 1 ? state.players.black : state.players.white, color);
+    reportFinish(
+      summarize("online", state, gameToSgf(state), color === 1 ? { black: me, white: null } : { black: null, white: me })
+    );
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [state]);
+
+  const opponent: Stone = color === 1 ? 2 : 1;
+  const opponentKey = opponent === 1 ? "black" : "white";
+  const statusText =
+    status === "connecting"
+      ? t.connecting
+      : status === "reconnecting"
+      ? t.reconnecting
+      : status === "closed"
+      ? t.disconnected
+      : room && !room.seated[opponentKey]
+      ? t.waitingForOpponent(room.code)
+      : room && !room.connected[opponentKey]
+      ? t.opponentAway
+      : "";
+
+  if (!state || !room) {
+    return (
+      <div className="mx-auto max-w-3xl rounded-xl border bg-white p-6">
+        <h1 className="mb-2 text-lg font-semibold">{t.onlineTitle}</h1>
+        <p className="text-sm text-gray-700">{online.error ? t.roomErrors[online.error] : statusText}</p>
+        <div className="mt-4 flex gap-2">
+          <button onClick={onRequestMode} className="rounded-md border px-3 py-1 text-sm hover:bg-gray-50">{t.chooseMode}</button>
+          {status !== "closed" && (
+            <button onClick={handleLeave} className="rounded-md border px-3 py-1 text-sm hover:bg-gray-50">{t.leaveRoom}</button>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  const { timeline, komi, phase } = state;
+  const { board, captures, toMove: current } = currentPosition(state);
+  const last = timeline[timeline.length - 1];
+  const myTurn = phase === "playing" && current === color && status === "open";
+  const preview = phase === "scoring" ? computeScore(board, captures, komi, state.rules.scoring, state.dead) : null;
+  const myKey = color === 1 ? "black" : "white";
+  const btn = "rounded-md border px-3 py-1 text-sm hover:bg-gray-50 disabled:opacity-40";
+
+  const game = state;
+  const notice =
+    rejected?.position === last ? t.illegal[rejected.reason] : online.error ? t.roomErrors[online.error] : "";
+
+  // Moves are checked here first, so a refusal is explained without a round trip
+  function handlePlay(x: number, y: number) {
+    if (markup.mark(x, y)) return;
+    if (phase === "scoring") {
+      online.send({ type: "toggleDead", x, y });
+      return;
+    }
+    const res = checkMove(game, x, y, color);
+    if (!res.legal) {
+      setRejected({ position: last, reason: res.reason!, group: res.group ?? [] });
+      return;
+    }
+    setRejected(null);
+    online.send({ type: "move", x, y });
+  }
+
+  return (
+    <div className="mx-auto max-w-5xl p-4">
+      <div className="mb-4 flex items-center justify-between">
+        <div>
+          <h1 className="text-lg font-semibold">{t.onlineTitle}</h1>
+          <p className="text-sm text-gray-600">
+            {t.room} <span className="font-mono tracking-widest">{room.code}</span> ·{" "}
+            {t.seatInfo(i18n.color(color), board.length, i18n.rules(state.rules))}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={onRequestMode} className="rounded-md border px-3 py-1 text-sm hover:bg-gray-50">{t.chooseMode}</button>
+          {status !== "closed" && phase !== "finished" && (
+            <button onClick={handleLeave} className="rounded-md border px-3 py-1 text-sm hover:bg-gray-50">{t.leaveRoom}</button>
+          )}
+        </div>
+      </div>
+
+      <div className="mb-3 flex flex-wrap items-center gap-3">
+        <ScoreBar current={current} captures={captures} komi={komi} handicap={state.handicap} players={state.players} />
+        {statusText && <div className="rounded-lg border border-amber-300 bg-amber-50 p-3 text-sm">{statusText}</div>}
+      </div>
+
+      <div className="flex flex-col items-center gap-4">
+        <GoBoard
+          board={board}
+          lastMove={last.move?.point ?? null}
+          onPlay={handlePlay}
+          disabled={(status !== "open" || phase === "finished") && !markup.tool}
+          territory={preview?.owner}
+          dead={state.dead}
+          moveNumbers={showNumbers ? moveNumbersAt(timeline, timeline.length - 1) : null}
+          preview={markup.tool ? undefined : (x, y) => checkMove(game, x, y, color)}
+          highlight={rejected?.position === last ? rejected.group : null}
+          marks={markup.marks}
+        />
+        <label className="flex items-center gap-1 text-sm text-gray-700">
+          <input type="checkbox" checked={showNumbers} onChange={() => setShowNumbers((v) => !v)} />
+          {t.showNumbers}
+        </label>
+        <BoardTools
+          board={board}
+          toMove={current}
+          lastMove={last.move?.point ?? null}
+          moveNumbers={showNumbers ? moveNumbersAt(timeline, timeline.length - 1) : null}
+          markup={markup}
+        />
+        {preview ? (
+          <div className="flex flex-col items-center gap-2 rounded-lg border p-3 text-sm">
+            <div className="text-gray-700">{t.onlineScoringHelp}</div>
+            <div className="flex flex-wrap items-center gap-3">
+              <span>
+                {t.black}: {preview.blackScore.toFixed(1)}
+              </span>
+              <span>
+                {t.white}: {preview.whiteScore.toFixed(1)} (komi {komi})
+              </span>
+              {room.scoreAccepted[opponentKey] && <span className="text-green-700">{t.opponentAccepted}</span>}
+            </div>
+            <div className="flex items-center gap-2">
+              <button onClick={() => online.send({ type: "acceptScore" })} disabled={room.scoreAccepted[myKey]} className={btn}>
+                {room.scoreAccepted[myKey] ? t.acceptedWaiting : t.acceptScore}
+              </button>
+              <button onClick={() => online.send({ type: "resume" })} className={btn}>{t.resumePlay}</button>
+            </div>
+          </div>
+        ) : (
+          phase === "playing" && (
+            <div className="flex flex-wrap items-center gap-2">
+              <button onClick={() => online.send({ type: "pass" })} disabled={!myTurn} className={btn}>{t.pass}</button>
+              <button onClick={() => online.send({ type: "resign" })} className={btn}>{t.resign}</button>
+              {room.drawOffer === opponent ? (
+                <>
+                  <span className="text-sm text-gray-700">{t.drawOffered}</span>
+                  <button onClick={() => online.send({ type: "answerDraw", accept: true })} className={btn}>{t.accept}</button>
+                  <button onClick={() => online.send({ type: "answerDraw", accept: false })} className={btn}>{t.decline}</button>
+                </>
+              ) : (
+                <button onClick={() => online.send({ type: "offerDraw" })} disabled={room.drawOffer === color} className={btn}>
+                  {room.drawOffer === color ? t.drawSent : t.offerDraw}
+                </button>
+              )}
+            </div>
+          )
+        )}
+        {phase === "playing" && (
+          <MoveEntry size={board.length} onPlay={handlePlay} onPass={() => online.send({ type: "pass" })} disabled={!myTurn} />
+        )}
+        {notice && <div role="status" className="text-sm text-gray-600">{notice}</div>}
+        <GameAnnouncer state={state} />
+      </div>
+    </div>
+  );
+}
+
+// ---- Tsumego ----
+
+function TsumegoView({ onBack }: { onBack: () => void }) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [imported, setImported] = useState<StoredProblemSet[]>(loadTsumegoSets);
+  // A stored set that no longer parses is skipped rather than breaking the page
+  const sets = useMemo<ProblemSet[]>(
+    () =>
+      [...BUILTIN_PROBLEM_SETS, ...imported].flatMap((set) => {
+        try {
+          return [parseProblemSet(set.sgf, set.name, set.id)];
+        } catch {
+          return [];
+        }
+      }),
+    [imported]
+  );
+  const [setId, setSetId] = useState<string>(sets[0].id);
+  const set = sets.find((s) => s.id === setId) ?? sets[0];
+  const [index, setIndex] = useState<number>(0);
+  const problem = set.problems[Math.min(index, set.problems.length - 1)];
+  const [attempt, setAttempt] = useState(() => startProblem(problem));
+  const [progress, setProgress] = useState(loadTsumegoProgress);
+  const [message, setMessage] = useState<string>("");
+  const [rejected, setRejected] = useState<Rejection | null>(null);
+
+  const setProgressOf = progress[set.id] ?? {};
+  const solvedCount = set.problems.filter((p) => setProgressOf[p.id]?.solved).length;
+  const shown = attempt.timeline[attempt.timeline.length - 1];
+  const comment = attemptComment(attempt);
+
+  function open(next: ProblemSet, i: number) {
+    setSetId(next.id);
+    setIndex(i);
+    setAttempt(startProblem(next.problems[i]));
+    setMessage("");
+  }
+
+  function handlePlay(x: number, y: number) {
+    const res = playProblemMove(attempt, x, y);
+    if (!res.legal) {
+      setMessage(t.illegal[res.reason!]);
+      setRejected({ position: shown, reason: res.reason!, group: res.group ?? [] });
+      return;
+    }
+    setMessage("");
+    setAttempt(res.attempt);
+    if (res.attempt.status !== "playing") {
+      setProgress(recordTsumegoAttempt(set.id, problem.id, res.attempt.status === "solved"));
+    }
+  }
+
+  async function handleImport(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      const text = await file.text();
+      const parsed = parseProblemSet(text, file.name.replace(/\.sgf$/i, ""));
+      setImported(saveTsumegoSet({ id: parsed.id, name: parsed.name, sgf: text }));
+      open(parsed, 0);
+      setMessage(t.importedProblems(parsed.problems.length, file.name));
+    } catch (err) {
+      setMessage(err instanceof SgfError ? i18n.sgfError(err) : t.sgfUnreadable);
+    }
+  }
+
+  function handleRemoveSet() {
+    setImported(removeTsumegoSet(set.id));
+    setProgress(resetTsumegoProgress(set.id));
+    open(sets[0], 0);
+  }
+
+  const btn = "rounded-md border px-3 py-1 text-sm hover:bg-gray-50 disabled:opacity-40";
+  const isImported = imported.some((s) => s.id === set.id);
+  return (
+    <div className="mx-auto max-w-5xl p-4">
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h1 className="text-lg font-semibold">{t.tsumegoTitle}</h1>
+          <p className="text-sm text-gray-600">{t.tsumegoIntro}</p>
+        </div>
         <div className="flex items-center gap-2">
-          <button onClick={handlePass} className="rounded-md border px-3 py-1 text-sm hover:bg-gray-50">Pass</button>
-          <button onClick={handleEndEarly} className="rounded-md border px-3 py-1 text-sm hover:bg-gray-50">Kết thúc ván</button>
+          <label className="cursor-pointer rounded-md border px-3 py-1 text-sm hover:bg-gray-50">
+            {t.importProblemSet}
+            <input type="file" accept=".sgf,application/x-go-sgf" onChange={handleImport} className="hidden" />
+          </label>
+          <button onClick={onBack} className={btn}>{t.back}</button>
         </div>
       </div>
+
+      <div className="flex flex-col gap-4 lg:flex-row">
+        <div className="flex flex-col gap-3 lg:w-64">
+          <select
+            value={set.id}
+            onChange={(e) => open(sets.find((s) => s.id === e.target.value)!, 0)}
+            className="rounded-md border px-2 py-1 text-sm"
+            aria-label={t.problemSet}
+          >
+            {sets.map((s) => (
+              <option key={s.id} value={s.id}>
+                {s.name}
+              </option>
+            ))}
+          </select>
+          <div className="text-sm text-gray-700">{t.solvedCount(solvedCount, set.problems.length)}</div>
+          <ul className="flex flex-col gap-1">
+            {set.problems.map((p, i) => {
+              const done = setProgressOf[p.id];
+              return (
+                <li key={p.id}>
+                  <button
+                    onClick={() => open(set, i)}
+                    className={`flex w-full items-center justify-between rounded-md border px-3 py-1 text-left text-sm ${
+                      p === problem ? "bg-black text-white" : "hover:bg-gray-50"
+                    }`}
+                  >
+                    <span>{p.name || t.problemName(Number(p.id))}</span>
+                    <span aria-label={done?.solved ? t.problemSolved : done ? t.problemFailed : t.problemUntried}>
+                      {done?.solved ? "✓" : done ? "✗" : ""}
+                    </span>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+          <div className="flex flex-wrap gap-2">
+            <button onClick={() => setProgress(resetTsumegoProgress(set.id))} disabled={!progress[set.id]} className={btn}>
+              {t.resetProgress}
+            </button>
+            {isImported && (
+              <button onClick={handleRemoveSet} className={`${btn} text-red-600`}>{t.removeProblemSet}</button>
+            )}
+          </div>
+        </div>
+
+        <div className="flex flex-1 flex-col items-center gap-3">
+          <div className="text-sm text-gray-700">
+            {problem.name || t.problemName(Number(problem.id))} · {t.colorToPlay(i18n.color(problem.toPlay))}
+          </div>
+          <GoBoard
+            board={shown.board}
+            lastMove={shown.move?.point ?? null}
+            onPlay={handlePlay}
+            disabled={attempt.status !== "playing"}
+            highlight={rejected?.position === shown ? rejected.group : null}
+          />
+          {attempt.status === "solved" && <div className="font-medium text-green-700">{t.correct}</div>}
+          {attempt.status === "failed" && (
+            <div className="font-medium text-red-600">{attempt.offTree ? t.offTree : t.wrong}</div>
+          )}
+          {comment && <p className="max-w-md text-center text-sm text-gray-700">{comment}</p>}
+          <div className="flex items-center gap-2">
+            <button onClick={() => open(set, set.problems.indexOf(problem))} className={btn}>{t.retry}</button>
+            <button
+              onClick={() => open(set, set.problems.indexOf(problem) + 1)}
+              disabled={problem === set.problems[set.problems.length - 1]}
+              className={btn}
+            >
+              {t.nextProblem}
+            </button>
+          </div>
+          {message && <div className="text-sm text-gray-600">{message}</div>}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ---- Library ----
+
+function LibraryView({
+  entries,
+  onReplay,
+  onRemove,
+  onBack,
+}: {
+  entries: LibraryEntry[];
+  onReplay: (entry: LibraryEntry) => void;
+  onRemove: (id: string) => void;
+  onBack: () => void;
+}) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const btn = "rounded-md border px-3 py-1 text-sm hover:bg-gray-50";
+  return (
+    <div className="mx-auto max-w-4xl rounded-xl border bg-white p-6">
+      <div className="mb-4 flex items-center justify-between">
+        <h1 className="text-xl font-semibold">{t.libraryTitle}</h1>
+        <button onClick={onBack} className={btn}>{t.back}</button>
+      </div>
+      {entries.length === 0 ? (
+        <p className="text-gray-600">{t.libraryEmpty}</p>
+      ) : (
+        <ul className="divide-y">
+          {entries.map((entry) => (
+            <li key={entry.id} className="flex flex-wrap items-center justify-between gap-3 py-3">
+              <div className="text-sm">
+                <div className="font-medium">
+                  {t.playersLine(playerName(i18n, 1, entry.players.black), playerName(i18n, 2, entry.players.white))}
+                </div>
+                <div className="text-gray-600">
+                  {new Date(entry.finishedAt).toLocaleString(t.dateLocale)} · {t.modes[entry.mode]} ·{" "}
+                  {entry.size}x{entry.size} · {t.moveCount(entry.moves)} · {describeResult(i18n, entry.result)}
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <button onClick={() => onReplay(entry)} className={btn}>{t.replay}</button>
+                <button onClick={() => downloadText(sgfFileName(), entry.sgf)} className={btn}>{t.exportSgf}</button>
+                <button onClick={() => onRemove(entry.id)} className={`${btn} text-red-600`}>{t.remove}</button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+// Engine review of the main line: Black's win rate over the game and the moves
+// that cost each side the most, each a jump to the position before it
+function ReviewPanel({
+  timeline,
+  komi,
+  koRule,
+  current,
+  onJump,
+  autoStart,
+}: {
+  timeline: Snapshot[];
+  komi: number;
+  koRule: KoRule;
+  current: number | null; // position on screen, null when it is off the reviewed line
+  onJump: (index: number) => void;
+  autoStart?: boolean;
+}) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const { review, progress, start, cancel } = useGameReview(timeline, komi, koRule);
+  const size = timeline[0].board.length;
+  const last = Math.max(1, timeline.length - 1);
+  const btn = "rounded-md border px-3 py-1 text-sm hover:bg-gray-50";
+  const pointText = (p: Position | null) => (p ? i18n.point(p, size) : t.pass);
+
+  useEffect(() => {
+    if (autoStart) start();
+    // Only when the panel opens
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  function handleGraphClick(e: React.MouseEvent<SVGSVGElement>) {
+    const rect = e.currentTarget.getBoundingClientRect();
+    onJump(Math.round(((e.clientX - rect.left) / rect.width) * last));
+  }
+
+  return (
+    <div className="flex flex-col gap-2 rounded-lg border p-3 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-medium text-gray-700">{t.gameReview}</span>
+        {progress ? (
+          <>
+            <span className="text-gray-500">{t.reviewProgress(progress.done, progress.total)}</span>
+            <button onClick={cancel} className={btn}>{t.stopReview}</button>
+          </>
+        ) : (
+          <button onClick={start} className={btn}>{review ? t.reviewAgain : t.startReview}</button>
+        )}
+      </div>
+      {!review && !progress && <p className="text-gray-500">{t.reviewHelp}</p>}
+      {review && (
+        <>
+          <svg
+            viewBox={`0 0 ${last} 100`}
+            preserveAspectRatio="none"
+            className="h-20 w-full cursor-pointer rounded bg-gray-50"
+            role="img"
+            aria-label={t.winRateGraph}
+            onClick={handleGraphClick}
+          >
+            <line x1={0} y1={50} x2={last} y2={50} stroke="#d1d5db" strokeDasharray="4 4" vectorEffect="non-scaling-stroke" />
+            <polyline
+              points={review.positions.map((p, i) => `${i},${100 - p.blackWinRate * 100}`).join(" ")}
+              fill="none"
+              stroke="#111827"
+              strokeWidth={1.5}
+              vectorEffect="non-scaling-stroke"
+            />
+            {review.moves
+              .filter((m) => m.verdict === "blunder" || m.verdict === "mistake")
+              .map((m) => (
+                <line
+                  key={m.index}
+                  x1={m.index}
+                  y1={0}
+                  x2={m.index}
+                  y2={100}
+                  stroke={m.verdict === "blunder" ? "#dc2626" : "#f97316"}
+                  strokeOpacity={0.5}
+                  vectorEffect="non-scaling-stroke"
+                />
+              ))}
+            {current !== null && (
+              <line x1={current} y1={0} x2={current} y2={100} stroke="#2563eb" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+            )}
+          </svg>
+          <div className="grid gap-3 sm:grid-cols-2">
+            {([1, 2] as Stone[]).map((color) => {
+              const worst = worstMoves(review, color);
+              return (
+                <div key={color}>
+                  <div className="mb-1 font-medium text-gray-700">{t.worstMovesOf(i18n.color(color))}</div>
+                  {worst.length === 0 ? (
+                    <p className="text-gray-500">{t.noMistakes}</p>
+                  ) : (
+                    <ul className="flex flex-col gap-1">
+                      {worst.map((m) => (
+                        <li key={m.index}>
+                          <button
+                            onClick={() => onJump(m.index - 1)}
+                            title={t.jumpBeforeMove}
+                            className="w-full rounded-md border px-2 py-1 text-left hover:bg-gray-50"
+                          >
+                            <span className={m.verdict === "blunder" ? "text-red-600" : m.verdict === "mistake" ? "text-orange-600" : "text-gray-600"}>
+                              {t.verdicts[m.verdict]}
+                            </span>{" "}
+                            {t.reviewedMove(m.index, pointText(m.move))} · {t.reviewLoss(Math.round(m.winRateLoss * 100), m.scoreLoss.toFixed(1))}
+                            {" · "}
+                            {t.engineSuggests(pointText(m.best))}
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+// The moves of a reviewed game, each variation indented below the move it branches from
+function VariationTree({
+  tree,
+  current,
+  onSelect,
+}: {
+  tree: GameTree;
+  current: number[];
+  onSelect: (ids: number[]) => void;
+}) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const size = tree.info.size;
+  const at = current.length ? current[current.length - 1] : tree.root.id;
+
+  function moveButton(node: GameTreeNode, ids: number[]) {
+    const move = node.position.move;
+    return (
+      <button
+        key={node.id}
+        onClick={() => onSelect(ids)}
+        aria-current={node.id === at || undefined}
+        title={node.comment || undefined}
+        className={`flex items-center gap-1 rounded px-1 ${node.id === at ? "bg-blue-100 font-medium" : "hover:bg-gray-100"}`}
+      >
+        {move ? (
+          <>
+            <span className={`inline-block h-2 w-2 rounded-full ${move.color === 1 ? "bg-black" : "border border-gray-500 bg-white"}`} />
+            {ids.length}. {move.point ? i18n.point(move.point, size) : t.pass}
+          </>
+        ) : (
+          t.gameStart
+        )}
+        {node.comment && <span aria-hidden="true">✎</span>}
+      </button>
+    );
+  }
+
+  function renderLine(first: GameTreeNode, ids: number[]): React.ReactNode[] {
+    const items: React.ReactNode[] = [];
+    for (let node: GameTreeNode | undefined = first, path = ids; node; ) {
+      items.push(moveButton(node, path));
+      const next: GameTreeNode | undefined = node.children[0];
+      const others = node.children.slice(1);
+      if (others.length) {
+        const from = path;
+        items.push(
+          <div key={`branches-${node.id}`} className="my-1 flex w-full flex-col gap-1 border-l-2 border-blue-200 pl-2">
+            {others.map((branch) => (
+              <div key={branch.id} className="flex flex-wrap gap-1">
+                {renderLine(branch, [...from, branch.id])}
+              </div>
+            ))}
+          </div>
+        );
+      }
+      node = next;
+      if (next) path = [...path, next.id];
+    }
+    return items;
+  }
+
+  return (
+    <div className="max-h-72 overflow-auto rounded-lg border bg-white p-2 text-xs" aria-label={t.variations}>
+      <div className="flex flex-wrap gap-1">{renderLine(tree.root, [])}</div>
+    </div>
+  );
+}
+
+// Replays a library game as a tree: a move from a past position opens a variation,
+// and comments and variations can be saved back to the library.
+function ReplayView({
+  entry,
+  onBack,
+  autoReview,
+  book,
+}: {
+  entry: LibraryEntry;
+  onBack: () => void;
+  autoReview?: boolean; // start the engine review right away
+  book: OpeningBook; // for the book move hints
+}) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  // Library records carry their rules in RU; older ones fall back to the default
+  const [review, setReview] = useState(() => {
+    const tree = treeFromSgf(entry.sgf, RULE_SETS[DEFAULT_RULE_SET]);
+    return { tree, ids: idsOf(lineThrough(tree, [])) };
+  });
+  const [savedTree, setSavedTree] = useState(review.tree);
+  const [showNumbers, setShowNumbers] = useState(false);
+  const [overlays, setOverlays] = useState<OverlayOptions>(DEFAULT_OVERLAYS);
+  const [rejected, setRejected] = useState<Rejection | null>(null);
+  const { tree, ids } = review;
+  const path = nodePath(tree, ids);
+  const line = lineThrough(tree, ids);
+  const mainLine = lineThrough(tree, []);
+  const timeline = timelineOf(path);
+  const index = path.length - 1;
+  const total = line.length - 1;
+  const node = path[index];
+  const shown = node.position;
+  const markup = useMarkup(shown);
+  const { analysis, running, failed } = useAnalysis(timeline, tree.info.komi, tree.rules.koRule, needsSearch(overlays));
+  const btn = "rounded-md border px-3 py-1 text-sm hover:bg-gray-50 disabled:opacity-40";
+
+  function play(point: Position | null) {
+    const res = playInTree(tree, ids, point);
+    if ("reason" in res) setRejected({ position: shown, reason: res.reason, group: res.group });
+    else setReview(res);
+  }
+
+  function handlePlay(x: number, y: number) {
+    if (!markup.mark(x, y)) play({ x, y });
+  }
+
+  function handleSave() {
+    updateLibraryEntry(entry.id, { sgf: treeToSgf(tree), moves: mainLineLength(tree) });
+    setSavedTree(tree);
+  }
+
+  return (
+    <div className="flex flex-col gap-4 lg:flex-row">
+      <div className="flex flex-col items-center gap-2">
+        <GoBoard
+          board={shown.board}
+          lastMove={shown.move?.point ?? null}
+          onPlay={handlePlay}
+          moveNumbers={showNumbers ? moveNumbersAt(timeline, index) : null}
+          overlay={buildOverlay(overlays, shown, analysis, book)}
+          highlight={rejected?.position === shown ? rejected.group : null}
+          marks={markup.marks}
+        />
+        {rejected?.position === shown && <div className="text-sm text-red-600">{t.illegal[rejected.reason]}</div>}
+      </div>
+      <div className="flex flex-1 flex-col gap-3">
+        <div className="rounded-lg border bg-white p-4 text-sm">
+          <div className="font-medium">
+            {t.playersLine(playerName(i18n, 1, entry.players.black), playerName(i18n, 2, entry.players.white))}
+          </div>
+          <div className="text-gray-600">
+            {new Date(entry.finishedAt).toLocaleString(t.dateLocale)} · {describeResult(i18n, entry.result)}
+          </div>
+        </div>
+        <MoveNavigator
+          index={index}
+          total={total}
+          onNavigate={(i) => setReview({ tree, ids: idsOf(line.slice(0, Math.max(0, Math.min(total, i)) + 1)) })}
+          showNumbers={showNumbers}
+          onToggleNumbers={() => setShowNumbers((v) => !v)}
+        />
+        <div className="flex flex-col gap-2 rounded-lg border p-3 text-sm">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="font-medium text-gray-700">{t.variations}</span>
+            <button onClick={() => play(null)} className={btn}>{t.pass}</button>
+            <button onClick={() => setReview({ tree: promoteLine(tree, ids), ids })} disabled={isMainLine(tree, ids)} className={btn}>
+              {t.promoteLine}
+            </button>
+            <button
+              onClick={() => setReview({ tree: deleteNode(tree, ids), ids: ids.slice(0, -1) })}
+              disabled={ids.length === 0}
+              className={`${btn} text-red-600`}
+            >
+              {t.deleteBranch}
+            </button>
+          </div>
+          <p className="text-gray-500">{t.variationsHelp}</p>
+          <VariationTree tree={tree} current={ids} onSelect={(next) => setReview({ tree, ids: next })} />
+          <label className="flex flex-col gap-1 text-gray-700">
+            {t.moveComment}
+            <textarea
+              value={node.comment}
+              onChange={(e) => setReview({ tree: setComment(tree, ids, e.target.value), ids })}
+              rows={3}
+              className="rounded-md border px-2 py-1"
+            />
+          </label>
+        </div>
+        <ReviewPanel
+          timeline={timelineOf(mainLine)}
+          komi={tree.info.komi}
+          koRule={tree.rules.koRule}
+          current={isMainLine(tree, ids) ? index : null}
+          onJump={(i) => setReview({ tree, ids: idsOf(mainLine.slice(0, i + 1)) })}
+          autoStart={autoReview}
+        />
+        <BoardTools
+          board={shown.board}
+          toMove={shown.toMove}
+          lastMove={shown.move?.point ?? null}
+          moveNumbers={showNumbers ? moveNumbersAt(timeline, index) : null}
+          markup={markup}
+        />
+        <AnalysisPanel
+          options={overlays}
+          onChange={setOverlays}
+          analysis={analysis}
+          running={running}
+          failed={failed}
+          toMove={shown.toMove}
+          size={shown.board.length}
+          hasBook={book.size === shown.board.length}
+        />
+        <div className="flex flex-wrap items-center gap-2">
+          <button onClick={handleSave} disabled={tree === savedTree} className={btn}>{t.saveReview}</button>
+          <button onClick={() => downloadText(sgfFileName(), treeToSgf(tree))} className={btn}>{t.exportSgf}</button>
+          <button onClick={onBack} className={btn}>{t.backToLibrary}</button>
+          {tree !== savedTree && <span className="text-sm text-gray-500">{t.unsavedReview}</span>}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ---- Statistics ----
+
+function TallyTable({ title, rows }: { title: string; rows: [string, Tally][] }) {
+  const { t } = useI18n();
+  if (rows.length === 0) return null;
+  return (
+    <table className="w-full text-sm">
+      <caption className="mb-1 text-left font-medium">{title}</caption>
+      <thead className="text-gray-600">
+        <tr>
+          <th className="text-left font-normal" />
+          <th className="text-right font-normal">{t.gamesColumn}</th>
+          <th className="text-right font-normal">{t.winsColumn}</th>
+          <th className="text-right font-normal">{t.lossesColumn}</th>
+          <th className="text-right font-normal">{t.drawsColumn}</th>
+          <th className="text-right font-normal">{t.winRateColumn}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(([label, tally]) => (
+          <tr key={label}>
+            <th className="text-left font-normal">{label}</th>
+            <td className="text-right">{tally.games}</td>
+            <td className="text-right">{tally.wins}</td>
+            <td className="text-right">{tally.losses}</td>
+            <td className="text-right">{tally.draws}</td>
+            <td className="text-right">{Math.round(winRate(tally) * 100)}%</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function StatsView({ onBack }: { onBack: () => void }) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [profiles, setProfiles] = useState<Profile[]>(loadProfiles);
+  const [records] = useState<GameRecord[]>(loadGameRecords);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [newName, setNewName] = useState("");
+  const ratings = useMemo(() => computeRatings(records), [records]);
+  const btn = "rounded-md border px-3 py-1 text-sm hover:bg-gray-50";
+
+  const ratingOf = (id: string) => ratings.get(id) ?? INITIAL_RATING;
+  const ranked = [...profiles].sort((a, b) => ratingOf(b.id).rating - ratingOf(a.id).rating);
+  const selected = profiles.find((p) => p.id === selectedId) ?? ranked[0] ?? null;
+  const stats = useMemo(() => (selected ? profileStats(records, selected.id) : null), [records, selected]);
+  const names = new Map(profiles.map((p) => [p.id, p.name]));
+  const recent = selected
+    ? records.filter((r) => r.black === selected.id || r.white === selected.id).slice(-10).reverse()
+    : [];
+
+  function handleAdd(e: React.FormEvent) {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    setProfiles(addProfile(newName));
+    setNewName("");
+  }
+
+  function describeRating(id: string): string {
+    const { rating, rd, games } = ratingOf(id);
+    return games ? t.ratingValue(Math.round(rating), Math.round(2 * rd)) : t.unrated;
+  }
+
+  return (
+    <div className="mx-auto max-w-4xl rounded-xl border bg-white p-6">
+      <div className="mb-2 flex items-center justify-between">
+        <h1 className="text-xl font-semibold">{t.statsTitle}</h1>
+        <button onClick={onBack} className={btn}>{t.back}</button>
+      </div>
+      <p className="mb-4 text-sm text-gray-600">{t.statsIntro}</p>
+
+      <form onSubmit={handleAdd} className="mb-4 flex gap-2">
+        <input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder={t.newProfile}
+          aria-label={t.newProfile}
+          maxLength={40}
+          className="flex-1 rounded-md border px-2 py-1 text-sm"
+        />
+        <button type="submit" className={btn}>{t.addProfile}</button>
+      </form>
+
+      {ranked.length === 0 ? (
+        <p className="text-gray-600">{t.noProfiles}</p>
+      ) : (
+        <div className="grid gap-6 md:grid-cols-2">
+          <table className="h-fit w-full text-sm">
+            <thead className="text-gray-600">
+              <tr>
+                <th className="text-left font-normal">{t.playerColumn}</th>
+                <th className="text-right font-normal">{t.ratingColumn}</th>
+                <th className="text-right font-normal">{t.gamesColumn}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {ranked.map((profile) => (
+                <tr key={profile.id} className={profile.id === selected?.id ? "bg-gray-100" : ""}>
+                  <td className="py-1">
+                    <button
+                      onClick={() => setSelectedId(profile.id)}
+                      aria-pressed={profile.id === selected?.id}
+                      className="text-left hover:underline"
+                    >
+                      {profile.name}
+                    </button>
+                    {profile.kind === "ai" && <span className="ml-2 text-xs text-gray-500">{t.engineTag}</span>}
+                  </td>
+                  <td className="text-right">{describeRating(profile.id)}</td>
+                  <td className="text-right">{ratingOf(profile.id).games}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {selected && stats && (
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <h2 className="font-semibold">
+                  {selected.name} · {describeRating(selected.id)}
+                </h2>
+                {selected.kind === "human" && (
+                  <button
+                    onClick={() => {
+                      setProfiles(removeProfile(selected.id));
+                      setSelectedId(null);
+                    }}
+                    className={`${btn} text-red-600`}
+                  >
+                    {t.removeProfile}
+                  </button>
+                )}
+              </div>
+              {stats.total.games === 0 ? (
+                <p className="text-sm text-gray-600">{t.noGames}</p>
+              ) : (
+                <>
+                  <TallyTable
+                    title={t.byMode}
+                    rows={(Object.keys(stats.byMode) as GameMode[]).map((mode) => [t.modes[mode], stats.byMode[mode]!])}
+                  />
+                  <TallyTable
+                    title={t.bySize}
+                    rows={Object.entries(stats.bySize).map(([size, tally]) => [`${size}x${size}`, tally])}
+                  />
+                  <TallyTable
+                    title={t.byColor}
+                    rows={[
+                      [t.black, stats.byColor.black],
+                      [t.white, stats.byColor.white],
+                    ]}
+                  />
+                  <div>
+                    <h3 className="mb-1 text-sm font-medium">{t.recentGames}</h3>
+                    <ul className="space-y-1 text-sm">
+                      {recent.map((record) => {
+                        const color = record.black === selected.id ? "black" : "white";
+                        const opponent = record[color === "black" ? "white" : "black"];
+                        const outcome = record.winner === "draw" ? "draw" : record.winner === color ? "win" : "loss";
+                        return (
+                          <li key={record.id} className="text-gray-700">
+                            <span className="font-medium">{t.outcomes[outcome]}</span> ·{" "}
+                            {t.versus((opponent && names.get(opponent)) || t.untrackedPlayer)} · {t[color]} ·{" "}
+                            {record.size}x{record.size} · {new Date(record.finishedAt).toLocaleDateString(t.dateLocale)}
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 }
@@ -591,65 +3056,371 @@ function LocalGame({
 // ---- Page ----
 
 export default function IndexPage() {
-  const [route, setRoute] = useState<Route>("menu");
-  const [modeOpen, setModeOpen] = useState<boolean>(true); // show at start
+  // A game left in progress is resumed straight away
+  const [resume, setResume] = useState<ResumedGame | null>(loadResumable);
+  const [hasActive, setHasActive] = useState<boolean>(resume !== null);
+  // Otherwise a seat in an online room is taken again
+  const [online, setOnline] = useState<{ url: string; request: RoomRequest } | null>(() => {
+    const session = resume ? null : loadOnlineSession();
+    return session && { url: session.url, request: { type: "rejoin", code: session.code, token: session.token } };
+  });
+  const [relayUrl, setRelayUrl] = useState<string>(online?.url ?? DEFAULT_RELAY_URL);
+  const [route, setRoute] = useState<Route>(resume?.mode ?? (online ? "online" : "menu"));
+  const [modeOpen, setModeOpen] = useState<boolean>(!resume && !online); // show at start
   const [sessionKey, setSessionKey] = useState<number>(0);
   const [lastSummary, setLastSummary] = useState<Summary | null>(null);
+  const [ruleSet, setRuleSet] = useState<RuleSetId>(resume?.settings.ruleSet ?? DEFAULT_RULE_SET);
+  const [boardSize, setBoardSize] = useState<BoardSize>(resume?.settings.boardSize ?? 9);
+  const [aiLevel, setAiLevel] = useState<AiLevel>(resume?.settings.aiLevel ?? "medium");
+  const [opponentKind, setOpponentKind] = useState<OpponentKind>(resume?.settings.opponentKind ?? "builtin");
+  const [gtpUrl, setGtpUrl] = useState<string>(resume?.settings.gtpUrl ?? DEFAULT_GTP_BRIDGE_URL);
+  const [useBook, setUseBook] = useState(resume?.settings.useBook ?? true);
+  const [storedBook, setStoredBook] = useState(loadOpeningBook);
+  const [setupMode, setSetupMode] = useState<GameMode | null>(null);
+  const [setup, setSetup] = useState<GameSetup>(resume?.settings.setup ?? DEFAULT_SETUP);
+  const [library, setLibrary] = useState<LibraryEntry[]>(loadLibrary);
+  const [replaying, setReplaying] = useState<LibraryEntry | null>(null);
+  const [autoReview, setAutoReview] = useState(false);
+  const [finishedEntry, setFinishedEntry] = useState<LibraryEntry | null>(null); // the last game, as kept in the library
+  const [preferences, setPreferences] = useState(loadPreferences);
+  const i18n = useMemo(() => makeI18n(preferences.locale, preferences.notation), [preferences]);
+  const { t } = i18n;
+  // An imported book that no longer parses falls back to the built-in one
+  const openingBook = useMemo(() => {
+    try {
+      if (storedBook) return parseOpeningBook(storedBook.sgf, storedBook.name);
+    } catch {
+      // fall through
+    }
+    return parseOpeningBook(BUILTIN_OPENING_BOOK.sgf, BUILTIN_OPENING_BOOK.name);
+  }, [storedBook]);
+  const opponent = useMemo(
+    () =>
+      opponentKind === "gtp"
+        ? gtpOpponent(gtpUrl, t.gtpName)
+        : mctsOpponent(aiLevel, t.aiName(t.aiLevels[aiLevel]), useBook ? openingBook : null),
+    [opponentKind, gtpUrl, aiLevel, t, useBook, openingBook]
+  );
+
+  useEffect(() => {
+    document.documentElement.lang = preferences.locale;
+  }, [preferences.locale]);
+
+  function changePreferences(patch: Partial<typeof preferences>) {
+    const next = { ...preferences, ...patch };
+    savePreferences(next);
+    setPreferences(next);
+  }
 
   function openMode() {
+    setSetupMode(null);
+    setModeOpen(true);
+  }
+
+  function openSetup(mode: GameMode) {
+    setSetupMode(mode);
     setModeOpen(true);
   }
 
+  // An abandoned game goes to the library unfinished, so its moves are not lost
+  function archiveActive() {
+    const active = loadResumable();
+    clearActiveGame();
+    setHasActive(false);
+    if (!active || active.state.timeline.length <= 1) return;
+    const { state } = active;
+    setLibrary(
+      addToLibrary({
+        mode: active.mode,
+        size: active.game.size,
+        players: state.players,
+        result: "",
+        moves: state.timeline.length - 1,
+        sgf: gameToSgf(state, sgfTiming(active.settings.setup.timeControl)),
+      })
+    );
+  }
+
   function handleSelect(mode: "ai" | "local") {
+    archiveActive();
+    setResume(null);
     setRoute(mode);
     setSessionKey((k) => k + 1); // force remount to reset game state
     setModeOpen(false);
+    setSetupMode(null);
+  }
+
+  function handleOnline(request: RoomRequest) {
+    archiveActive();
+    setResume(null);
+    setOnline({ url: relayUrl, request });
+    setRoute("online");
+    setSessionKey((k) => k + 1);
+    setModeOpen(false);
+    setSetupMode(null);
+  }
+
+  function handleResume() {
+    const active = loadResumable();
+    if (!active) {
+      setHasActive(false);
+      return;
+    }
+    const { settings } = active;
+    setRuleSet(settings.ruleSet);
+    setBoardSize(settings.boardSize);
+    setAiLevel(settings.aiLevel);
+    setOpponentKind(settings.opponentKind);
+    setGtpUrl(settings.gtpUrl);
+    setUseBook(settings.useBook ?? true);
+    setSetup(settings.setup);
+    setResume(active);
+    setRoute(active.mode);
+    setSessionKey((k) => k + 1);
+    setModeOpen(false);
+    setSetupMode(null);
+  }
+
+  // Komi follows the rules unless handicap stones set it
+  function handleRuleSetChange(id: RuleSetId) {
+    setRuleSet(id);
+    setSetup((prev) => (prev.handicap > 0 ? prev : { ...prev, komi: RULE_SETS[id].komi }));
+  }
+
+  // Parsing first keeps a bad file from replacing the current book
+  function handleBookImport(sgf: string, name: string) {
+    parseOpeningBook(sgf, name);
+    const book = { name, sgf };
+    saveOpeningBook(book);
+    setStoredBook(book);
+  }
+
+  function handleBookReset() {
+    saveOpeningBook(null);
+    setStoredBook(null);
+  }
+
+  function handleClose() {
+    setModeOpen(false);
+    setSetupMode(null);
+  }
+
+  function handleAutosave(mode: "ai" | "local", state: GameState, clock: ClockState | null) {
+    saveActiveGame<PageSettings>({
+      mode,
+      savedAt: Date.now(),
+      game: serializeGame(state),
+      clock,
+      settings: { ruleSet, boardSize, aiLevel, opponentKind, gtpUrl, useBook, setup },
+    });
+    setHasActive(true);
   }
 
   function handleGameFinished(summary: Summary) {
+    clearActiveGame();
+    setHasActive(false);
+    const next = addToLibrary({
+      mode: summary.mode,
+      size: summary.size,
+      players: summary.players,
+      result: formatSgfResult(summary),
+      moves: summary.moves,
+      sgf: summary.record,
+    });
+    setLibrary(next);
+    setFinishedEntry(next[0]);
+    recordGame(
+      { mode: summary.mode, size: summary.size, handicap: summary.handicap, winner: summary.winner },
+      summary.participants
+    );
     setLastSummary(summary);
     setModeOpen(true); // show mode selector after game ends
   }
 
+  function openLibrary() {
+    setLibrary(loadLibrary());
+    setRoute("library");
+    setModeOpen(false);
+  }
+
+  function openTsumego() {
+    setRoute("tsumego");
+    setModeOpen(false);
+  }
+
+  function openStats() {
+    setRoute("stats");
+    setModeOpen(false);
+  }
+
+  function handleReplay(entry: LibraryEntry, review = false) {
+    setReplaying(entry);
+    setAutoReview(review);
+    setRoute("replay");
+  }
+
+  function handleReviewFinished() {
+    if (!finishedEntry) return;
+    handleReplay(finishedEntry, true);
+    setModeOpen(false);
+  }
+
   return (
-    <div className="min-h-screen bg-gray-50">
-      <header className="border-b bg-white">
-        <div className="mx-auto flex max-w-6xl items-center justify-between p-4">
-          <div className="flex items-center gap-3">
-            <div className="h-8 w-8 rounded-full bg-black" />
-            <div>
-              <div className="text-base font-semibold">Cờ Vây</div>
-              <div className="text-xs text-gray-500">Go Board 9x9</div>
+    <I18nContext.Provider value={i18n}>
+      <div className="min-h-screen bg-gray-50">
+        <header className="border-b bg-white">
+          <div className="mx-auto flex max-w-6xl items-center justify-between p-4">
+            <div className="flex items-center gap-3">
+              <div className="h-8 w-8 rounded-full bg-black" />
+              <div>
+                <div className="text-base font-semibold">{t.appName}</div>
+                <div className="text-xs text-gray-500">{t.appTagline(boardSize)}</div>
+              </div>
             </div>
-          </div>
-          <div className="flex items-center gap-2">
-            <button onClick={openMode} className="rounded-md border px-3 py-1 text-sm hover:bg-gray-50">Chọn chế độ</button>
-          </div>
-        </div>
-      </header>
-
-      <main className="mx-auto max-w-6xl p-4">
-        {route === "menu" && (
-          <div className="mx-auto max-w-3xl rounded-xl border bg-white p-6">
-            <h1 className="mb-2 text-xl font-semibold">Chào mừng đến với Cờ Vây</h1>
-            <p className="mb-4 text-gray-700">Chọn chế độ chơi để bắt đầu — bạn có thể chơi với máy hoặc 2 người trên cùng thiết bị. Bảng chọn chế độ sẽ xuất hiện khi bắt đầu và sau khi kết thúc ván.</p>
-            <div className="flex flex-wrap gap-3">
-              <button onClick={() => handleSelect("ai")} className="rounded-md border px-4 py-2 text-sm hover:bg-gray-50">Chơi với máy</button>
-              <button onClick={() => handleSelect("local")} className="rounded-md border px-4 py-2 text-sm hover:bg-gray-50">Chơi 2 người</button>
+            <div className="flex flex-wrap items-center justify-end gap-2">
+              <select
+                value={preferences.locale}
+                onChange={(e) => changePreferences({ locale: e.target.value as Locale })}
+                className="rounded-md border px-2 py-1 text-sm"
+                aria-label={t.language}
+              >
+                {LOCALES.map((locale) => (
+                  <option key={locale} value={locale}>
+                    {LOCALE_NAMES[locale]}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={preferences.notation}
+                onChange={(e) => changePreferences({ notation: e.target.value as Notation })}
+                className="rounded-md border px-2 py-1 text-sm"
+                aria-label={t.notation}
+                title={t.notation}
+              >
+                {NOTATIONS.map((notation) => (
+                  <option key={notation} value={notation}>
+                    {t.notations[notation]}
+                  </option>
+                ))}
+              </select>
+              <button onClick={openTsumego} className="rounded-md border px-3 py-1 text-sm hover:bg-gray-50">{t.tsumego}</button>
+              <button onClick={openLibrary} className="rounded-md border px-3 py-1 text-sm hover:bg-gray-50">{t.library}</button>
+              <button onClick={openStats} className="rounded-md border px-3 py-1 text-sm hover:bg-gray-50">{t.stats}</button>
+              <button onClick={openMode} className="rounded-md border px-3 py-1 text-sm hover:bg-gray-50">{t.chooseMode}</button>
             </div>
           </div>
-        )}
+        </header>
 
-        {route === "ai" && (
-          <AiGame key={`ai-${sessionKey}`} onRequestMode={openMode} reportFinish={handleGameFinished} />
-        )}
+        <main className="mx-auto max-w-6xl p-4">
+          {route === "menu" && (
+            <div className="mx-auto max-w-3xl rounded-xl border bg-white p-6">
+              <h1 className="mb-2 text-xl font-semibold">{t.welcome}</h1>
+              <p className="mb-4 text-gray-700">{t.welcomeText}</p>
+              <div className="flex flex-wrap gap-3">
+                <button onClick={() => openSetup("ai")} className="rounded-md border px-4 py-2 text-sm hover:bg-gray-50">{t.modes.ai}</button>
+                <button onClick={() => openSetup("local")} className="rounded-md border px-4 py-2 text-sm hover:bg-gray-50">{t.modes.local}</button>
+                <button onClick={() => openSetup("online")} className="rounded-md border px-4 py-2 text-sm hover:bg-gray-50">{t.modes.online}</button>
+                <button onClick={openTsumego} className="rounded-md border px-4 py-2 text-sm hover:bg-gray-50">{t.tsumegoLong}</button>
+              </div>
+            </div>
+          )}
 
-        {route === "local" && (
-          <LocalGame key={`local-${sessionKey}`} onRequestMode={openMode} reportFinish={handleGameFinished} />
-        )}
-      </main>
+          {route === "ai" && (
+            <AiGame
+              key={`ai-${sessionKey}`}
+              onRequestMode={openMode}
+              reportFinish={handleGameFinished}
+              rules={RULE_SETS[ruleSet]}
+              boardSize={boardSize}
+              opponent={opponent}
+              setup={setup}
+              paused={modeOpen}
+              resume={resume}
+              onAutosave={(state, clock) => handleAutosave("ai", state, clock)}
+              book={openingBook}
+            />
+          )}
 
-      <ModeModal open={modeOpen} onSelect={handleSelect} onClose={() => setModeOpen(false)} summary={lastSummary} />
-    </div>
+          {route === "local" && (
+            <LocalGame
+              key={`local-${sessionKey}`}
+              onRequestMode={openMode}
+              reportFinish={handleGameFinished}
+              rules={RULE_SETS[ruleSet]}
+              boardSize={boardSize}
+              setup={setup}
+              paused={modeOpen}
+              resume={resume}
+              onAutosave={(state, clock) => handleAutosave("local", state, clock)}
+              book={openingBook}
+            />
+          )}
+
+          {route === "online" && online && (
+            <OnlineGame
+              key={`online-${sessionKey}`}
+              url={online.url}
+              request={online.request}
+              onRequestMode={openMode}
+              reportFinish={handleGameFinished}
+            />
+          )}
+
+          {route === "tsumego" && <TsumegoView onBack={() => setRoute("menu")} />}
+
+          {route === "library" && (
+            <LibraryView
+              entries={library}
+              onReplay={(entry) => handleReplay(entry)}
+              onRemove={(id) => setLibrary(removeFromLibrary(id))}
+              onBack={() => setRoute("menu")}
+            />
+          )}
+
+          {route === "stats" && <StatsView onBack={() => setRoute("menu")} />}
+
+          {route === "replay" && replaying && (
+            <ReplayView
+              key={replaying.id}
+              entry={replaying}
+              onBack={openLibrary}
+              autoReview={autoReview}
+              book={openingBook}
+            />
+          )}
+        </main>
+
+        <ModeModal
+          open={modeOpen}
+          onSelect={handleSelect}
+          onClose={handleClose}
+          summary={lastSummary}
+          ruleSet={ruleSet}
+          onRuleSetChange={handleRuleSetChange}
+          boardSize={boardSize}
+          onBoardSizeChange={setBoardSize}
+          aiLevel={aiLevel}
+          onAiLevelChange={setAiLevel}
+          opponentKind={opponentKind}
+          onOpponentKindChange={setOpponentKind}
+          gtpUrl={gtpUrl}
+          onGtpUrlChange={setGtpUrl}
+          setupMode={setupMode}
+          onSetupModeChange={setSetupMode}
+          setup={setup}
+          onSetupChange={setSetup}
+          onResume={hasActive && route !== "ai" && route !== "local" ? handleResume : null}
+          relayUrl={relayUrl}
+          onRelayUrlChange={setRelayUrl}
+          onOnline={handleOnline}
+          onReview={lastSummary && finishedEntry ? handleReviewFinished : null}
+          useBook={useBook}
+          onUseBookChange={setUseBook}
+          bookName={openingBook.name}
+          onBookImport={handleBookImport}
+          onBookReset={storedBook ? handleBookReset : null}
+        />
+      </div>
+    </I18nContext.Provider>
   );
 }
@@ -0,0 +1,102 @@
+import { getGroupAndLiberties, pointKey, type Position, type Snapshot, type Stone } from "./goRules";
+import type { AiResponse, CandidateMove } from "./mcts";
+import { bookMoves, type BookMove, type OpeningBook } from "./openingBook";
+
+// Learning aids drawn over the board: a quick static influence map, the engine's
+// ownership estimate, warnings on groups short of liberties, a heatmap of the
+// moves the search looked at and the opening book's moves. Values are plain grids indexed [y][x] like the board.
+
+// ---- Types & Constants ----
+
+export type ShadeKind = "none" | "influence" | "ownership";
+
+export interface OverlayOptions {
+  shade: ShadeKind;
+  warnings: boolean;
+  candidates: boolean;
+  book: boolean;
+}
+
+export const DEFAULT_OVERLAYS: OverlayOptions = { shade: "none", warnings: false, candidates: false, book: false };
+
+export interface HeatPoint extends Position {
+  share: number; // visits relative to the most visited move, 0..1
+  winRate: number; // for the side to move
+  rank: number; // 1 for the most visited move
+}
+
+// What GoBoard draws on top of the stones
+export interface BoardOverlay {
+  shade?: number[][] | null; // 1 black to -1 white
+  liberties?: number[][] | null; // liberties of each stone in a group with at most two, 0 otherwise
+  heat?: HeatPoint[] | null;
+  book?: BookMove[] | null;
+}
+
+const INFLUENCE_RADIUS = 4;
+const HEAT_MOVES = 10; // candidates shown on the heatmap
+const WARN_LIBERTIES = 2;
+
+// ---- Overlays ----
+
+// Each stone radiates 1/(1+d²) over Manhattan distance d up to the radius; the sum
+// is squashed to -1..1. Crude, but instant and it needs no search.
+export function influenceMap(board: Stone[][]): number[][] {
+  const size = board.length;
+  const sum = board.map((row) => row.map(() => 0));
+  board.forEach((row, sy) =>
+    row.forEach((cell, sx) => {
+      if (!cell) return;
+      const sign = cell === 1 ? 1 : -1;
+      for (let y = Math.max(0, sy - INFLUENCE_RADIUS); y <= Math.min(size - 1, sy + INFLUENCE_RADIUS); y++) {
+        for (let x = Math.max(0, sx - INFLUENCE_RADIUS); x <= Math.min(size - 1, sx + INFLUENCE_RADIUS); x++) {
+          const d = Math.abs(x - sx) + Math.abs(y - sy);
+          if (d <= INFLUENCE_RADIUS) sum[y][x] += sign / (1 + d * d);
+        }
+      }
+    })
+  );
+  return sum.map((row) => row.map((v) => Math.tanh(v)));
+}
+
+export function libertyWarnings(board: Stone[][]): number[][] {
+  const res = board.map((row) => row.map(() => 0));
+  const seen = new Set<string>();
+  board.forEach((row, y) =>
+    row.forEach((cell, x) => {
+      if (!cell || seen.has(pointKey(x, y))) return;
+      const { group, liberties } = getGroupAndLiberties(board, x, y);
+      for (const p of group) {
+        seen.add(pointKey(p.x, p.y));
+        if (liberties.size <= WARN_LIBERTIES) res[p.y][p.x] = liberties.size;
+      }
+    })
+  );
+  return res;
+}
+
+export function candidateHeat(candidates: CandidateMove[]): HeatPoint[] {
+  const top = candidates.filter((c) => c.move).slice(0, HEAT_MOVES);
+  const most = Math.max(1, ...top.map((c) => c.visits));
+  return top.map((c, i) => ({ ...c.move!, share: c.visits / most, winRate: c.winRate, rank: i + 1 }));
+}
+
+export function needsSearch(options: OverlayOptions): boolean {
+  return options.shade === "ownership" || options.candidates;
+}
+
+// The overlay for a position; parts that need the search are left out until it is done.
+export function buildOverlay(
+  options: OverlayOptions,
+  { board, toMove }: Pick<Snapshot, "board" | "toMove">,
+  analysis: AiResponse | null,
+  book: OpeningBook | null = null
+): BoardOverlay | null {
+  const overlay: BoardOverlay = {
+    shade: options.shade === "influence" ? influenceMap(board) : options.shade === "ownership" ? analysis?.ownership : null,
+    liberties: options.warnings ? libertyWarnings(board) : null,
+    heat: options.candidates && analysis?.candidates ? candidateHeat(analysis.candidates) : null,
+    book: options.book && book ? bookMoves(book, board, toMove) : null,
+  };
+  return overlay.shade || overlay.liberties || overlay.heat || overlay.book?.length ? overlay : null;
+}
@@ -0,0 +1,60 @@
+import type { Position, Snapshot, Stone } from "./goRules";
+import { parsePoint, type I18n } from "./i18n";
+
+// Texts for screen readers: the accessible name of each board point, the line
+// read out after every move and the parser for typed moves. Points are named in
+// the notation chosen by the player.
+
+// ---- Types & Constants ----
+
+// What a point shows besides its stone, for the accessible name
+export interface PointDetails {
+  last?: boolean; // the last move
+  dead?: boolean; // marked dead while scoring
+  owner?: Stone; // territory while scoring
+  liberties?: number; // short of liberties, from the warnings overlay
+}
+
+const PASS_WORDS = ["pass", "bỏ lượt", "bo luot"];
+
+// ---- Points ----
+
+export function describePoint(i18n: I18n, cell: Stone, point: Position, size: number, details: PointDetails = {}): string {
+  const { t } = i18n;
+  const parts = [i18n.point(point, size), cell ? t.pointStone(i18n.color(cell)) : t.pointEmpty];
+  if (details.last) parts.push(t.pointLast);
+  if (details.dead) parts.push(t.pointDead);
+  if (details.owner) parts.push(t.pointOwner(i18n.color(details.owner)));
+  if (details.liberties === 1) parts.push(t.pointAtari);
+  else if (details.liberties) parts.push(t.pointLiberties(details.liberties));
+  return parts.join(", ");
+}
+
+// Reads a point ("E5", or in the chosen notation) or "pass"; null for a pass,
+// undefined when it is not a point on the board
+export function parseMoveInput(i18n: I18n, text: string, size: number): Position | null | undefined {
+  if (PASS_WORDS.includes(text.trim().toLowerCase())) return null;
+  return parsePoint(text, size, i18n.notation);
+}
+
+// ---- Moves ----
+
+// "Đen đi E5, bắt 2 quân." for the move from `prev` to `next`
+export function describeMove(i18n: I18n, prev: Snapshot, next: Snapshot): string {
+  const move = next.move;
+  if (!move) return "";
+  const who = i18n.color(move.color);
+  if (!move.point) return i18n.t.movePassed(who);
+  const key = move.color === 1 ? "black" : "white";
+  const captured = next.captures[key] - prev.captures[key];
+  const where = i18n.point(move.point, next.board.length);
+  return captured > 0 ? i18n.t.moveCaptured(who, where, captured) : i18n.t.movePlayed(who, where);
+}
+
+// The announcement after the last position of `timeline`, ending with whose turn it is
+export function announceTurn(i18n: I18n, timeline: Snapshot[]): string {
+  const last = timeline[timeline.length - 1];
+  const prev = timeline[timeline.length - 2];
+  const move = prev ? describeMove(i18n, prev, last) : "";
+  return `${move} ${i18n.t.toPlay(i18n.color(last.toMove))}`.trim();
+}
@@ -0,0 +1,89 @@
+import { FastBoard } from "./fastBoard";
+import { makeEmptyBoard, mulberry32, neighbors, tryPlay, type Stone } from "./goRules";
+import { runPlayout, searchMove } from "./mcts";
+
+// Playouts-per-second benchmark: the incremental FastBoard against random playouts
+// built on the Stone[][] rules (tryPlay / getGroupAndLiberties).
+// Run with `npx tsx src/benchmark.ts [size] [seconds]`.
+
+const KOMI = 7;
+
+function isEyeLike(board: Stone[][], x: number, y: number, color: Stone): boolean {
+  return neighbors(x, y, board.length).every((n) => board[n.y][n.x] === color);
+}
+
+// The same light policy as the engine, on top of tryPlay: random legal non-eye moves.
+function referencePlayout(size: number, rand: () => number): void {
+  let board = makeEmptyBoard(size);
+  let toMove: Stone = 1;
+  let passes = 0;
+  const maxMoves = size * size * 3;
+  for (let i = 0; i < maxMoves && passes < 2; i++) {
+    const start = Math.floor(rand() * size * size);
+    let played = false;
+    for (let k = 0; k < size * size && !played; k++) {
+      const p = (start + k) % (size * size);
+      const x = p % size;
+      const y = Math.floor(p / size);
+      if (board[y][x] !== 0 || isEyeLike(board, x, y, toMove)) continue;
+      const res = tryPlay(board, x, y, toMove);
+      if (res.legal) {
+        board = res.board!;
+        played = true;
+      }
+    }
+    passes = played ? 0 : passes + 1;
+    toMove = toMove === 1 ? 2 : 1;
+  }
+}
+
+function measure(label: string, seconds: number, run: () => void) {
+  const deadline = Date.now() + seconds * 1000;
+  const started = Date.now();
+  let count = 0;
+  while (Date.now() < deadline) {
+    run();
+    count++;
+  }
+  const rate = count / ((Date.now() - started) / 1000);
+  console.log(`${label.padEnd(28)} ${count.toString().padStart(7)} playouts  ${rate.toFixed(0).padStart(7)} /s`);
+  return rate;
+}
+
+function main() {
+  const size = Number(process.argv[2] ?? 9);
+  const seconds = Number(process.argv[3] ?? 3);
+  const rand = mulberry32(1);
+  console.log(`Board ${size}x${size}, ${seconds}s per run`);
+
+  const reference = measure("tryPlay (Stone[][])", seconds, () => referencePlayout(size, rand));
+
+  const root = new FastBoard(size);
+  const work = new FastBoard(size, 1, false);
+  const fast = measure("FastBoard (copyFrom)", seconds, () => {
+    work.copyFrom(root);
+    runPlayout(work, KOMI, rand);
+  });
+
+  const undoBoard = new FastBoard(size);
+  measure("FastBoard (undo)", seconds, () => {
+    runPlayout(undoBoard, KOMI, rand);
+    while (undoBoard.undo());
+  });
+
+  const start = Date.now();
+  const reply = searchMove({
+    id: 0,
+    board: makeEmptyBoard(size),
+    toMove: 1,
+    komi: KOMI,
+    forbidden: [],
+    level: "medium",
+    seed: 1,
+  });
+  const searchRate = reply.playouts / ((Date.now() - start) / 1000);
+  console.log(`${"searchMove (medium)".padEnd(28)} ${reply.playouts.toString().padStart(7)} playouts  ${searchRate.toFixed(0).padStart(7)} /s`);
+  console.log(`Speed-up: ${(fast / reference).toFixed(1)}x`);
+}
+
+main();
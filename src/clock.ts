@@ -0,0 +1,175 @@
+import type { Stone } from "./goRules";
+
+// Game clocks. Like gameState, every function is pure: it takes the clock and the
+// current time in milliseconds and returns a new clock. The running player's time
+// is settled lazily, so a display only needs to call clockView() on every tick.
+
+// ---- Types & Constants ----
+
+export type TimeControlKind = "none" | "absolute" | "byoyomi" | "canadian" | "fischer";
+
+export interface TimeControl {
+  kind: TimeControlKind;
+  mainMs: number; // main time
+  periodMs: number; // byo-yomi period, or the Canadian block
+  periods: number; // byo-yomi periods
+  stones: number; // stones to play per Canadian block
+  incrementMs: number; // Fischer bonus per move
+}
+
+export interface PlayerClock {
+  mainMs: number;
+  periodMs: number; // time left in the current byo-yomi period or Canadian block
+  periodsLeft: number; // byo-yomi periods left, the current one included
+  stonesLeft: number; // stones still to play in the current Canadian block
+  flagged: boolean; // out of time
+}
+
+export interface ClockState {
+  control: TimeControl;
+  black: PlayerClock;
+  white: PlayerClock;
+  turn: Stone; // whose clock is active, 0 when neither
+  running: boolean; // false while paused, e.g. when a dialog is open
+  since: number; // time the active clock was last settled
+}
+
+export const DEFAULT_TIME_CONTROL: TimeControl = {
+  kind: "none",
+  mainMs: 10 * 60_000,
+  periodMs: 30_000,
+  periods: 3,
+  stones: 10,
+  incrementMs: 10_000,
+};
+
+// ---- Clock ----
+
+export function newClock(control: TimeControl): ClockState {
+  const player: PlayerClock = {
+    mainMs: control.mainMs,
+    periodMs: control.periodMs,
+    periodsLeft: control.periods,
+    stonesLeft: control.stones,
+    flagged: false,
+  };
+  return { control, black: player, white: { ...player }, turn: 0, running: false, since: 0 };
+}
+
+function playerKey(color: Stone): "black" | "white" {
+  return color === 1 ? "black" : "white";
+}
+
+// Spend `elapsed` ms of thinking time: main time first, then the overtime.
+function consume(clock: PlayerClock, control: TimeControl, elapsed: number): PlayerClock {
+  if (control.kind === "none" || clock.flagged || elapsed <= 0) return clock;
+  const mainMs = clock.mainMs - elapsed;
+  if (mainMs > 0) return { ...clock, mainMs };
+  let overtime = -mainMs;
+  const next = { ...clock, mainMs: 0 };
+  switch (control.kind) {
+    case "byoyomi":
+      while (next.periodsLeft > 0 && overtime >= next.periodMs) {
+        overtime -= next.periodMs;
+        next.periodsLeft--;
+        next.periodMs = control.periodMs;
+      }
+      if (next.periodsLeft === 0) return { ...next, periodMs: 0, flagged: true };
+      return { ...next, periodMs: next.periodMs - overtime };
+    case "canadian":
+      if (overtime >= next.periodMs) return { ...next, periodMs: 0, flagged: true };
+      return { ...next, periodMs: next.periodMs - overtime };
+    default:
+      return { ...next, flagged: true };
+  }
+}
+
+// What a player earns for completing a move.
+function endTurn(clock: PlayerClock, control: TimeControl): PlayerClock {
+  if (clock.flagged) return clock;
+  switch (control.kind) {
+    case "fischer":
+      return { ...clock, mainMs: clock.mainMs + control.incrementMs };
+    case "byoyomi":
+      return clock.mainMs > 0 ? clock : { ...clock, periodMs: control.periodMs };
+    case "canadian":
+      if (clock.mainMs > 0) return clock;
+      if (clock.stonesLeft > 1) return { ...clock, stonesLeft: clock.stonesLeft - 1 };
+      return { ...clock, stonesLeft: control.stones, periodMs: control.periodMs };
+    default:
+      return clock;
+  }
+}
+
+function settle(clock: ClockState, now: number): ClockState {
+  if (!clock.running || !clock.turn) return { ...clock, since: now };
+  const key = playerKey(clock.turn);
+  return { ...clock, [key]: consume(clock[key], clock.control, now - clock.since), since: now };
+}
+
+// Hand the clock to `next` (0 to stop it). The player whose clock was active is
+// credited with a completed move: Fischer increment, byo-yomi reset, Canadian count.
+export function switchTurn(clock: ClockState, next: Stone, now: number): ClockState {
+  const settled = settle(clock, now);
+  if (settled.turn === next) return settled;
+  const res = { ...settled, turn: next };
+  if (settled.turn) {
+    const key = playerKey(settled.turn);
+    res[key] = endTurn(settled[key], clock.control);
+  }
+  return res;
+}
+
+export function setRunning(clock: ClockState, running: boolean, now: number): ClockState {
+  if (clock.running === running) return clock;
+  return { ...settle(clock, now), running };
+}
+
+// The player's clock as of `now`, including time spent on the current move.
+export function clockView(clock: ClockState, color: Stone, now: number): PlayerClock {
+  const key = playerKey(color);
+  if (!clock.running || clock.turn !== color) return clock[key];
+  return consume(clock[key], clock.control, now - clock.since);
+}
+
+// The player who has run out of time, if any.
+export function flaggedPlayer(clock: ClockState, now: number): Stone {
+  if (clock.control.kind === "none" || !clock.turn) return 0;
+  return clockView(clock, clock.turn, now).flagged ? clock.turn : 0;
+}
+
+// ---- Formatting ----
+
+function formatMs(ms: number): string {
+  const total = Math.max(0, Math.ceil(ms / 1000));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, "0");
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+}
+
+// e.g. "9:58", "0:27 (3×)" during byo-yomi, "4:12 / 7 stones" during Canadian overtime,
+// with `stonesUnit` naming the stones
+export function formatClock(clock: PlayerClock, control: TimeControl, stonesUnit: string): string {
+  if (clock.mainMs > 0 || control.kind === "absolute" || control.kind === "fischer") return formatMs(clock.mainMs);
+  if (control.kind === "byoyomi") return `${formatMs(clock.periodMs)} (${clock.periodsLeft}×)`;
+  return `${formatMs(clock.periodMs)} / ${clock.stonesLeft} ${stonesUnit}`;
+}
+
+// The SGF OT property of a time control, in the usual English wording of records;
+// an untimed game has none
+export function describeTimeControl(control: TimeControl): string {
+  const main = formatMs(control.mainMs);
+  switch (control.kind) {
+    case "none":
+      return "";
+    case "absolute":
+      return main;
+    case "byoyomi":
+      return `${main} + ${control.periods}×${control.periodMs / 1000}s byo-yomi`;
+    case "canadian":
+      return `${main} + ${control.stones}/${formatMs(control.periodMs)} Canadian`;
+    case "fischer":
+      return `${main} + ${control.incrementMs / 1000}s Fischer`;
+  }
+}
@@ -0,0 +1,216 @@
+import { pointKey, starPoints, type Position, type Stone } from "./goRules";
+import { columnLabel, rowLabel, type Notation } from "./i18n";
+
+// Pictures of a position: the SVG the board component draws and exports, and the
+// Sensei's Library text diagram for pasting into a chat. Both are plain strings
+// built from a Diagram, so the page, a saved file and Node all get the same picture.
+
+// ---- Types & Constants ----
+
+export type MarkKind = "triangle" | "square" | "circle" | "label";
+
+export interface Mark extends Position {
+  kind: MarkKind;
+  text?: string; // labels only
+}
+
+export interface Diagram {
+  board: Stone[][];
+  toMove?: Stone;
+  lastMove?: Position | null;
+  numbers?: number[][] | null; // move number on each stone, 0 for none
+  marks?: Mark[];
+  faded?: Set<string>; // stones drawn see-through: marked dead or likely lost
+  coordinates?: Notation | null; // edge labels in this notation, none when null
+}
+
+export const CELL = 40; // SVG units from one line to the next
+const MARGIN = CELL; // around the grid, for the coordinates
+export const STONE_RADIUS = CELL * 0.47;
+
+export const BOARD_COLORS = {
+  wood: "#e6c07b",
+  line: "#4a3512",
+  black: "#151515",
+  white: "#f4f4f4",
+  last: "#2563eb",
+};
+
+const FONT = 'font-family="system-ui, sans-serif" text-anchor="middle" dominant-baseline="central"';
+
+// Sensei's Library symbols: plain, circled, squared and triangled stones or points
+const ASCII_SYMBOLS: Record<Stone, Record<"plain" | Exclude<MarkKind, "label">, string>> = {
+  0: { plain: ".", circle: "C", square: "S", triangle: "T" },
+  1: { plain: "X", circle: "B", square: "#", triangle: "Y" },
+  2: { plain: "O", circle: "W", square: "@", triangle: "Q" },
+};
+
+// ---- Geometry ----
+
+export function diagramSize(size: number): number {
+  return (size - 1) * CELL + 2 * MARGIN;
+}
+
+// SVG coordinate of line `i`, for x and y alike
+export function lineAt(i: number): number {
+  return MARGIN + i * CELL;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"]/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+// Marks and numbers contrast with what they sit on
+function inkOn(cell: Stone): string {
+  return cell === 1 ? BOARD_COLORS.white : BOARD_COLORS.black;
+}
+
+// ---- SVG ----
+
+function markSvg(mark: Mark, cell: Stone): string {
+  const cx = lineAt(mark.x);
+  const cy = lineAt(mark.y);
+  const r = CELL * 0.24;
+  const stroke = `fill="none" stroke="${inkOn(cell)}" stroke-width="2.5"`;
+  switch (mark.kind) {
+    case "triangle":
+      return `<polygon points="${cx},${cy - r} ${cx - r * 0.87},${cy + r / 2} ${cx + r * 0.87},${cy + r / 2}" ${stroke}/>`;
+    case "square":
+      return `<rect x="${cx - r * 0.75}" y="${cy - r * 0.75}" width="${r * 1.5}" height="${r * 1.5}" ${stroke}/>`;
+    case "circle":
+      return `<circle cx="${cx}" cy="${cy}" r="${r}" ${stroke}/>`;
+    case "label": {
+      // A patch of wood keeps the grid lines out of a label on an empty point
+      const patch = cell === 0 ? `<circle cx="${cx}" cy="${cy}" r="${CELL * 0.3}" fill="${BOARD_COLORS.wood}"/>` : "";
+      const text = escapeXml(mark.text ?? "");
+      return `${patch}<text x="${cx}" y="${cy}" font-size="${CELL * 0.5}" font-weight="bold" fill="${inkOn(cell)}" ${FONT}>${text}</text>`;
+    }
+  }
+}
+
+// Everything inside the <svg> element, for pages that add their own layers on top
+export function diagramLayers(diagram: Diagram): string {
+  const { board, lastMove, numbers, marks = [], faded, coordinates } = diagram;
+  const size = board.length;
+  const first = lineAt(0);
+  const last = lineAt(size - 1);
+  const gradient = (color: string, light: string, dark: string) =>
+    `<radialGradient id="covay-stone-${color}" cx="35%" cy="35%" r="70%">` +
+    `<stop offset="0" stop-color="${light}"/><stop offset="1" stop-color="${dark}"/></radialGradient>`;
+  const parts: string[] = [
+    `<defs>${gradient("black", "#5a5a5a", BOARD_COLORS.black)}${gradient("white", "#ffffff", "#cfcfcf")}</defs>`,
+    `<rect width="${diagramSize(size)}" height="${diagramSize(size)}" fill="${BOARD_COLORS.wood}"/>`,
+  ];
+
+  for (let i = 0; i < size; i++) {
+    const at = lineAt(i);
+    parts.push(`<line x1="${first}" y1="${at}" x2="${last}" y2="${at}" stroke="${BOARD_COLORS.line}" stroke-width="1"/>`);
+    parts.push(`<line x1="${at}" y1="${first}" x2="${at}" y2="${last}" stroke="${BOARD_COLORS.line}" stroke-width="1"/>`);
+  }
+  const span = last - first;
+  parts.push(`<rect x="${first}" y="${first}" width="${span}" height="${span}" fill="none" stroke="${BOARD_COLORS.line}" stroke-width="2"/>`);
+  for (const p of starPoints(size)) {
+    parts.push(`<circle cx="${lineAt(p.x)}" cy="${lineAt(p.y)}" r="${CELL * 0.09}" fill="${BOARD_COLORS.line}"/>`);
+  }
+
+  if (coordinates) {
+    const text = (x: number, y: number, label: string) =>
+      `<text x="${x}" y="${y}" font-size="${CELL * 0.36}" fill="${BOARD_COLORS.line}" ${FONT}>${escapeXml(label)}</text>`;
+    const near = MARGIN * 0.45;
+    const far = diagramSize(size) - near;
+    for (let i = 0; i < size; i++) {
+      const column = columnLabel(i, size, coordinates);
+      const row = rowLabel(i, size, coordinates);
+      parts.push(text(lineAt(i), near, column), text(lineAt(i), far, column));
+      parts.push(text(near, lineAt(i), row), text(far, lineAt(i), row));
+    }
+  }
+
+  const marked = new Set(marks.map((m) => pointKey(m.x, m.y)));
+  board.forEach((row, y) =>
+    row.forEach((cell, x) => {
+      if (!cell) return;
+      const cx = lineAt(x);
+      const cy = lineAt(y);
+      const opacity = faded?.has(pointKey(x, y)) ? ' opacity="0.45"' : "";
+      const color = cell === 1 ? "black" : "white";
+      const outline = cell === 2 ? ` stroke="#8a8a8a" stroke-width="1"` : "";
+      parts.push(
+        `<g${opacity}>` +
+          `<circle cx="${cx + CELL * 0.04}" cy="${cy + CELL * 0.06}" r="${STONE_RADIUS}" fill="#000" fill-opacity="0.3"/>` +
+          `<circle cx="${cx}" cy="${cy}" r="${STONE_RADIUS}" fill="url(#covay-stone-${color})"${outline}/>` +
+          `</g>`
+      );
+      const number = numbers?.[y][x] ?? 0;
+      if (number > 0 && !marked.has(pointKey(x, y))) {
+        const fontSize = CELL * (number >= 100 ? 0.34 : 0.42);
+        parts.push(`<text x="${cx}" y="${cy}" font-size="${fontSize}" fill="${inkOn(cell)}" ${FONT}>${number}</text>`);
+      }
+    })
+  );
+
+  // The last move gets a ring unless a number or a mark already sits on it
+  const ringed = lastMove && board[lastMove.y]?.[lastMove.x] && !numbers?.[lastMove.y][lastMove.x];
+  if (ringed && !marked.has(pointKey(lastMove.x, lastMove.y))) {
+    const { x, y } = lastMove;
+    const ring = `r="${STONE_RADIUS * 0.45}" fill="none" stroke="${BOARD_COLORS.last}" stroke-width="3"`;
+    parts.push(`<circle cx="${lineAt(x)}" cy="${lineAt(y)}" ${ring}/>`);
+  }
+  for (const mark of marks) parts.push(markSvg(mark, board[mark.y][mark.x]));
+  return parts.join("");
+}
+
+// A standalone SVG document of the position
+export function diagramSvg(diagram: Diagram): string {
+  const side = diagramSize(diagram.board.length);
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${side} ${side}" width="${side}" height="${side}">` +
+    diagramLayers(diagram) +
+    `</svg>`
+  );
+}
+
+// ---- Text ----
+
+// Sensei's Library diagram ("$$B" header, X/O stones, marks as B/W/#/@/Y/Q, letters
+// for labels on empty points). Move numbers have no place in it and are left out.
+export function diagramAscii(diagram: Diagram): string {
+  const { board, marks = [], toMove = 1, coordinates } = diagram;
+  const size = board.length;
+  const byPoint = new Map(marks.map((m) => [pointKey(m.x, m.y), m]));
+  const stars = new Set(starPoints(size).map((p) => pointKey(p.x, p.y)));
+  const symbol = (cell: Stone, x: number, y: number) => {
+    const mark = byPoint.get(pointKey(x, y));
+    if (mark?.kind === "label") {
+      const letter = (mark.text ?? "").toLowerCase();
+      if (cell === 0 && /^[a-z]$/.test(letter)) return letter;
+    } else if (mark) {
+      return ASCII_SYMBOLS[cell][mark.kind];
+    }
+    return cell === 0 && stars.has(pointKey(x, y)) ? "," : ASCII_SYMBOLS[cell].plain;
+  };
+  const edge = `$$ +${"-".repeat(size * 2 + 1)}+`;
+  const rows = board.map((row, y) => `$$ | ${row.map((cell, x) => symbol(cell, x, y)).join(" ")} |`);
+  return [`$$${toMove === 2 ? "W" : "B"}${coordinates ? "c" : ""}`, edge, ...rows, edge].join("\n");
+}
+
+// ---- Markup ----
+
+// The next free label letter, A to Z
+export function nextLabel(marks: Mark[]): string {
+  const used = new Set(marks.filter((m) => m.kind === "label").map((m) => m.text));
+  for (let code = 65; code <= 90; code++) {
+    const letter = String.fromCharCode(code);
+    if (!used.has(letter)) return letter;
+  }
+  return "?";
+}
+
+// Puts a mark of `kind` on the point, or takes it off when the point already has
+// one of that kind. Any other mark on the point is replaced; null clears the point.
+export function toggleMark(marks: Mark[], x: number, y: number, kind: MarkKind | null): Mark[] {
+  const current = marks.find((m) => m.x === x && m.y === y);
+  const rest = marks.filter((m) => m !== current);
+  if (!kind || current?.kind === kind) return rest;
+  return [...rest, kind === "label" ? { x, y, kind, text: nextLabel(rest) } : { x, y, kind }];
+}
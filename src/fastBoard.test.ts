@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { BLACK, EMPTY, FastBoard, PASS, WHITE } from "./fastBoard";
+import { RULE_SETS, initialTimeline, makeEmptyBoard, mulberry32, playOnTimeline, tryPlay, type Snapshot, type Stone } from "./goRules";
+
+// Rows of "." (empty), "X" (black) and "O" (white), top row first
+function board(...rows: string[]): Stone[][] {
+  return rows.map((row) => [...row].map((c) => (c === "X" ? 1 : c === "O" ? 2 : 0)));
+}
+
+// A random game played on both boards, checking that they agree on every point
+// and after every move; `check` also sees each position.
+function playBoth(seed: number, moves: number, check?: (fast: FastBoard, timeline: Snapshot[]) => void) {
+  const rand = mulberry32(seed);
+  const fast = new FastBoard(9);
+  let timeline = initialTimeline(makeEmptyBoard(9));
+  for (let i = 0; i < moves; i++) {
+    const { board, toMove } = timeline[timeline.length - 1];
+    const legal = fast.points.filter((idx) => {
+      const { x, y } = fast.position(idx);
+      const expected = tryPlay(board, x, y, toMove, { rule: "simple", history: timeline }).legal;
+      expect(fast.isLegal(idx, toMove)).toBe(expected);
+      return expected;
+    });
+    if (!legal.length) break;
+    const idx = legal[Math.floor(rand() * legal.length)];
+    const { x, y } = fast.position(idx);
+    fast.play(idx);
+    timeline = playOnTimeline(timeline, x, y, RULE_SETS.japanese).timeline!;
+    expect(fast.toStones()).toEqual(timeline[timeline.length - 1].board);
+    check?.(fast, timeline);
+  }
+  return { fast, timeline };
+}
+
+describe("FastBoard", () => {
+  it("agrees with the rules engine over random games", () => {
+    for (const seed of [1, 2, 3]) playBoth(seed, 150);
+  });
+
+  it("undoes moves back to every earlier position", () => {
+    const { fast, timeline } = playBoth(7, 120);
+    for (let i = timeline.length - 1; i > 0; i--) {
+      expect(fast.undo()).toBe(true);
+      expect(fast.toStones()).toEqual(timeline[i - 1].board);
+      expect(fast.toMove).toBe(timeline[i - 1].toMove);
+    }
+    expect(fast.undo()).toBe(false);
+  });
+
+  it("copies a board, chains included", () => {
+    const { fast } = playBoth(5, 60);
+    const copy = new FastBoard(9, BLACK, false);
+    copy.copyFrom(fast);
+    expect(copy.toStones()).toEqual(fast.toStones());
+    for (const idx of fast.points) expect(copy.isLegal(idx, copy.toMove)).toBe(fast.isLegal(idx, fast.toMove));
+  });
+
+  it("closes the ko point for one move", () => {
+    const fast = FastBoard.fromStones(board(".XO..", "X.XO.", ".XO..", ".....", "....."), 2);
+    expect(fast.play(fast.index(1, 1))).toBe(1);
+    const retake = fast.index(2, 1);
+    expect(fast.koPoint).toBe(retake);
+    expect(fast.isLegal(retake, BLACK)).toBe(false);
+    fast.pass();
+    expect(fast.koPoint).toBe(-1);
+    expect(fast.lastMove).toBe(PASS);
+  });
+
+  it("refuses suicide and tracks atari", () => {
+    const fast = FastBoard.fromStones(board(".O...", "O....", ".....", ".....", "....."), 1);
+    expect(fast.isLegal(fast.index(0, 0), BLACK)).toBe(false);
+    expect(fast.isLegal(fast.index(0, 0), WHITE)).toBe(true);
+    fast.play(fast.index(2, 0));
+    expect(fast.inAtari(fast.index(1, 0))).toBe(false);
+    fast.pass();
+    fast.play(fast.index(1, 1));
+    expect(fast.inAtari(fast.index(1, 0))).toBe(true);
+    expect(fast.atariLiberty(fast.index(1, 0))).toBe(fast.index(0, 0));
+  });
+
+  it("knows eyes, owners and the area score", () => {
+    const fast = FastBoard.fromStones(board(".X.O.", "XX.OO", ".....", ".....", "....."), 1);
+    expect(fast.isEye(fast.index(0, 0), BLACK)).toBe(true);
+    expect(fast.isEye(fast.index(2, 0), BLACK)).toBe(false);
+    expect(fast.owner(fast.index(0, 0))).toBe(BLACK);
+    expect(fast.owner(fast.index(4, 0))).toBe(WHITE);
+    expect(fast.owner(fast.index(2, 0))).toBe(EMPTY);
+    // Black: 3 stones and 1 point; white: 3 stones, 1 point and komi
+    expect(fast.score(0.5)).toBe(-0.5);
+  });
+});
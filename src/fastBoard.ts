@@ -0,0 +1,318 @@
+import type { Position, Stone } from "./goRules";
+
+// Incremental board for engines. Stones live in a flat typed array with a
+// one-point EDGE border, so neighbour lookups need no bounds checks. Every chain
+// keeps its stones in a circular linked list plus pseudo-liberty counts, so a move
+// touches only the chains next to it instead of rebuilding groups from scratch.
+// Moves can be taken back with undo(), which replays a journal of overwritten cells.
+
+// ---- Types & Constants ----
+
+export const EMPTY = 0;
+export const BLACK = 1;
+export const WHITE = 2;
+export const EDGE = 3;
+export const PASS = -1;
+
+interface UndoMark {
+  journal: number; // journal length before the move
+  toMove: number;
+  koPoint: number;
+  passes: number;
+  lastMove: number;
+}
+
+// ---- Board ----
+
+export class FastBoard {
+  readonly size: number;
+  readonly stride: number;
+  readonly points: number[]; // indices of on-board points
+  readonly dirs: number[];
+  cells: Uint8Array;
+  toMove: number;
+  koPoint = -1; // point the side to move may not retake
+  passes = 0;
+  lastMove = PASS;
+  // Chain data. head/next are per stone; the counters are valid at the chain head only.
+  // Pseudo-liberties count each (stone, adjacent empty point) pair, so a shared liberty
+  // counts more than once; a chain is in atari exactly when all pairs name the same point.
+  private head: Int32Array;
+  private next: Int32Array;
+  private stones: Int32Array;
+  private libs: Int32Array;
+  private libSum: Int32Array;
+  private libSumSq: Int32Array;
+  private arrays: (Uint8Array | Int32Array)[];
+  private journal: number[] = []; // (array, index, old value) triples
+  private marks: UndoMark[] = [];
+  private readonly undoable: boolean;
+
+  // Playout boards that are reset with copyFrom() can skip the undo journal.
+  constructor(size: number, toMove: number = BLACK, undoable = true) {
+    this.undoable = undoable;
+    this.size = size;
+    this.stride = size + 2;
+    const area = this.stride * this.stride;
+    this.cells = new Uint8Array(area).fill(EDGE);
+    this.points = [];
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        const idx = this.index(x, y);
+        this.cells[idx] = EMPTY;
+        this.points.push(idx);
+      }
+    }
+    this.dirs = [1, -1, this.stride, -this.stride];
+    this.toMove = toMove;
+    this.head = new Int32Array(area);
+    this.next = new Int32Array(area);
+    this.stones = new Int32Array(area);
+    this.libs = new Int32Array(area);
+    this.libSum = new Int32Array(area);
+    this.libSumSq = new Int32Array(area);
+    this.arrays = [this.cells, this.head, this.next, this.stones, this.libs, this.libSum, this.libSumSq];
+  }
+
+  static fromStones(board: Stone[][], toMove: Stone): FastBoard {
+    const b = new FastBoard(board.length, toMove);
+    for (let y = 0; y < board.length; y++) {
+      for (let x = 0; x < board.length; x++) {
+        if (board[y][x] !== EMPTY) b.place(b.index(x, y), board[y][x]);
+      }
+    }
+    b.journal.length = 0;
+    return b;
+  }
+
+  index(x: number, y: number): number {
+    return (y + 1) * this.stride + (x + 1);
+  }
+
+  position(idx: number): Position {
+    return { x: (idx % this.stride) - 1, y: Math.floor(idx / this.stride) - 1 };
+  }
+
+  // Copy another board of the same size; the undo history is dropped.
+  copyFrom(other: FastBoard) {
+    for (let i = 0; i < this.arrays.length; i++) this.arrays[i].set(other.arrays[i]);
+    this.toMove = other.toMove;
+    this.koPoint = other.koPoint;
+    this.passes = other.passes;
+    this.lastMove = other.lastMove;
+    this.journal.length = 0;
+    this.marks.length = 0;
+  }
+
+  private write(array: number, idx: number, value: number) {
+    const arr = this.arrays[array];
+    if (this.undoable) this.journal.push(array, idx, arr[idx]);
+    arr[idx] = value;
+  }
+
+  private addLib(chain: number, lib: number, sign: number) {
+    this.write(4, chain, this.libs[chain] + sign);
+    this.write(5, chain, this.libSum[chain] + sign * lib);
+    this.write(6, chain, this.libSumSq[chain] + sign * lib * lib);
+  }
+
+  chainAt(idx: number): number {
+    return this.head[idx];
+  }
+
+  chainSize(idx: number): number {
+    return this.stones[this.head[idx]];
+  }
+
+  // True when the chain at idx has exactly one real liberty
+  inAtari(idx: number): boolean {
+    const h = this.head[idx];
+    const libs = this.libs[h];
+    return libs > 0 && libs * this.libSumSq[h] === this.libSum[h] * this.libSum[h];
+  }
+
+  // The only liberty of a chain in atari
+  atariLiberty(idx: number): number {
+    const h = this.head[idx];
+    return this.libSum[h] / this.libs[h];
+  }
+
+  hasLiberties(idx: number): boolean {
+    return this.libs[this.head[idx]] > 0;
+  }
+
+  // Put a stone on the board and update the neighbouring chains. No captures.
+  private place(idx: number, color: number) {
+    this.write(0, idx, color);
+    this.write(1, idx, idx);
+    this.write(2, idx, idx);
+    this.write(3, idx, 1);
+    this.write(4, idx, 0);
+    this.write(5, idx, 0);
+    this.write(6, idx, 0);
+    for (const d of this.dirs) {
+      const n = idx + d;
+      const cell = this.cells[n];
+      if (cell === EMPTY) this.addLib(idx, n, 1);
+      else if (cell !== EDGE) this.addLib(this.head[n], idx, -1);
+    }
+    for (const d of this.dirs) {
+      const n = idx + d;
+      if (this.cells[n] === color && this.head[n] !== this.head[idx]) this.merge(this.head[idx], this.head[n]);
+    }
+  }
+
+  // Join two chains, relabelling the smaller one.
+  private merge(a: number, b: number) {
+    if (this.stones[a] < this.stones[b]) [a, b] = [b, a];
+    let s = b;
+    do {
+      this.write(1, s, a);
+      s = this.next[s];
+    } while (s !== b);
+    const nextA = this.next[a];
+    this.write(2, a, this.next[b]);
+    this.write(2, b, nextA);
+    this.write(3, a, this.stones[a] + this.stones[b]);
+    this.write(4, a, this.libs[a] + this.libs[b]);
+    this.write(5, a, this.libSum[a] + this.libSum[b]);
+    this.write(6, a, this.libSumSq[a] + this.libSumSq[b]);
+  }
+
+  private removeChain(chain: number): number {
+    let s = chain;
+    do {
+      this.write(0, s, EMPTY);
+      s = this.next[s];
+    } while (s !== chain);
+    do {
+      for (const d of this.dirs) {
+        const n = s + d;
+        const cell = this.cells[n];
+        if (cell === BLACK || cell === WHITE) this.addLib(this.head[n], s, 1);
+      }
+      s = this.next[s];
+    } while (s !== chain);
+    return this.stones[chain];
+  }
+
+  isLegal(idx: number, color: number): boolean {
+    if (this.cells[idx] !== EMPTY || idx === this.koPoint) return false;
+    const opponent = 3 - color;
+    for (const d of this.dirs) {
+      const n = idx + d;
+      const cell = this.cells[n];
+      if (cell === EMPTY) return true;
+      // Joining a friendly chain that keeps another liberty, or capturing an opponent chain
+      if (cell === color && !this.inAtari(n)) return true;
+      if (cell === opponent && this.inAtari(n)) return true;
+    }
+    return false;
+  }
+
+  // Surrounded by own stones with at most one diagonal enemy (none on the edge)
+  isEye(idx: number, color: number): boolean {
+    for (const d of this.dirs) {
+      const cell = this.cells[idx + d];
+      if (cell !== color && cell !== EDGE) return false;
+    }
+    const s = this.stride;
+    let enemies = 0;
+    let edges = 0;
+    for (const d of [s + 1, s - 1, -s + 1, -s - 1]) {
+      const cell = this.cells[idx + d];
+      if (cell === EDGE) edges++;
+      else if (cell === 3 - color) enemies++;
+    }
+    return edges > 0 ? enemies === 0 : enemies <= 1;
+  }
+
+  private saveMark() {
+    if (!this.undoable) return;
+    this.marks.push({
+      journal: this.journal.length,
+      toMove: this.toMove,
+      koPoint: this.koPoint,
+      passes: this.passes,
+      lastMove: this.lastMove,
+    });
+  }
+
+  // Play a legal move for the side to move; returns the number of stones captured.
+  play(idx: number): number {
+    this.saveMark();
+    const color = this.toMove;
+    const opponent = 3 - color;
+    this.place(idx, color);
+    let captured = 0;
+    let capturedAt = -1;
+    for (const d of this.dirs) {
+      const n = idx + d;
+      if (this.cells[n] === opponent && !this.hasLiberties(n)) {
+        captured += this.removeChain(this.head[n]);
+        capturedAt = n;
+      }
+    }
+    // A single stone that captured a single stone and is left in atari creates a ko
+    this.koPoint = captured === 1 && this.chainSize(idx) === 1 && this.inAtari(idx) ? capturedAt : -1;
+    this.toMove = opponent;
+    this.passes = 0;
+    this.lastMove = idx;
+    return captured;
+  }
+
+  pass() {
+    this.saveMark();
+    this.toMove = 3 - this.toMove;
+    this.koPoint = -1;
+    this.passes++;
+    this.lastMove = PASS;
+  }
+
+  // Take back the last play() or pass(). Returns false when there is nothing to undo.
+  undo(): boolean {
+    const mark = this.marks.pop();
+    if (!mark) return false;
+    const j = this.journal;
+    while (j.length > mark.journal) {
+      const old = j.pop()!;
+      const idx = j.pop()!;
+      this.arrays[j.pop()!][idx] = old;
+    }
+    this.toMove = mark.toMove;
+    this.koPoint = mark.koPoint;
+    this.passes = mark.passes;
+    this.lastMove = mark.lastMove;
+    return true;
+  }
+
+  // Area owner of a point at the end of a playout: its stone, or the only color next
+  // to it (EMPTY if both or neither).
+  owner(idx: number): number {
+    const cell = this.cells[idx];
+    if (cell !== EMPTY) return cell;
+    let touches = 0;
+    for (const d of this.dirs) {
+      const n = this.cells[idx + d];
+      if (n === BLACK || n === WHITE) touches |= n;
+    }
+    return touches === BLACK || touches === WHITE ? touches : EMPTY;
+  }
+
+  // Area score (black minus white, komi included); empty points count for a color that touches them alone.
+  score(komi: number): number {
+    let score = -komi;
+    for (const idx of this.points) {
+      const owner = this.owner(idx);
+      if (owner === BLACK) score++;
+      else if (owner === WHITE) score--;
+    }
+    return score;
+  }
+
+  toStones(): Stone[][] {
+    return Array.from({ length: this.size }, (_, y) =>
+      Array.from({ length: this.size }, (_, x) => this.cells[this.index(x, y)] as Stone)
+    );
+  }
+}
@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyMove,
+  canUndoToTurn,
+  checkMove,
+  currentPosition,
+  finishByScore,
+  handicapStonesLeft,
+  newGame,
+  pass,
+  placeHandicapStone,
+  redo,
+  resign,
+  resumePlay,
+  timeout,
+  toggleDead,
+  undo,
+  undoToTurn,
+  type GameState,
+} from "./gameState";
+import { RULE_SETS, type RuleSetId } from "./goRules";
+
+function game(ruleSet: RuleSetId = "chinese", handicap = 0): GameState {
+  return newGame({ size: 9, rules: RULE_SETS[ruleSet], komi: 7.5, handicap });
+}
+
+// Plays the points in turn, failing on an illegal one
+function play(state: GameState, ...points: [number, number][]): GameState {
+  for (const [x, y] of points) {
+    const res = applyMove(state, x, y);
+    expect(res.legal).toBe(true);
+    state = res.state;
+  }
+  return state;
+}
+
+describe("newGame", () => {
+  it("puts fixed handicap stones down and lets white start", () => {
+    const state = game("chinese", 2);
+    const { board, toMove } = currentPosition(state);
+    expect(board.flat().filter((c) => c === 1)).toHaveLength(2);
+    expect(toMove).toBe(2);
+    expect(state.phase).toBe("playing");
+  });
+
+  it("treats a handicap of one as an even game", () => {
+    const state = game("chinese", 1);
+    expect(state.handicap).toBe(0);
+    expect(currentPosition(state).toMove).toBe(1);
+  });
+
+  it("starts play once every free handicap stone is placed", () => {
+    let state = newGame({ size: 9, rules: RULE_SETS.chinese, komi: 0.5, handicap: 2, placement: "free" });
+    expect(state.phase).toBe("placing");
+    state = placeHandicapStone(state, 2, 2);
+    expect(handicapStonesLeft(state)).toBe(1);
+    state = placeHandicapStone(state, 2, 2); // taken back
+    expect(handicapStonesLeft(state)).toBe(2);
+    state = placeHandicapStone(placeHandicapStone(state, 2, 2), 6, 6);
+    expect(state.phase).toBe("playing");
+    expect(currentPosition(state).toMove).toBe(2);
+  });
+});
+
+describe("moves", () => {
+  it("alternates colors and refuses an occupied point", () => {
+    const state = play(game(), [4, 4], [3, 3]);
+    expect(currentPosition(state).toMove).toBe(1);
+    expect(applyMove(state, 4, 4)).toMatchObject({ legal: false, reason: "occupied" });
+  });
+
+  it("checks a move for the side the caller plays", () => {
+    const state = play(game(), [4, 4]);
+    expect(checkMove(state, 3, 3, 1)).toMatchObject({ legal: false, reason: "notYourTurn" });
+    expect(checkMove(state, 3, 3, 2)).toMatchObject({ legal: true, color: 2, captures: 0 });
+  });
+
+  it("refuses moves once play has stopped", () => {
+    const state = resign(game(), 1);
+    expect(applyMove(state, 4, 4)).toMatchObject({ legal: false, reason: "gameOver" });
+    expect(checkMove(state, 4, 4).reason).toBe("gameOver");
+  });
+});
+
+describe("ending play", () => {
+  it("moves to dead-stone marking after two passes", () => {
+    const state = pass(pass(game()));
+    expect(state.phase).toBe("scoring");
+    expect(state.result).toBeNull();
+  });
+
+  it("counts straight away under rules without dead-stone marking", () => {
+    const state = pass(pass(play(game("tromp-taylor"), [4, 4])));
+    expect(state.phase).toBe("finished");
+    expect(state.result).toMatchObject({ winner: "black", blackScore: 81, whiteScore: 7.5 });
+  });
+
+  it("makes white pass last under AGA rules, with a prisoner for every pass", () => {
+    let state = pass(pass(game("aga", 2))); // white, then black
+    expect(state.phase).toBe("playing");
+    state = pass(state);
+    expect(state.phase).toBe("scoring");
+    expect(currentPosition(state).captures).toEqual({ black: 2, white: 1 });
+  });
+
+  it("marks dead stones only while scoring, and resumes play", () => {
+    let state = pass(pass(play(game(), [4, 4])));
+    state = toggleDead(state, 4, 4);
+    expect([...state.dead]).toEqual(["4,4"]);
+    state = resumePlay(state);
+    expect(state.phase).toBe("playing");
+    expect(state.dead.size).toBe(0);
+    expect(toggleDead(state, 4, 4)).toBe(state);
+  });
+
+  it("scores an empty board with no komi as a draw", () => {
+    const state = newGame({ size: 9, rules: RULE_SETS.chinese, komi: 0 });
+    expect(finishByScore(state).result?.winner).toBe("draw");
+  });
+
+  it("records resignation and loss on time", () => {
+    expect(resign(game(), 2).result).toMatchObject({ winner: "black", resignation: "white" });
+    const lost = timeout(game(), 1).result!;
+    expect(lost).toMatchObject({ winner: "white", timeout: "black" });
+    expect(lost.resignation).toBeUndefined();
+  });
+});
+
+describe("undo and redo", () => {
+  it("takes moves back and plays them again", () => {
+    const played = play(game(), [4, 4], [3, 3]);
+    const undone = undo(played);
+    expect(undone.timeline).toHaveLength(2);
+    expect(redo(undone).timeline).toEqual(played.timeline);
+    expect(play(undone, [5, 5]).redo).toEqual([]);
+  });
+
+  it("reopens a finished game", () => {
+    const state = undo(resign(play(game(), [4, 4]), 1));
+    expect(state.phase).toBe("playing");
+    expect(state.result).toBeNull();
+  });
+
+  it("rewinds to the last turn of a color", () => {
+    const state = play(game(), [4, 4], [3, 3], [5, 5]);
+    const back = undoToTurn(state, 1);
+    expect(back.timeline).toHaveLength(3);
+    expect(currentPosition(back).toMove).toBe(1);
+    expect(canUndoToTurn(game(), 1)).toBe(false);
+  });
+});
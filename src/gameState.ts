@@ -0,0 +1,246 @@
+import {
+  computeScore,
+  handicapPoints,
+  initialTimeline,
+  makeEmptyBoard,
+  passOnTimeline,
+  playOnTimeline,
+  toggleDeadGroup,
+  tryPlay,
+  type Position,
+  type RuleSet,
+  type RuleViolation,
+  type Snapshot,
+  type Stone,
+} from "./goRules";
+
+// Pure game-state transitions shared by every mode, engine and replay. Each
+// function takes a GameState and returns a new one; nothing is mutated.
+
+// ---- Types ----
+
+export type GamePhase = "placing" | "playing" | "scoring" | "finished"; // placing: free handicap stones
+
+export type HandicapPlacement = "fixed" | "free";
+
+// A refused move: the board's reasons, the other side is to move, or play has
+// stopped (the game is over or its dead stones are being marked)
+export type IllegalReason = RuleViolation | "notYourTurn" | "gameOver";
+
+// What a move at a point would do, without playing it
+export interface MoveCheck {
+  legal: boolean;
+  color: Stone; // the side that would play
+  captures: number; // stones it would take
+  reason?: IllegalReason;
+  group?: Position[]; // stones to point at when illegal, see tryPlay
+}
+
+export interface Players {
+  black: string;
+  white: string;
+}
+
+export interface GameResult {
+  winner: "black" | "white" | "draw";
+  blackScore: number;
+  whiteScore: number;
+  territory: { black: number; white: number };
+  resignation?: "black" | "white"; // color that resigned
+  timeout?: "black" | "white"; // color that ran out of time
+}
+
+export interface GameState {
+  timeline: Snapshot[]; // every position so far, current one last
+  redo: Snapshot[]; // undone positions, most recent last
+  rules: RuleSet;
+  komi: number;
+  handicap: number; // handicap stones, 0 for an even game
+  players: Players;
+  phase: GamePhase;
+  dead: Set<string>; // stones marked dead during scoring
+  result: GameResult | null;
+}
+
+export interface GameOptions {
+  size: number;
+  rules: RuleSet;
+  komi: number;
+  handicap?: number;
+  placement?: HandicapPlacement; // defaults to fixed star points
+  players?: Players;
+  timeline?: Snapshot[]; // start from an existing position, e.g. an SGF replay
+}
+
+// Unnamed players; the interface shows the color in its own language instead
+export const DEFAULT_PLAYERS: Players = { black: "", white: "" };
+
+// ---- State transitions ----
+
+// With two or more handicap stones white moves first. Fixed stones go on the star
+// points right away; free placement starts in the "placing" phase instead.
+export function newGame(options: GameOptions): GameState {
+  const handicap = options.handicap && options.handicap >= 2 ? options.handicap : 0;
+  const free = handicap > 0 && options.placement === "free" && !options.timeline;
+  let timeline = options.timeline;
+  if (!timeline) {
+    const board = makeEmptyBoard(options.size);
+    if (!free) for (const p of handicapPoints(options.size, handicap)) board[p.y][p.x] = 1;
+    timeline = initialTimeline(board, handicap > 0 && !free ? 2 : 1);
+  }
+  return {
+    timeline,
+    redo: [],
+    rules: options.rules,
+    komi: options.komi,
+    handicap,
+    players: options.players ?? DEFAULT_PLAYERS,
+    phase: free ? "placing" : "playing",
+    dead: new Set(),
+    result: null,
+  };
+}
+
+export function handicapStonesLeft(state: GameState): number {
+  if (state.phase !== "placing") return 0;
+  const placed = state.timeline[0].board.flat().filter((c) => c === 1).length;
+  return state.handicap - placed;
+}
+
+// Free handicap: put a black stone at (x, y), or take it back if one is there.
+// Play starts, with white to move, once every stone is on the board.
+export function placeHandicapStone(state: GameState, x: number, y: number): GameState {
+  if (state.phase !== "placing") return state;
+  const board = state.timeline[0].board.map((row) => row.slice() as Stone[]);
+  board[y][x] = board[y][x] === 1 ? 0 : 1;
+  const next = { ...state, timeline: initialTimeline(board) };
+  if (handicapStonesLeft(next) > 0) return next;
+  return { ...next, timeline: initialTimeline(board, 2), phase: "playing" };
+}
+
+export function currentPosition(state: GameState): Snapshot {
+  return state.timeline[state.timeline.length - 1];
+}
+
+// `color` defaults to the player to move; GTP and board setup may play either side.
+export function applyMove(
+  state: GameState,
+  x: number,
+  y: number,
+  color?: Stone
+): { legal: boolean; state: GameState; reason?: IllegalReason; group?: Position[] } {
+  if (state.phase !== "playing") return { legal: false, state, reason: "gameOver" };
+  const res = playOnTimeline(state.timeline, x, y, state.rules, color);
+  if (!res.timeline) return { legal: false, state, reason: res.reason, group: res.group };
+  return { legal: true, state: { ...state, timeline: res.timeline, redo: [] } };
+}
+
+// Checks a move by the player to move; `player` is the side the caller controls,
+// when it only controls one.
+export function checkMove(state: GameState, x: number, y: number, player?: Stone): MoveCheck {
+  const { board, toMove } = currentPosition(state);
+  if (state.phase !== "playing") return { legal: false, color: toMove, captures: 0, reason: "gameOver" };
+  if (player && player !== toMove) return { legal: false, color: toMove, captures: 0, reason: "notYourTurn" };
+  const res = tryPlay(board, x, y, toMove, { rule: state.rules.koRule, history: state.timeline }, state.rules.suicide);
+  return { legal: res.legal, color: toMove, captures: res.captured ?? 0, reason: res.reason, group: res.group };
+}
+
+// Two passes in a row end play; with pass stones white must pass last, so both
+// sides hand over the same number of stones.
+function playEnded(rules: RuleSet, position: Snapshot): boolean {
+  return position.passes >= 2 && (!rules.passStones || position.move?.color === 2);
+}
+
+// Ending play moves the game to the dead-stone marking phase, or straight to the
+// count under rules without one.
+export function pass(state: GameState, color?: Stone): GameState {
+  if (state.phase !== "playing") return state;
+  const timeline = passOnTimeline(state.timeline, color, state.rules.passStones);
+  const next: GameState = { ...state, timeline, redo: [], phase: "playing", dead: new Set() };
+  if (!playEnded(state.rules, timeline[timeline.length - 1])) return next;
+  return state.rules.markDead ? { ...next, phase: "scoring" } : finishByScore(next);
+}
+
+export function resign(state: GameState, color: Stone): GameState {
+  if (state.phase === "finished") return state;
+  const { blackScore, whiteScore, territory } = computeScore(
+    currentPosition(state).board,
+    currentPosition(state).captures,
+    state.komi,
+    state.rules.scoring
+  );
+  return {
+    ...state,
+    phase: "finished",
+    dead: new Set(),
+    result: {
+      winner: color === 1 ? "white" : "black",
+      blackScore,
+      whiteScore,
+      territory,
+      resignation: color === 1 ? "black" : "white",
+    },
+  };
+}
+
+// Loss on time for `color`; the scores of the current position are kept for the record.
+export function timeout(state: GameState, color: Stone): GameState {
+  const res = resign(state, color);
+  if (!res.result) return res;
+  const { resignation, ...result } = res.result;
+  return { ...res, result: { ...result, timeout: resignation } };
+}
+
+export function toggleDead(state: GameState, x: number, y: number): GameState {
+  if (state.phase !== "scoring" || !state.rules.markDead) return state;
+  return { ...state, dead: toggleDeadGroup(currentPosition(state).board, state.dead, x, y) };
+}
+
+// Leave the scoring phase; the player after the last passer moves next.
+export function resumePlay(state: GameState): GameState {
+  if (state.phase !== "scoring") return state;
+  const timeline = [...state.timeline.slice(0, -1), { ...currentPosition(state), passes: 0 }];
+  return { ...state, timeline, phase: "playing", dead: new Set() };
+}
+
+// Count the current position (with any dead stones marked) and end the game.
+export function finishByScore(state: GameState): GameState {
+  if (state.phase === "finished") return state;
+  const { board, captures } = currentPosition(state);
+  const { blackScore, whiteScore, territory } = computeScore(board, captures, state.komi, state.rules.scoring, state.dead);
+  const winner: GameResult["winner"] =
+    Math.abs(blackScore - whiteScore) < 1e-6 ? "draw" : blackScore > whiteScore ? "black" : "white";
+  return { ...state, phase: "finished", result: { winner, blackScore, whiteScore, territory } };
+}
+
+function reopen(state: GameState, timeline: Snapshot[], redo: Snapshot[]): GameState {
+  const scoring = playEnded(state.rules, timeline[timeline.length - 1]);
+  return { ...state, timeline, redo, phase: scoring ? "scoring" : "playing", dead: new Set(), result: null };
+}
+
+// Take back the last `plies` moves (passes included); they can be redone.
+export function undo(state: GameState, plies = 1): GameState {
+  const keep = Math.max(1, state.timeline.length - plies);
+  if (keep === state.timeline.length) return state;
+  const undone = state.timeline.slice(keep).reverse();
+  return reopen(state, state.timeline.slice(0, keep), [...state.redo, ...undone]);
+}
+
+export function redo(state: GameState): GameState {
+  if (!state.redo.length) return state;
+  const next = state.redo[state.redo.length - 1];
+  return reopen(state, [...state.timeline, next], state.redo.slice(0, -1));
+}
+
+// Rewind to the previous position where `color` was to move, e.g. a takeback
+// against the AI that removes the machine's reply along with the human move.
+export function undoToTurn(state: GameState, color: Stone): GameState {
+  let i = state.timeline.length - 2;
+  while (i >= 0 && state.timeline[i].toMove !== color) i--;
+  if (i < 0) return state;
+  return undo(state, state.timeline.length - 1 - i);
+}
+
+export function canUndoToTurn(state: GameState, color: Stone): boolean {
+  return state.timeline.slice(0, -1).some((s) => s.toMove === color);
+}
@@ -0,0 +1,214 @@
+import { passOnTimeline, playOnTimeline, type Position, type RuleSet, type RuleViolation, type Snapshot } from "./goRules";
+import {
+  SgfError,
+  escapeSgfText,
+  hasSgfSetup,
+  parseSgfCollection,
+  playSgfMove,
+  sgfGameFromNodes,
+  sgfMainLine,
+  sgfMoveNode,
+  sgfNodeMove,
+  sgfRootProperties,
+  sgfRuleSet,
+  sgfStart,
+  type SgfGame,
+  type SgfNode,
+  type SgfTree,
+} from "./sgf";
+
+// A game record with variations, for reviewing "what if" lines. Each node keeps
+// the position after its move, so any line reads straight off the tree. A place
+// in the tree is the list of node ids from the root down (the root itself left
+// out), which stays valid across edits, unlike the node objects. Like gameState,
+// every edit returns a new tree.
+
+// ---- Types & Constants ----
+
+export interface GameTreeNode {
+  id: number;
+  position: Snapshot; // after this node's move; the start position at the root
+  comment: string; // C
+  children: GameTreeNode[]; // first child is the main line
+}
+
+export interface GameTree {
+  info: Omit<SgfGame, "moves">; // root properties
+  rules: RuleSet;
+  root: GameTreeNode;
+  nextId: number;
+}
+
+// ---- Building ----
+
+function appendComment(node: GameTreeNode, comment: string | undefined) {
+  if (comment) node.comment = node.comment ? `${node.comment}\n\n${comment}` : comment;
+}
+
+// Hangs an SGF sequence and its variations below `parent`, checking every move
+function grow(tree: GameTree, parent: GameTreeNode, timeline: Snapshot[], { nodes, variations }: SgfTree) {
+  let node = parent;
+  for (const sgfNode of nodes) {
+    const number = timeline.length;
+    if (hasSgfSetup(sgfNode)) throw new SgfError({ code: "setupMidGame", node: number });
+    const move = sgfNodeMove(sgfNode, tree.info.size, number);
+    const comment = sgfNode.get("C")?.[0];
+    if (!move) {
+      // A node without a move only adds its comment to the line
+      appendComment(node, comment);
+      continue;
+    }
+    timeline = playSgfMove(timeline, move, tree.rules, number);
+    const child: GameTreeNode = { id: tree.nextId++, position: timeline[timeline.length - 1], comment: "", children: [] };
+    appendComment(child, comment);
+    node.children.push(child);
+    node = child;
+  }
+  for (const variation of variations) grow(tree, node, timeline, variation);
+}
+
+// The first game of an SGF file with all its variations. Records without a known
+// RU fall back to `rules`.
+export function treeFromSgf(text: string, rules: RuleSet): GameTree {
+  const sgf = parseSgfCollection(text)[0];
+  const [rootNode, ...rest] = sgf.nodes;
+  const { moves, ...info } = sgfGameFromNodes(sgfMainLine(sgf));
+  const start = sgfStart({ ...info, moves });
+  const tree: GameTree = {
+    info,
+    rules: sgfRuleSet(info.rules) ?? rules,
+    root: { id: 0, position: start[0], comment: rootNode.get("C")?.[0] ?? "", children: [] },
+    nextId: 1,
+  };
+  // A move in the root node itself is rare but legal SGF; it becomes the first child
+  const rootMove: SgfNode = new Map([...rootNode].filter(([ident]) => ident === "B" || ident === "W"));
+  grow(tree, tree.root, start, { nodes: [rootMove, ...rest], variations: sgf.variations });
+  return tree;
+}
+
+// ---- Paths ----
+
+// The nodes from the root down to the place `ids`, root included
+export function nodePath(tree: GameTree, ids: number[]): GameTreeNode[] {
+  const path = [tree.root];
+  for (const id of ids) {
+    const next = path[path.length - 1].children.find((c) => c.id === id);
+    if (!next) break;
+    path.push(next);
+  }
+  return path;
+}
+
+export function timelineOf(path: GameTreeNode[]): Snapshot[] {
+  return path.map((node) => node.position);
+}
+
+// The line through `ids`: the path to it, then on along the first children
+export function lineThrough(tree: GameTree, ids: number[]): GameTreeNode[] {
+  const line = nodePath(tree, ids);
+  for (let node = line[line.length - 1].children[0]; node; node = node.children[0]) line.push(node);
+  return line;
+}
+
+export function idsOf(path: GameTreeNode[]): number[] {
+  return path.slice(1).map((node) => node.id);
+}
+
+export function isMainLine(tree: GameTree, ids: number[]): boolean {
+  return nodePath(tree, ids).every((node, i, path) => i === 0 || path[i - 1].children[0] === node);
+}
+
+// ---- Editing ----
+
+function updateNode(node: GameTreeNode, ids: number[], update: (node: GameTreeNode) => GameTreeNode): GameTreeNode {
+  if (!ids.length) return update(node);
+  const [id, ...rest] = ids;
+  return { ...node, children: node.children.map((c) => (c.id === id ? updateNode(c, rest, update) : c)) };
+}
+
+// Plays a point (null for a pass) after the place `ids`. A move the tree already
+// has is followed; a new one opens a variation after the existing ones.
+export function playInTree(
+  tree: GameTree,
+  ids: number[],
+  point: Position | null
+): { tree: GameTree; ids: number[] } | { reason: RuleViolation; group: Position[] } {
+  const path = nodePath(tree, ids);
+  const timeline = timelineOf(path);
+  const { toMove } = timeline[timeline.length - 1];
+  const known = path[path.length - 1].children.find((c) => {
+    const move = c.position.move!;
+    return move.color === toMove && (point ? move.point?.x === point.x && move.point.y === point.y : !move.point);
+  });
+  if (known) return { tree, ids: [...ids, known.id] };
+  let next: Snapshot[];
+  if (point) {
+    const res = playOnTimeline(timeline, point.x, point.y, tree.rules);
+    if (!res.timeline) return { reason: res.reason!, group: res.group ?? [] };
+    next = res.timeline;
+  } else {
+    next = passOnTimeline(timeline, toMove, tree.rules.passStones);
+  }
+  const child: GameTreeNode = { id: tree.nextId, position: next[next.length - 1], comment: "", children: [] };
+  const root = updateNode(tree.root, idsOf(path), (node) => ({ ...node, children: [...node.children, child] }));
+  return { tree: { ...tree, root, nextId: tree.nextId + 1 }, ids: [...idsOf(path), child.id] };
+}
+
+export function setComment(tree: GameTree, ids: number[], comment: string): GameTree {
+  return { ...tree, root: updateNode(tree.root, ids, (node) => ({ ...node, comment })) };
+}
+
+// Makes the line through `ids` the main line: every node on it becomes the first child
+export function promoteLine(tree: GameTree, ids: number[]): GameTree {
+  const promote = (node: GameTreeNode, rest: number[]): GameTreeNode => {
+    if (!rest.length) return node;
+    const [id, ...deeper] = rest;
+    const chosen = node.children.find((c) => c.id === id);
+    if (!chosen) return node;
+    return { ...node, children: [promote(chosen, deeper), ...node.children.filter((c) => c !== chosen)] };
+  };
+  return { ...tree, root: promote(tree.root, ids) };
+}
+
+// Removes the node at `ids` with everything after it; the start cannot be removed
+export function deleteNode(tree: GameTree, ids: number[]): GameTree {
+  if (!ids.length) return tree;
+  const id = ids[ids.length - 1];
+  return {
+    ...tree,
+    root: updateNode(tree.root, ids.slice(0, -1), (node) => ({ ...node, children: node.children.filter((c) => c.id !== id) })),
+  };
+}
+
+// ---- SGF ----
+
+function nodeSgf(node: GameTreeNode): string {
+  return sgfMoveNode(node.position.move!) + (node.comment ? `C[${escapeSgfText(node.comment)}]` : "");
+}
+
+// The sequence from `node` on: single children run on, branches become variations
+function sequenceSgf(node: GameTreeNode): string {
+  let text = "";
+  let current = node;
+  for (;;) {
+    text += nodeSgf(current);
+    if (current.children.length !== 1) break;
+    current = current.children[0];
+  }
+  return text + current.children.map((child) => `(${sequenceSgf(child)})`).join("");
+}
+
+export function treeToSgf(tree: GameTree): string {
+  const { root } = tree;
+  const comment = root.comment ? `C[${escapeSgfText(root.comment)}]` : "";
+  const moves =
+    root.children.length === 1
+      ? sequenceSgf(root.children[0])
+      : root.children.map((child) => `(${sequenceSgf(child)})`).join("");
+  return `(;${sgfRootProperties(tree.info)}${comment}${moves})\n`;
+}
+
+// Moves of the main line, for the library listing
+export function mainLineLength(tree: GameTree): number {
+  return lineThrough(tree, []).length - 1;
+}
@@ -0,0 +1,147 @@
+import { describe, expect, it } from "vitest";
+import {
+  RULE_SETS,
+  computeScore,
+  handicapPoints,
+  hashBoard,
+  initialTimeline,
+  koForbidden,
+  makeEmptyBoard,
+  mulberry32,
+  playOnTimeline,
+  pointKey,
+  starPoints,
+  tryPlay,
+  type Stone,
+} from "./goRules";
+
+// Rows of "." (empty), "X" (black) and "O" (white), top row first
+function board(...rows: string[]): Stone[][] {
+  return rows.map((row) => [...row].map((c) => (c === "X" ? 1 : c === "O" ? 2 : 0)));
+}
+
+// A ko: white takes at (1, 1), and black may not take straight back at (2, 1)
+const KO = board(".XO..", "X.XO.", ".XO..", ".....", ".....");
+
+describe("tryPlay", () => {
+  it("captures a surrounded stone", () => {
+    const res = tryPlay(board(".X...", "XO...", ".X...", ".....", "....."), 2, 1, 1);
+    expect(res.legal).toBe(true);
+    expect(res.captured).toBe(1);
+    expect(res.board![1][1]).toBe(0);
+  });
+
+  it("refuses an occupied point and shows its group", () => {
+    const res = tryPlay(board("XX...", ".....", ".....", ".....", "....."), 0, 0, 2);
+    expect(res).toMatchObject({ legal: false, reason: "occupied" });
+    expect(res.group).toHaveLength(2);
+  });
+
+  it("refuses suicide unless the rules allow it", () => {
+    const b = board(".O...", "O....", ".....", ".....", ".....");
+    expect(tryPlay(b, 0, 0, 1)).toMatchObject({ legal: false, reason: "suicide" });
+    const allowed = tryPlay(b, 0, 0, 1, undefined, true);
+    expect(allowed).toMatchObject({ legal: true, lost: 1 });
+    expect(allowed.board![0][0]).toBe(0);
+  });
+
+  it("allows a stone without liberties when it captures", () => {
+    expect(tryPlay(board(".OX..", "OX...", "X....", ".....", "....."), 0, 0, 1)).toMatchObject({
+      legal: true,
+      captured: 2,
+    });
+  });
+});
+
+describe("ko", () => {
+  it("forbids retaking a ko at once", () => {
+    const taken = playOnTimeline(initialTimeline(KO, 2), 1, 1, RULE_SETS.japanese).timeline!;
+    expect(taken[1].board[1][2]).toBe(0);
+    expect(playOnTimeline(taken, 2, 1, RULE_SETS.japanese)).toMatchObject({ reason: "ko" });
+    expect(koForbidden(taken, "simple")).toEqual([{ x: 2, y: 1 }]);
+  });
+
+  it("allows the retake after a move elsewhere", () => {
+    const rules = RULE_SETS.japanese;
+    let timeline = playOnTimeline(initialTimeline(KO, 2), 1, 1, rules).timeline!;
+    timeline = playOnTimeline(timeline, 4, 4, rules).timeline!;
+    timeline = playOnTimeline(timeline, 4, 3, rules).timeline!;
+    expect(playOnTimeline(timeline, 2, 1, rules).timeline).toBeDefined();
+  });
+
+  it("tells positional superko from situational by the side to move", () => {
+    // The stones black's move would make were seen before, but with black to move
+    const seen = board("X....", ".....", ".....", ".....", ".....");
+    const history = [initialTimeline(seen, 1)[0], initialTimeline(makeEmptyBoard(5), 1)[0]];
+    expect(tryPlay(makeEmptyBoard(5), 0, 0, 1, { rule: "positional", history })).toMatchObject({ reason: "ko" });
+    expect(tryPlay(makeEmptyBoard(5), 0, 0, 1, { rule: "situational", history }).legal).toBe(true);
+  });
+});
+
+describe("computeScore", () => {
+  // Black walls off the left column, white the right; the middle column is dame
+  const walls = board(".X.O.", ".X.O.", ".X.O.", ".X.O.", ".X.O.");
+
+  it("counts stones and territory under area scoring", () => {
+    const score = computeScore(walls, { black: 3, white: 0 }, 6.5, "area");
+    expect(score.territory).toEqual({ black: 5, white: 5 });
+    expect(score.blackScore).toBe(10);
+    expect(score.whiteScore).toBe(16.5);
+  });
+
+  it("counts territory and prisoners under territory scoring", () => {
+    const score = computeScore(walls, { black: 3, white: 1 }, 6.5, "territory");
+    expect(score.blackScore).toBe(8);
+    expect(score.whiteScore).toBe(12.5);
+  });
+
+  it("gives the points of dead stones to the other side", () => {
+    const invaded = board("OX.O.", ".X.O.", ".X.O.", ".X.O.", ".X.O.");
+    const dead = new Set([pointKey(0, 0)]);
+    const score = computeScore(invaded, { black: 0, white: 0 }, 0, "territory", dead);
+    expect(score.territory.black).toBe(5);
+    expect(score.blackScore).toBe(6); // five points and the dead stone
+    expect(score.owner[0][0]).toBe(1);
+  });
+});
+
+describe("handicap and star points", () => {
+  it("places handicap stones on star points", () => {
+    const stars = starPoints(19).map((p) => pointKey(p.x, p.y));
+    for (const n of [2, 3, 4, 5, 6, 7, 8, 9]) {
+      const points = handicapPoints(19, n);
+      expect(points).toHaveLength(n);
+      for (const p of points) expect(stars).toContain(pointKey(p.x, p.y));
+    }
+  });
+
+  it("gives no stones for a handicap below two", () => {
+    expect(handicapPoints(9, 1)).toEqual([]);
+  });
+});
+
+describe("hashBoard", () => {
+  it("depends only on the stones", () => {
+    const a = makeEmptyBoard(9);
+    const b = makeEmptyBoard(9);
+    a[2][3] = 1;
+    b[2][3] = 1;
+    expect(hashBoard(a)).toBe(hashBoard(b));
+    b[2][3] = 2;
+    expect(hashBoard(a)).not.toBe(hashBoard(b));
+    expect(hashBoard(makeEmptyBoard(9))).toBe(0n);
+  });
+});
+
+describe("mulberry32", () => {
+  it("repeats a sequence for a seed, within 0..1", () => {
+    const a = mulberry32(42);
+    const b = mulberry32(42);
+    for (let i = 0; i < 100; i++) {
+      const x = a();
+      expect(x).toBe(b());
+      expect(x).toBeGreaterThanOrEqual(0);
+      expect(x).toBeLessThan(1);
+    }
+  });
+});
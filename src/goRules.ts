@@ -0,0 +1,518 @@
+// Headless Go rules: board representation, move legality, ko, scoring and the
+// position timeline. No React here, so it runs under Node, in workers and on a server.
+
+// ---- Types & Constants ----
+
+export type Stone = 0 | 1 | 2; // 0 empty, 1 black, 2 white
+
+export type KoRule = "simple" | "positional" | "situational";
+
+export type ScoringMethod = "area" | "territory"; // Chinese area scoring, Japanese territory scoring
+
+export type BoardSize = 9 | 13 | 19;
+
+export type RuleSetId = "japanese" | "chinese" | "aga" | "nz" | "tromp-taylor";
+
+// Everything the rules of a game decide, chosen once at setup
+export interface RuleSet {
+  id: RuleSetId;
+  koRule: KoRule;
+  scoring: ScoringMethod;
+  suicide: boolean; // a move that leaves its own group without liberties removes it
+  passStones: boolean; // AGA: a pass hands the opponent a prisoner, and white passes last
+  markDead: boolean; // false: after two passes every stone on the board counts as alive
+  komi: number; // usual komi for an even game
+  sgf: string; // SGF RU value
+}
+
+// The parts of a rule set that decide whether a move is legal
+export type MoveRules = Pick<RuleSet, "koRule" | "suicide">;
+
+// Why the board refuses a stone: the point is taken, the stone would have no
+// liberties without capturing, or the ko rule forbids the position
+export type RuleViolation = "occupied" | "suicide" | "ko";
+
+export interface Position {
+  x: number;
+  y: number;
+}
+
+export interface Captures {
+  black: number; // stones captured by black
+  white: number; // stones captured by white
+}
+
+export interface GameMove {
+  color: Stone;
+  point: Position | null; // null for a pass
+}
+
+export interface PositionRecord {
+  hash: bigint; // Zobrist hash of the stones on the board
+  toMove: Stone; // player to move in this position
+}
+
+export interface KoContext {
+  rule: KoRule;
+  history: PositionRecord[]; // every position of the game so far, current one last
+}
+
+// One entry per position of the game, starting position first. Doubles as the ko history.
+export interface Snapshot extends PositionRecord {
+  board: Stone[][];
+  captures: Captures;
+  passes: number; // consecutive passes that led to this position
+  move: GameMove | null; // move that produced this position, null for the start
+}
+
+export const BOARD_SIZES: BoardSize[] = [9, 13, 19];
+export const MAX_BOARD_SIZE = 19;
+export const DEFAULT_KOMI = 5.5;
+
+export const HANDICAP_KOMI = 0.5; // usual komi when white gives handicap stones
+
+export const MAX_HANDICAP = 9;
+
+export const RULE_SETS: Record<RuleSetId, RuleSet> = {
+  japanese: {
+    id: "japanese",
+    koRule: "simple",
+    scoring: "territory",
+    suicide: false,
+    passStones: false,
+    markDead: true,
+    komi: 6.5,
+    sgf: "Japanese",
+  },
+  chinese: {
+    id: "chinese",
+    koRule: "positional",
+    scoring: "area",
+    suicide: false,
+    passStones: false,
+    markDead: true,
+    komi: 7.5,
+    sgf: "Chinese",
+  },
+  aga: {
+    id: "aga",
+    koRule: "situational",
+    scoring: "territory",
+    suicide: false,
+    passStones: true,
+    markDead: true,
+    komi: 7.5,
+    sgf: "AGA",
+  },
+  nz: {
+    id: "nz",
+    koRule: "situational",
+    scoring: "area",
+    suicide: true,
+    passStones: false,
+    markDead: true,
+    komi: 7,
+    sgf: "NZ",
+  },
+  "tromp-taylor": {
+    id: "tromp-taylor",
+    koRule: "positional",
+    scoring: "area",
+    suicide: true,
+    passStones: false,
+    markDead: false,
+    komi: 7.5,
+    sgf: "Tromp-Taylor",
+  },
+};
+
+export const RULE_SET_IDS = Object.keys(RULE_SETS) as RuleSetId[];
+
+export const DEFAULT_RULE_SET: RuleSetId = "chinese";
+
+// ---- Zobrist hashing ----
+
+// Small seeded PRNG giving numbers in 0..1, so that hashes are stable between
+// sessions and searches and benchmarks can be replayed.
+export function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// ZOBRIST[color - 1][y * MAX_BOARD_SIZE + x], shared by every board size
+const ZOBRIST: bigint[][] = (() => {
+  const next = mulberry32(0x9e3779b9);
+  const rand32 = () => BigInt(Math.floor(next() * 4294967296));
+  const rand64 = () => (rand32() << BigInt(32)) | rand32();
+  return [1, 2].map(() => Array.from({ length: MAX_BOARD_SIZE * MAX_BOARD_SIZE }, rand64));
+})();
+
+export function hashBoard(board: Stone[][]): bigint {
+  const size = board.length;
+  let h = BigInt(0);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const cell = board[y][x];
+      if (cell !== 0) h ^= ZOBRIST[cell - 1][y * MAX_BOARD_SIZE + x];
+    }
+  }
+  return h;
+}
+
+// Would `board` (with `toMove` to play) repeat an earlier position under the given rule?
+function violatesKo(board: Stone[][], toMove: Stone, ko: KoContext): boolean {
+  const hash = hashBoard(board);
+  const { rule, history } = ko;
+  if (rule === "simple") {
+    // Only the immediate recapture is forbidden: the position before the opponent's last move.
+    const prev = history[history.length - 2];
+    return !!prev && prev.hash === hash;
+  }
+  if (rule === "positional") return history.some((r) => r.hash === hash);
+  return history.some((r) => r.hash === hash && r.toMove === toMove);
+}
+
+// ---- Move history ----
+
+export function initialTimeline(board: Stone[][], toMove: Stone = 1): Snapshot[] {
+  return [{ board, hash: hashBoard(board), toMove, captures: { black: 0, white: 0 }, passes: 0, move: null }];
+}
+
+// Play (x, y) for `color` (the player to move by default) and append the resulting position.
+export function playOnTimeline(
+  timeline: Snapshot[],
+  x: number,
+  y: number,
+  rules: MoveRules,
+  color: Stone = timeline[timeline.length - 1].toMove
+): { timeline?: Snapshot[]; reason?: RuleViolation; group?: Position[] } {
+  const cur = timeline[timeline.length - 1];
+  const res = tryPlay(cur.board, x, y, color, { rule: rules.koRule, history: timeline }, rules.suicide);
+  if (!res.legal || !res.board) return { reason: res.reason, group: res.group };
+  const captured = res.captured || 0;
+  const lost = res.lost || 0; // own stones removed by a suicide go to the opponent
+  const captures =
+    color === 1
+      ? { black: cur.captures.black + captured, white: cur.captures.white + lost }
+      : { black: cur.captures.black + lost, white: cur.captures.white + captured };
+  const next: Snapshot = {
+    board: res.board,
+    hash: hashBoard(res.board),
+    toMove: color === 1 ? 2 : 1,
+    captures,
+    passes: 0,
+    move: { color, point: { x, y } },
+  };
+  return { timeline: [...timeline, next] };
+}
+
+// With `passStones` the passer hands the opponent one prisoner.
+export function passOnTimeline(
+  timeline: Snapshot[],
+  color: Stone = timeline[timeline.length - 1].toMove,
+  passStones = false
+): Snapshot[] {
+  const cur = timeline[timeline.length - 1];
+  const captures = !passStones
+    ? cur.captures
+    : color === 1
+    ? { ...cur.captures, white: cur.captures.white + 1 }
+    : { ...cur.captures, black: cur.captures.black + 1 };
+  return [...timeline, { ...cur, captures, toMove: color === 1 ? 2 : 1, passes: cur.passes + 1, move: { color, point: null } }];
+}
+
+// Empty points the player to move may not take because of the ko rule.
+export function koForbidden(timeline: Snapshot[], koRule: KoRule): Position[] {
+  const { board, toMove } = timeline[timeline.length - 1];
+  const res: Position[] = [];
+  for (let y = 0; y < board.length; y++) {
+    for (let x = 0; x < board.length; x++) {
+      if (board[y][x] === 0 && tryPlay(board, x, y, toMove, { rule: koRule, history: timeline }).reason === "ko") {
+        res.push({ x, y });
+      }
+    }
+  }
+  return res;
+}
+
+export function movesOf(timeline: Snapshot[]): GameMove[] {
+  return timeline.slice(1).map((s) => s.move!);
+}
+
+// Number of the move that placed each stone on the board at `index` (0 where none).
+export function moveNumbersAt(timeline: Snapshot[], index: number): number[][] {
+  const size = timeline[0].board.length;
+  const numbers = Array.from({ length: size }, () => Array<number>(size).fill(0));
+  for (let i = 1; i <= index; i++) {
+    const p = timeline[i].move?.point;
+    if (p) numbers[p.y][p.x] = i;
+  }
+  return numbers;
+}
+
+// ---- Utility functions ----
+
+export function makeEmptyBoard(size: number): Stone[][] {
+  return Array.from({ length: size }, () => Array<Stone>(size).fill(0));
+}
+
+function cloneBoard(board: Stone[][]): Stone[][] {
+  return board.map((row) => row.slice() as Stone[]);
+}
+
+export function inBounds(x: number, y: number, size: number): boolean {
+  return x >= 0 && y >= 0 && x < size && y < size;
+}
+
+export function neighbors(x: number, y: number, size: number): Position[] {
+  const dirs = [
+    { x: 1, y: 0 },
+    { x: -1, y: 0 },
+    { x: 0, y: 1 },
+    { x: 0, y: -1 },
+  ];
+  const res: Position[] = [];
+  for (const d of dirs) {
+    const nx = x + d.x;
+    const ny = y + d.y;
+    if (inBounds(nx, ny, size)) res.push({ x: nx, y: ny });
+  }
+  return res;
+}
+
+export function getGroupAndLiberties(board: Stone[][], x: number, y: number): { group: Position[]; liberties: Set<string> } {
+  const color = board[y][x];
+  const visited = new Set<string>();
+  const liberties = new Set<string>();
+  const group: Position[] = [];
+  if (color === 0) return { group, liberties };
+  const key = (px: number, py: number) => `${px},${py}`;
+  const stack: Position[] = [{ x, y }];
+  visited.add(key(x, y));
+  while (stack.length) {
+    const cur = stack.pop()!;
+    group.push(cur);
+    for (const n of neighbors(cur.x, cur.y, board.length)) {
+      const cell = board[n.y][n.x];
+      if (cell === 0) {
+        liberties.add(key(n.x, n.y));
+      } else if (cell === color) {
+        const k = key(n.x, n.y);
+        if (!visited.has(k)) {
+          visited.add(k);
+          stack.push(n);
+        }
+      }
+    }
+  }
+  return { group, liberties };
+}
+
+function removeGroup(board: Stone[][], group: Position[]): number {
+  let removed = 0;
+  for (const p of group) {
+    if (board[p.y][p.x] !== 0) {
+      board[p.y][p.x] = 0;
+      removed++;
+    }
+  }
+  return removed;
+}
+
+// The result of tryPlay. An illegal move names the stones to point at: the group on
+// the point, the group that would be left without liberties or the stones the ko
+// rule keeps from being retaken.
+export interface MoveAttempt {
+  legal: boolean;
+  board?: Stone[][];
+  captured?: number;
+  lost?: number; // own stones removed by an allowed suicide
+  reason?: RuleViolation;
+  group?: Position[];
+}
+
+export function tryPlay(
+  board: Stone[][],
+  x: number,
+  y: number,
+  color: Stone,
+  ko?: KoContext,
+  suicide = false
+): MoveAttempt {
+  if (board[y][x] !== 0) return { legal: false, reason: "occupied", group: getGroupAndLiberties(board, x, y).group };
+  const test = cloneBoard(board);
+  test[y][x] = color;
+  const opponent: Stone = color === 1 ? 2 : 1;
+  const taken: Position[] = [];
+  // Capture opponent groups with no liberties
+  for (const n of neighbors(x, y, board.length)) {
+    if (test[n.y][n.x] === opponent) {
+      const { group, liberties } = getGroupAndLiberties(test, n.x, n.y);
+      if (liberties.size === 0) {
+        taken.push(...group);
+        removeGroup(test, group);
+      }
+    }
+  }
+  const captured = taken.length;
+  // Check if our placed group has liberties (suicide check)
+  const { group, liberties } = getGroupAndLiberties(test, x, y);
+  let lost = 0;
+  if (liberties.size === 0 && captured === 0) {
+    if (!suicide) return { legal: false, reason: "suicide", group };
+    lost = removeGroup(test, group);
+  }
+  // Repetition check against the game history
+  if (ko && violatesKo(test, opponent, ko)) {
+    return { legal: false, reason: "ko", group: lost ? group : taken };
+  }
+  return { legal: true, board: test, captured, lost };
+}
+
+export function countStones(board: Stone[][]): { black: number; white: number } {
+  let black = 0;
+  let white = 0;
+  for (let y = 0; y < board.length; y++) {
+    for (let x = 0; x < board.length; x++) {
+      if (board[y][x] === 1) black++;
+      if (board[y][x] === 2) white++;
+    }
+  }
+  return { black, white };
+}
+
+export function pointKey(x: number, y: number): string {
+  return `${x},${y}`;
+}
+
+// Mark or unmark the whole group at (x, y) as dead. Returns a new set.
+export function toggleDeadGroup(board: Stone[][], dead: Set<string>, x: number, y: number): Set<string> {
+  const next = new Set(dead);
+  if (board[y][x] === 0) return next;
+  const { group } = getGroupAndLiberties(board, x, y);
+  const markDead = !dead.has(pointKey(x, y));
+  for (const p of group) {
+    if (markDead) next.add(pointKey(p.x, p.y));
+    else next.delete(pointKey(p.x, p.y));
+  }
+  return next;
+}
+
+// Flood-fill empty regions (dead stones count as empty). A region bordered by a
+// single color is that color's territory; anything else is neutral (dame).
+function computeTerritory(board: Stone[][], dead: Set<string>): { owner: Stone[][]; black: number; white: number } {
+  const cleared = cloneBoard(board);
+  for (const k of dead) {
+    const [x, y] = k.split(",").map(Number);
+    cleared[y][x] = 0;
+  }
+  const size = board.length;
+  const owner = makeEmptyBoard(size);
+  const visited = new Set<string>();
+  let black = 0;
+  let white = 0;
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (cleared[y][x] !== 0 || visited.has(pointKey(x, y))) continue;
+      const region: Position[] = [];
+      const borders = new Set<Stone>();
+      const stack: Position[] = [{ x, y }];
+      visited.add(pointKey(x, y));
+      while (stack.length) {
+        const cur = stack.pop()!;
+        region.push(cur);
+        for (const n of neighbors(cur.x, cur.y, size)) {
+          const cell = cleared[n.y][n.x];
+          if (cell !== 0) {
+            borders.add(cell);
+          } else if (!visited.has(pointKey(n.x, n.y))) {
+            visited.add(pointKey(n.x, n.y));
+            stack.push(n);
+          }
+        }
+      }
+      const color: Stone = borders.size === 1 ? [...borders][0] : 0;
+      for (const p of region) owner[p.y][p.x] = color;
+      if (color === 1) black += region.length;
+      if (color === 2) white += region.length;
+    }
+  }
+  return { owner, black, white };
+}
+
+export function computeScore(
+  board: Stone[][],
+  captures: Captures,
+  komi: number,
+  method: ScoringMethod = "area",
+  dead: Set<string> = new Set()
+): { blackScore: number; whiteScore: number; territory: { black: number; white: number }; owner: Stone[][] } {
+  const { owner, black, white } = computeTerritory(board, dead);
+  let deadBlack = 0;
+  let deadWhite = 0;
+  for (const k of dead) {
+    const [x, y] = k.split(",").map(Number);
+    if (board[y][x] === 1) deadBlack++;
+    if (board[y][x] === 2) deadWhite++;
+  }
+  let blackScore: number;
+  let whiteScore: number;
+  if (method === "area") {
+    // Living stones plus surrounded points; prisoners don't count
+    const stones = countStones(board);
+    blackScore = stones.black - deadBlack + black;
+    whiteScore = stones.white - deadWhite + white + komi;
+  } else {
+    // Surrounded points plus prisoners, dead stones included
+    blackScore = black + captures.black + deadWhite;
+    whiteScore = white + captures.white + deadBlack + komi;
+  }
+  return { blackScore, whiteScore, territory: { black, white }, owner };
+}
+
+// Hoshi: 3-3 points on 9x9, 4-4 points plus sides on 13x13 and 19x19, and tengen.
+export function starPoints(size: number): Position[] {
+  const edge = size < 13 ? 2 : 3;
+  const far = size - 1 - edge;
+  const mid = Math.floor(size / 2);
+  const lines = size >= 19 ? [edge, mid, far] : [edge, far];
+  const pts: Position[] = [];
+  for (const y of lines) {
+    for (const x of lines) pts.push({ x, y });
+  }
+  if (size < 19) pts.push({ x: mid, y: mid });
+  return pts;
+}
+
+// Fixed handicap placement in the order used by GTP fixed_handicap: opposite
+// corners first, then the remaining corners, the centre and the side star points.
+export function handicapPoints(size: number, count: number): Position[] {
+  const edge = size < 13 ? 2 : 3;
+  const far = size - 1 - edge;
+  const mid = Math.floor(size / 2);
+  const corners = [
+    { x: edge, y: far },
+    { x: far, y: edge },
+    { x: far, y: far },
+    { x: edge, y: edge },
+  ];
+  const sides = [
+    { x: edge, y: mid },
+    { x: far, y: mid },
+    { x: mid, y: far },
+    { x: mid, y: edge },
+  ];
+  const center = { x: mid, y: mid };
+  const n = Math.min(count, MAX_HANDICAP);
+  if (n < 2) return [];
+  if (n <= 4) return corners.slice(0, n);
+  const pts = [...corners, ...sides.slice(0, n - 4 - (n % 2))];
+  if (n % 2 === 1) pts.push(center);
+  return pts;
+}
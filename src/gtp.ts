@@ -0,0 +1,255 @@
+import {
+  applyMove,
+  currentPosition,
+  finishByScore,
+  newGame,
+  pass,
+  resumePlay,
+  undo,
+  type GameState,
+} from "./gameState";
+import { DEFAULT_KOMI, MAX_BOARD_SIZE, RULE_SETS, koForbidden, movesOf, type Position, type Stone } from "./goRules";
+import { searchMove, type AiLevel } from "./mcts";
+import { formatSgfResult } from "./sgf";
+
+// Go Text Protocol (version 2). GtpSession answers commands for the built-in
+// engine; the helpers below also build command lists for driving an external
+// engine. Error texts follow the GTP specification, so they stay in English.
+
+// ---- Types & Constants ----
+
+export interface GtpCommand {
+  id: string; // optional numeric id, echoed in the response
+  name: string;
+  args: string[];
+}
+
+export interface GtpResponse {
+  ok: boolean;
+  text: string;
+}
+
+const GTP_COLUMNS = "ABCDEFGHJKLMNOPQRST"; // no I
+
+const ENGINE_NAME = "choicovayonline";
+const ENGINE_VERSION = "1.0";
+
+const COMMANDS = [
+  "protocol_version",
+  "name",
+  "version",
+  "known_command",
+  "list_commands",
+  "quit",
+  "boardsize",
+  "clear_board",
+  "komi",
+  "play",
+  "genmove",
+  "undo",
+  "final_score",
+  "showboard",
+];
+
+// ---- Protocol helpers ----
+
+export function toGtpVertex(point: Position | null, size: number): string {
+  if (!point) return "pass";
+  return `${GTP_COLUMNS[point.x]}${size - point.y}`;
+}
+
+// Returns null for "pass" and undefined when the vertex is malformed or off the board.
+export function fromGtpVertex(vertex: string, size: number): Position | null | undefined {
+  const v = vertex.toUpperCase();
+  if (v === "PASS") return null;
+  const x = GTP_COLUMNS.indexOf(v[0]);
+  const row = Number(v.slice(1));
+  if (x < 0 || x >= size || !Number.isInteger(row) || row < 1 || row > size) return undefined;
+  return { x, y: size - row };
+}
+
+export function toGtpColor(color: Stone): string {
+  return color === 1 ? "B" : "W";
+}
+
+function fromGtpColor(color: string): Stone | undefined {
+  const c = color.toLowerCase();
+  if (c === "b" || c === "black") return 1;
+  if (c === "w" || c === "white") return 2;
+  return undefined;
+}
+
+// Strip comments and control characters; returns null for lines without a command.
+export function parseGtpCommand(line: string): GtpCommand | null {
+  const clean = line
+    .replace(/#.*/, "")
+    .replace(/\t/g, " ")
+    .replace(/[\x00-\x08\x0a-\x1f\x7f]/g, "")
+    .trim();
+  if (!clean) return null;
+  const words = clean.split(/\s+/);
+  const id = /^\d+$/.test(words[0]) ? words.shift()! : "";
+  if (!words.length) return null;
+  return { id, name: words[0].toLowerCase(), args: words.slice(1) };
+}
+
+export function formatGtpResponse(command: GtpCommand, response: GtpResponse): string {
+  return `${response.ok ? "=" : "?"}${command.id}${response.text ? ` ${response.text}` : ""}\n\n`;
+}
+
+// Parse one response block ("= text" / "? text") read from an engine.
+export function parseGtpResponse(raw: string): GtpResponse {
+  const match = /^([=?])\d*\s?([\s\S]*)$/.exec(raw.trim());
+  if (!match) return { ok: false, text: raw.trim() };
+  return { ok: match[1] === "=", text: match[2].trim() };
+}
+
+// Commands that bring an external engine to the position of `state`. The setup
+// stones are played as moves, then the game record is replayed.
+export function syncCommands(state: GameState): string[] {
+  const size = state.timeline[0].board.length;
+  const commands = [`boardsize ${size}`, "clear_board", `komi ${state.komi}`];
+  state.timeline[0].board.forEach((row, y) =>
+    row.forEach((cell, x) => {
+      if (cell) commands.push(`play ${toGtpColor(cell)} ${toGtpVertex({ x, y }, size)}`);
+    })
+  );
+  for (const move of movesOf(state.timeline)) {
+    commands.push(`play ${toGtpColor(move.color)} ${toGtpVertex(move.point, size)}`);
+  }
+  return commands;
+}
+
+// ---- Engine session ----
+
+export class GtpSession {
+  private state: GameState;
+  private size = 19;
+  private komi = DEFAULT_KOMI;
+  private readonly level: AiLevel;
+  quit = false;
+
+  constructor(level: AiLevel = "medium") {
+    this.level = level;
+    this.state = this.freshGame();
+  }
+
+  private freshGame(): GameState {
+    return newGame({ size: this.size, rules: RULE_SETS.chinese, komi: this.komi });
+  }
+
+  // Handle one input line; returns the full response text, or "" for empty lines.
+  handleLine(line: string): string {
+    const command = parseGtpCommand(line);
+    if (!command) return "";
+    return formatGtpResponse(command, this.execute(command));
+  }
+
+  private execute({ name, args }: GtpCommand): GtpResponse {
+    const ok = (text = ""): GtpResponse => ({ ok: true, text });
+    const fail = (text: string): GtpResponse => ({ ok: false, text });
+    switch (name) {
+      case "protocol_version":
+        return ok("2");
+      case "name":
+        return ok(ENGINE_NAME);
+      case "version":
+        return ok(ENGINE_VERSION);
+      case "known_command":
+        return ok(String(COMMANDS.includes(args[0]?.toLowerCase())));
+      case "list_commands":
+        return ok(COMMANDS.join("\n"));
+      case "quit":
+        this.quit = true;
+        return ok();
+      case "boardsize": {
+        const size = Number(args[0]);
+        if (!Number.isInteger(size)) return fail("syntax error");
+        if (size < 2 || size > MAX_BOARD_SIZE) return fail("unacceptable size");
+        this.size = size;
+        this.state = this.freshGame();
+        return ok();
+      }
+      case "clear_board":
+        this.state = this.freshGame();
+        return ok();
+      case "komi": {
+        const komi = Number(args[0]);
+        if (args[0] === undefined || !Number.isFinite(komi)) return fail("syntax error");
+        this.komi = komi;
+        this.state = { ...this.state, komi };
+        return ok();
+      }
+      case "play": {
+        const color = fromGtpColor(args[0] ?? "");
+        const point = fromGtpVertex(args[1] ?? "", this.size);
+        if (!color || point === undefined) return fail("syntax error");
+        return this.play(color, point) ? ok() : fail("illegal move");
+      }
+      case "genmove": {
+        const color = fromGtpColor(args[0] ?? "");
+        if (!color) return fail("syntax error");
+        return ok(this.genmove(color));
+      }
+      case "undo": {
+        if (this.state.timeline.length <= 1) return fail("cannot undo");
+        this.state = undo(this.state);
+        return ok();
+      }
+      case "final_score":
+        return ok(formatSgfResult(finishByScore(this.playable()).result!));
+      case "showboard":
+        return ok(`\n${this.showboard()}`);
+      default:
+        return fail("unknown command");
+    }
+  }
+
+  // GTP allows moves after two passes, so leave the scoring phase first.
+  private playable(): GameState {
+    return this.state.phase === "scoring" ? resumePlay(this.state) : this.state;
+  }
+
+  private play(color: Stone, point: Position | null): boolean {
+    const state = this.playable();
+    if (!point) {
+      this.state = pass(state, color);
+      return true;
+    }
+    const res = applyMove(state, point.x, point.y, color);
+    if (res.legal) this.state = res.state;
+    return res.legal;
+  }
+
+  private genmove(color: Stone): string {
+    const state = this.playable();
+    const { board } = currentPosition(state);
+    // Ko restrictions are computed for the color asked for, which GTP may change.
+    const timeline = [...state.timeline.slice(0, -1), { ...currentPosition(state), toMove: color }];
+    const reply = searchMove({
+      id: state.timeline.length,
+      board,
+      toMove: color,
+      komi: state.komi,
+      forbidden: koForbidden(timeline, state.rules.koRule),
+      level: this.level,
+    });
+    if (reply.resign) return "resign";
+    if (!reply.move || !this.play(color, reply.move)) {
+      this.play(color, null);
+      return "pass";
+    }
+    return toGtpVertex(reply.move, this.size);
+  }
+
+  private showboard(): string {
+    const { board, captures } = currentPosition(this.state);
+    const header = `   ${GTP_COLUMNS.slice(0, this.size).split("").join(" ")}`;
+    const rows = board.map((row, y) => {
+      const label = String(this.size - y).padStart(2);
+      return `${label} ${row.map((c) => (c === 1 ? "X" : c === 2 ? "O" : ".")).join(" ")} ${label}`;
+    });
+    const footer = `Captures: B ${captures.black}, W ${captures.white}`;
+    return [header, ...rows, header, footer].join("\n");
+  }
+}
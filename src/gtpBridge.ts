@@ -0,0 +1,149 @@
+import { spawn, type ChildProcessWithoutNullStreams } from "node:child_process";
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import { parseGtpResponse, type GtpResponse } from "./gtp";
+
+// Small HTTP bridge between the browser and a local GTP engine subprocess, used by
+// the GTP opponent in AiGame. Start it with the engine command line, e.g.
+//   npx tsx src/gtpBridge.ts --port 8765 --origin http://localhost:3000 -- gnugo --mode gtp --level 8
+// POST { "commands": ["boardsize 9", ...] } returns { "responses": [{ ok, text }, ...] },
+// stopping after the first failed command. The bridge listens on the loopback
+// interface only, answers only pages from --origin and passes on only the commands
+// the GTP opponent sends, so nothing else can reach engine commands that touch files.
+
+// ---- Engine process ----
+
+class GtpProcess {
+  private child: ChildProcessWithoutNullStreams;
+  private buffer = "";
+  private waiting: ((raw: string) => void)[] = [];
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(command: string, args: string[]) {
+    this.child = spawn(command, args);
+    this.child.stdout.setEncoding("utf8");
+    this.child.stdout.on("data", (chunk: string) => {
+      this.buffer += chunk.replace(/\r/g, "");
+      let end: number;
+      while ((end = this.buffer.indexOf("\n\n")) >= 0) {
+        const raw = this.buffer.slice(0, end);
+        this.buffer = this.buffer.slice(end + 2);
+        this.waiting.shift()?.(raw);
+      }
+    });
+    this.child.stderr.pipe(process.stderr);
+    this.child.on("exit", (code) => {
+      console.error(`GTP engine exited with code ${code}`);
+      process.exit(1);
+    });
+  }
+
+  private send(command: string): Promise<GtpResponse> {
+    return new Promise((resolve) => {
+      this.waiting.push((raw) => resolve(parseGtpResponse(raw)));
+      this.child.stdin.write(`${command}\n`);
+    });
+  }
+
+  // Run a batch of commands; batches from different requests never interleave.
+  run(commands: string[]): Promise<GtpResponse[]> {
+    const batch = this.queue.then(async () => {
+      const responses: GtpResponse[] = [];
+      for (const command of commands) {
+        const response = await this.send(command);
+        responses.push(response);
+        if (!response.ok) break;
+      }
+      return responses;
+    });
+    this.queue = batch.catch(() => undefined);
+    return batch;
+  }
+}
+
+// ---- HTTP server ----
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.setEncoding("utf8");
+    req.on("data", (chunk: string) => (body += chunk));
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+}
+
+const HOST = "127.0.0.1";
+const DEFAULT_PORT = 8765;
+const DEFAULT_ORIGIN = "http://localhost:3000";
+
+// What syncCommands and gtpOpponent send, and nothing more
+const ALLOWED_COMMANDS = new Set(["boardsize", "clear_board", "komi", "play", "genmove"]);
+
+function corsHeaders(origin: string) {
+  return {
+    "Access-Control-Allow-Origin": origin,
+    "Access-Control-Allow-Headers": "Content-Type",
+    Vary: "Origin",
+  };
+}
+
+function sendJson(res: ServerResponse, origin: string, status: number, data: unknown) {
+  res.writeHead(status, { ...corsHeaders(origin), "Content-Type": "application/json" });
+  res.end(JSON.stringify(data));
+}
+
+// The command name, after the optional numeric id
+function commandName(command: string): string {
+  return command.trim().replace(/^\d+\s+/, "").split(/\s+/)[0];
+}
+
+function isAllowed(command: unknown): command is string {
+  return typeof command === "string" && !command.includes("\n") && ALLOWED_COMMANDS.has(commandName(command));
+}
+
+function option(options: string[], name: string): string | undefined {
+  const at = options.indexOf(`--${name}`);
+  return at >= 0 ? options[at + 1] : undefined;
+}
+
+function main() {
+  const argv = process.argv.slice(2);
+  const split = argv.indexOf("--");
+  const options = split >= 0 ? argv.slice(0, split) : [];
+  const engine = split >= 0 ? argv.slice(split + 1) : [];
+  if (!engine.length) {
+    console.error(`Usage: tsx src/gtpBridge.ts [--port ${DEFAULT_PORT}] [--origin ${DEFAULT_ORIGIN}] -- <engine command> [args...]`);
+    process.exit(1);
+  }
+  const port = Number(option(options, "port") ?? DEFAULT_PORT);
+  const origin = option(options, "origin") ?? DEFAULT_ORIGIN;
+
+  const gtp = new GtpProcess(engine[0], engine.slice(1));
+  const server = createServer(async (req, res) => {
+    // Browsers always send Origin on cross-origin requests; other pages are turned away
+    if (req.headers.origin !== undefined && req.headers.origin !== origin) {
+      return sendJson(res, origin, 403, { error: `only ${origin} may use this bridge` });
+    }
+    if (req.method === "OPTIONS") {
+      res.writeHead(204, corsHeaders(origin));
+      return res.end();
+    }
+    if (req.method !== "POST") return sendJson(res, origin, 405, { error: "POST only" });
+    try {
+      const { commands } = JSON.parse(await readBody(req)) as { commands?: unknown };
+      if (!Array.isArray(commands) || !commands.every(isAllowed)) {
+        return sendJson(res, origin, 400, {
+          error: `commands must be single-line strings, one of: ${[...ALLOWED_COMMANDS].join(", ")}`,
+        });
+      }
+      sendJson(res, origin, 200, { responses: await gtp.run(commands) });
+    } catch {
+      sendJson(res, origin, 400, { error: "invalid JSON" });
+    }
+  });
+  server.listen(port, HOST, () =>
+    console.error(`GTP bridge for "${engine.join(" ")}" on http://${HOST}:${port}, for pages from ${origin}`)
+  );
+}
+
+main();
@@ -0,0 +1,26 @@
+import { createInterface } from "node:readline";
+import { GtpSession } from "./gtp";
+import { AI_LEVELS, type AiLevel } from "./mcts";
+
+// Exposes the built-in engine over GTP on stdin/stdout, e.g. for GoGui or
+// gogui-twogtp: `npx tsx src/gtpEngine.ts --level hard`.
+
+function parseLevel(argv: string[]): AiLevel {
+  const i = argv.indexOf("--level");
+  const level = i >= 0 ? argv[i + 1] : "medium";
+  if (!(level in AI_LEVELS)) {
+    console.error(`Unknown level "${level}", expected one of: ${Object.keys(AI_LEVELS).join(", ")}`);
+    process.exit(1);
+  }
+  return level as AiLevel;
+}
+
+const session = new GtpSession(parseLevel(process.argv.slice(2)));
+const input = createInterface({ input: process.stdin, terminal: false });
+
+input.on("line", (line) => {
+  if (session.quit) return; // lines already buffered after quit
+  const response = session.handleLine(line);
+  if (response) process.stdout.write(response);
+  if (session.quit) input.close();
+});
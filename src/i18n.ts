@@ -0,0 +1,855 @@
+import { BOARD_SIZES, type Position, type RuleSet, type Stone } from "./goRules";
+import { fromGtpVertex, toGtpVertex } from "./gtp";
+import type { SgfError, SgfProblem } from "./sgf";
+
+// Message catalogs for the interface and the ways of naming board points. The
+// Vietnamese catalog is the reference: its shape is the Messages type, so a key
+// missing from another language fails the type check. Texts that need values are
+// functions. Modules outside the interface report codes that are worded here;
+// game records and problem files keep their own text.
+
+// ---- Types & Constants ----
+
+export type Locale = "vi" | "en";
+
+// How points are named: GTP letters (no I) and rows from the bottom, plain numbers
+// from the lower left, or Japanese kifu style, columns from the right and rows in
+// kanji from the top.
+export type Notation = "gtp" | "numeric" | "japanese";
+
+export const LOCALES: Locale[] = ["vi", "en"];
+export const NOTATIONS: Notation[] = ["gtp", "numeric", "japanese"];
+
+export const LOCALE_NAMES: Record<Locale, string> = { vi: "Tiếng Việt", en: "English" };
+
+// One wording per kind of SGF problem, given the problem's details
+type SgfProblemTexts = { [C in SgfProblem["code"]]: (problem: Extract<SgfProblem, { code: C }>) => string };
+
+const KANJI_DIGITS = ["", "一", "二", "三", "四", "五", "六", "七", "八", "九"];
+
+const vi = {
+  dateLocale: "vi-VN",
+  black: "Đen",
+  white: "Trắng",
+  humanName: "Người chơi",
+  aiName: (level: string) => `Máy (${level})`,
+  gtpName: "Máy (GTP)",
+
+  // Labels of settings
+  modes: { ai: "Chơi với máy", local: "Chơi 2 người", online: "Chơi trực tuyến" },
+  koRules: { simple: "Ko đơn", positional: "Siêu ko theo vị trí", situational: "Siêu ko theo tình huống" },
+  scoringMethods: { area: "Tính đất (quân + đất)", territory: "Tính lãnh thổ (đất + tù binh)" },
+  ruleSets: { japanese: "Nhật Bản", chinese: "Trung Quốc", aga: "AGA", nz: "New Zealand", "tromp-taylor": "Tromp-Taylor" },
+  timeControls: {
+    none: "Không tính giờ",
+    absolute: "Tuyệt đối",
+    byoyomi: "Byo-yomi",
+    canadian: "Byo-yomi Canada",
+    fischer: "Fischer",
+  },
+  aiLevels: { easy: "Dễ", medium: "Vừa", hard: "Khó" },
+  shades: { none: "Không tô", influence: "Vùng ảnh hưởng", ownership: "Ước lượng đất (máy)" },
+  notations: { gtp: "Chữ và số (E5)", numeric: "Số (5-5)", japanese: "Kiểu Nhật (5五)" },
+
+  // Shared buttons
+  close: "Đóng",
+  back: "Quay lại",
+  chooseMode: "Chọn chế độ",
+  leaveRoom: "Rời phòng",
+  restart: "Chơi lại",
+  exportSgf: "Xuất SGF",
+  importSgf: "Nhập SGF",
+  pass: "Pass",
+  resumePlay: "Tiếp tục đánh",
+  endGame: "Kết thúc ván",
+  undo: "Đi lại",
+  redo: "Làm lại",
+
+  // Header and start page
+  appName: "Cờ Vây",
+  appTagline: (size: number) => `Go Board ${size}x${size}`,
+  tsumego: "Bài tập",
+  library: "Thư viện",
+  language: "Ngôn ngữ",
+  notation: "Tọa độ",
+  welcome: "Chào mừng đến với Cờ Vây",
+  welcomeText:
+    "Chọn chế độ chơi để bắt đầu — bạn có thể chơi với máy, 2 người trên cùng thiết bị hoặc trực tuyến qua mã phòng. Bảng chọn chế độ sẽ xuất hiện khi bắt đầu và sau khi kết thúc ván.",
+  tsumegoLong: "Bài tập sống chết",
+
+  // Mode dialog
+  setupTitle: "Thiết lập ván",
+  lastResult: (mode: string) => `Kết quả ván trước (${mode})`,
+  draw: "Hòa",
+  wins: (name: string) => `${name} thắng`,
+  resignedNote: (color: string) => ` (${color} xin thua)`,
+  timedOutNote: (color: string) => ` (${color} hết giờ)`,
+  handicapStones: (n: number) => `Chấp ${n} quân`,
+  capturesSummary: (black: number, white: number) => `Bắt: Đen ${black}, Trắng ${white}`,
+  territorySummary: (black: number, white: number) => `Đất: Đen ${black}, Trắng ${white}`,
+  unfinishedGame: "Bạn còn một ván đang chơi dở. Bắt đầu ván mới sẽ lưu ván đó vào thư viện.",
+  resumeGame: "Tiếp tục ván đang chơi",
+  boardSize: "Bàn cờ:",
+  ruleSet: "Luật chơi:",
+  ruleDetails: (name: string, details: string) => `${name}: ${details}`,
+  suicideAllowed: "được tự sát",
+  passStonesRule: "bỏ lượt nộp một tù binh, Trắng bỏ lượt sau cùng",
+  noDeadMarking: "mọi quân trên bàn đều tính là sống",
+  opponentKind: "Đối thủ máy:",
+  builtinEngine: "Máy tích hợp",
+  gtpEngine: "Máy GTP (qua cầu nối)",
+  aiLevel: "Độ khó máy:",
+  bridgeUrl: "Địa chỉ cầu nối:",
+  useOpeningBook: "Dùng sách khai cuộc",
+  openingBookName: (name: string) => `Sách khai cuộc: ${name}`,
+  importOpeningBook: "Nạp sách SGF",
+  builtinOpeningBook: "Dùng sách có sẵn",
+  openingBookLoaded: (name: string) => `Đã nạp sách ${name}`,
+  aiModeText: "Máy tìm nước bằng Monte Carlo hoặc một máy GTP bên ngoài, chọn ở trên.",
+  localModeText: "Cùng chơi trên một máy, luân phiên đi quân.",
+  onlineModeText: "Tạo phòng hoặc vào phòng bằng mã để chơi với người ở máy khác.",
+
+  // Game setup
+  yourColor: "Bạn cầm quân:",
+  yourName: "Tên của bạn:",
+  blackName: "Tên quân Đen:",
+  whiteName: "Tên quân Trắng:",
+  handicap: "Chấp quân:",
+  noHandicap: "Không chấp",
+  stones: (n: number) => `${n} quân`,
+  placement: "Cách đặt quân chấp",
+  placementFixed: "Đặt cố định",
+  placementFree: "Đặt tự do",
+  komi: "Komi",
+  timeControl: "Thời gian:",
+  mainTime: "Giờ chính (phút)",
+  periods: "Số lần",
+  periodSeconds: "Giây mỗi lần",
+  periodStones: "Số quân",
+  periodMinutes: "Trong (phút)",
+  increment: "Cộng mỗi nước (giây)",
+  handicapNote: (n: number, free: boolean) =>
+    `Đen đặt ${n} quân chấp${free ? " ở vị trí tùy chọn" : " trên các điểm sao"}, sau đó Trắng đi trước.`,
+  evenGameNote: "Ván đều, Đen đi trước.",
+  aiPlacesNote: " Máy cầm Đen nên quân chấp được đặt cố định.",
+  start: "Bắt đầu",
+
+  // Online lobby
+  relayServer: "Máy chủ:",
+  createRoomTitle: "Tạo phòng mới",
+  createRoom: "Tạo phòng",
+  roomNote: (size: number, rules: string) =>
+    `Bàn ${size}x${size} · luật ${rules}. Gửi mã phòng cho đối thủ sau khi tạo.`,
+  joinRoomTitle: "Vào phòng có sẵn",
+  roomCode: "Mã phòng",
+  joinRoom: "Vào phòng",
+
+  // Board
+  boardLabel: (size: number) => `Bàn cờ ${size}x${size}. Dùng phím mũi tên để di chuyển, Enter để đặt quân`,
+  atariTitle: "Bị đe dọa (atari)",
+  twoLibertiesTitle: "Còn 2 khí",
+  candidateTitle: (rank: number, winRate: number) => `Ứng viên #${rank}: thắng ${winRate}%`,
+  bookMoveTitle: (percent: number) => `Nước trong sách khai cuộc (${percent}%)`,
+  pointEmpty: "trống",
+  pointStone: (color: string) => `quân ${color}`,
+  pointLast: "nước vừa đi",
+  pointDead: "quân chết",
+  pointOwner: (color: string) => `đất ${color}`,
+  pointAtari: "bị atari",
+  pointLiberties: (n: number) => `còn ${n} khí`,
+  previewMove: (color: string) => `${color} đi được`,
+  previewCaptures: (color: string, n: number) => `${color} đi được, bắt ${n} quân`,
+
+  // Announcements
+  movePlayed: (color: string, point: string) => `${color} đi ${point}.`,
+  moveCaptured: (color: string, point: string, n: number) => `${color} đi ${point}, bắt ${n} quân.`,
+  movePassed: (color: string) => `${color} bỏ lượt.`,
+  toPlay: (color: string) => `Đến lượt ${color}.`,
+  gameOver: (result: string) => `Kết thúc: ${result}.`,
+  scoringStarted: "Hai bên đã pass. Đánh dấu quân chết rồi xác nhận điểm.",
+  placingLeft: (n: number) => `Đen đặt quân chấp: còn ${n} quân.`,
+
+  // Game panels
+  turn: "Lượt:",
+  captures: (black: number, white: number) => `Bắt: Đen ${black} · Trắng ${white}`,
+  handicapShort: (n: number) => `Chấp: ${n} quân`,
+  clockOf: (color: string) => `Đồng hồ ${color}`,
+  flagged: "Hết giờ",
+  paused: "Tạm dừng",
+  stonesUnit: "quân",
+  scoringHelp: "Đếm điểm: bấm vào nhóm quân để đánh dấu sống/chết.",
+  confirmScore: "Xác nhận kết quả",
+  moveEntry: "Nhập nước:",
+  moveEntryPlaceholder: (example: string) => `${example} hoặc pass`,
+  play: "Đi",
+  unreadableMove: (text: string, example: string) => `Không đọc được "${text}": nhập tọa độ như ${example}, hoặc pass`,
+  firstMove: "Về đầu ván",
+  previousMove: "Nước trước",
+  nextMove: "Nước sau",
+  lastMove: "Nước cuối",
+  moveOf: (index: number, total: number) => `Nước ${index}/${total}`,
+  showNumbers: "Hiện số nước",
+  markup: "Đánh dấu:",
+  markTools: {
+    triangle: "Tam giác",
+    square: "Hình vuông",
+    circle: "Hình tròn",
+    label: "Chữ cái (A, B, C…)",
+    clear: "Xóa dấu trên điểm",
+  },
+  clearMarks: "Xóa mọi dấu",
+  exportPosition: "Xuất thế cờ:",
+  copyDiagram: "Sao chép sơ đồ",
+  copyDiagramTitle: "Sơ đồ chữ kiểu Sensei's Library, dán được vào khung chat",
+  diagramCopied: "Đã sao chép sơ đồ.",
+  exportFailed: "Không xuất được thế cờ.",
+  analysis: "Phân tích:",
+  shading: "Tô vùng",
+  libertyWarnings: "Cảnh báo khí",
+  candidateMoves: "Nước ứng viên",
+  bookMoves: "Nước sách khai cuộc",
+  analyzing: "Máy đang phân tích…",
+  analysisFailed: "Máy không phân tích được thế cờ này",
+  blackWinRate: (winRate: number, playouts: number) => `Khả năng thắng của Đen: ${winRate}% (${playouts} ván mô phỏng)`,
+  suggestionsFor: (color: string) => `Gợi ý cho ${color}:`,
+
+  // Playing
+  aiTitle: (name: string) => `Chế độ: Chơi với ${name}`,
+  aiRules: (size: number, rules: string) => `Bàn ${size}x${size} · luật ${rules}.`,
+  localTitle: "Chế độ: Chơi 2 người",
+  localRules: (size: number, rules: string) => `Luân phiên đi quân, bàn ${size}x${size} · luật ${rules}.`,
+  you: "Bạn:",
+  takeback: "Xin đi lại",
+  takebackHint: "Lùi lại nước của bạn và nước trả lời của máy",
+  placingHandicap: (n: number) => `Đen đặt quân chấp: còn ${n} quân (bấm lại để nhấc quân)`,
+  thinking: "Máy đang suy nghĩ…",
+  ended: (reason: string) => `Kết thúc: ${reason}`,
+  timedOut: (color: string) => `${color} hết giờ`,
+  resigned: (color: string) => `${color} xin thua`,
+  endedEarly: "Kết thúc sớm",
+  bothPassed: "Cả hai đã pass",
+  illegal: {
+    occupied: "Điểm này đã có quân",
+    suicide: "Không được tự sát: nhóm quân sẽ không còn khí nào",
+    ko: "Vi phạm luật ko: chưa được bắt lại ngay",
+    notYourTurn: "Chưa đến lượt bạn",
+    gameOver: "Ván đã dừng, không thể đặt quân",
+  },
+  roomErrors: {
+    occupied: "Điểm này đã có quân",
+    suicide: "Không được tự sát",
+    ko: "Vi phạm luật ko",
+    notYourTurn: "Chưa đến lượt bạn",
+    gameOver: "Ván đã kết thúc",
+    badMove: "Nước đi không hợp lệ",
+    cannotMove: "Không thể đặt quân lúc này",
+    cannotPass: "Không thể bỏ lượt lúc này",
+    notScoring: "Chưa đến lúc đếm điểm",
+    drawOffered: "Đã có lời đề nghị hòa",
+    noDrawOffer: "Không có lời đề nghị hòa",
+    roomNotFound: "Không tìm thấy phòng",
+    roomFull: "Phòng đã đủ người",
+    roomGone: "Phòng không còn tồn tại",
+    badMessage: "Tin nhắn không hợp lệ",
+    alreadyInRoom: "Bạn đã ở trong phòng",
+    notInRoom: "Chưa vào phòng",
+    waitingForOpponent: "Đang chờ đối thủ vào phòng",
+    disconnected: "Mất kết nối, đang thử kết nối lại",
+    connectionFailed: "Mất kết nối trước khi vào phòng; hãy thử lại",
+  },
+  aiPassed: "Máy pass",
+  aiFailed: "Máy gặp lỗi khi tính nước đi",
+  opponentErrors: {
+    engineFailed: () => "Máy gặp lỗi khi tính nước đi",
+    bridgeUnreachable: (url: string) => `Không kết nối được cầu nối GTP tại ${url}`,
+    bridgeRefused: (status: string) => `Cầu nối GTP từ chối yêu cầu (${status}); hãy kiểm tra --origin của cầu nối`,
+    commandRefused: (detail: string) => `Máy GTP từ chối lệnh ${detail}`,
+    badMove: (answer: string) => `Máy GTP trả về nước không hợp lệ: ${answer}`,
+  },
+  importedGame: (file: string, moves: number) => `Đã nhập ${file}: ${moves} nước`,
+  sgfError: (message: string) => `Lỗi SGF: ${message}`,
+  sgfUnreadable: "Không đọc được tệp SGF",
+  sgfProblems: {
+    badPoint: ({ value }) => `Tọa độ SGF "${value}" không hợp lệ`,
+    pointOffBoard: ({ value, size }) => `Tọa độ SGF "${value}" nằm ngoài bàn ${size}x${size}`,
+    unclosedValue: ({ at }) => `Thiếu dấu ] đóng giá trị (ký tự ${at})`,
+    badPropertyName: ({ at }) => `Tên thuộc tính không hợp lệ (ký tự ${at})`,
+    missingValue: ({ ident, at }) => `Thuộc tính ${ident} thiếu giá trị (ký tự ${at})`,
+    repeatedProperty: ({ ident, at }) => `Thuộc tính ${ident} bị lặp trong cùng một nút (ký tự ${at})`,
+    treeWithoutNode: ({ at }) => `Cây SGF phải bắt đầu bằng một nút (ký tự ${at})`,
+    unclosedTree: ({ at }) => `Thiếu dấu ) đóng cây (ký tự ${at})`,
+    noGame: ({ at }) => `Không tìm thấy ván cờ SGF (ký tự ${at})`,
+    multipleValues: ({ ident }) => `Thuộc tính ${ident} phải có đúng một giá trị`,
+    bothColors: ({ node }) => `Nút ${node}: có cả B và W`,
+    notGo: ({ value }) => `GM[${value}]: tệp không phải ván cờ vây`,
+    notSquare: ({ value }) => `SZ[${value}]: chỉ hỗ trợ bàn vuông`,
+    unsupportedSize: ({ value }) => `SZ[${value}]: chỉ hỗ trợ bàn ${BOARD_SIZES.join(", ")}`,
+    badKomi: ({ value }) => `KM[${value}]: komi không hợp lệ`,
+    badHandicap: ({ value }) => `HA[${value}]: số quân chấp không hợp lệ`,
+    badFirstPlayer: ({ value }) => `PL[${value}]: phải là B hoặc W`,
+    setupMidGame: ({ node }) => `Nút ${node}: không hỗ trợ đặt quân giữa ván (AB/AW/AE)`,
+    setupOverlap: ({ point }) => `AB và AW trùng nhau tại ${point}`,
+    illegalMove: ({ number, color, point, reason }) =>
+      `Nước ${number} (${color === 1 ? "Đen" : "Trắng"} ${point}) không hợp lệ: ${
+        reason === "ko" ? "vi phạm luật ko" : reason === "occupied" ? "ô đã có quân" : "tự sát"
+      }`,
+    setupMidProblem: ({ move }) => `Nước ${move}: không hỗ trợ đặt quân giữa bài (AB/AW/AE)`,
+    problemPass: ({ move }) => `Nước ${move}: bài tập không dùng nước bỏ lượt`,
+    problemIllegal: ({ move, point }) => `Nước ${move} (${point}) không hợp lệ`,
+    rootMove: ({ problem }) => `Bài ${problem}: nút gốc không được có nước đi`,
+    noSolution: ({ problem }) => `Bài ${problem}: không có lời giải`,
+    mixedFirstMoves: ({ problem }) => `Bài ${problem}: các nước đầu phải cùng một màu`,
+    mixedSizes: ({ size }) => `SZ[${size}]: mọi ván trong sách phải cùng cỡ bàn`,
+    emptyBook: () => "Sách khai cuộc không có ván nào",
+  } satisfies SgfProblemTexts,
+
+  // Online play
+  onlineTitle: "Chế độ: Chơi trực tuyến",
+  connecting: "Đang kết nối tới máy chủ…",
+  reconnecting: "Mất kết nối, đang thử kết nối lại…",
+  disconnected: "Đã ngắt kết nối",
+  waitingForOpponent: (code: string) => `Đang chờ đối thủ. Gửi mã phòng ${code} cho người cùng chơi.`,
+  opponentAway: "Đối thủ đã mất kết nối, đang chờ họ quay lại",
+  room: "Phòng",
+  seatInfo: (color: string, size: number, rules: string) => `Bạn cầm quân ${color} · bàn ${size}x${size} · luật ${rules}.`,
+  onlineScoringHelp: "Đếm điểm: bấm vào nhóm quân để đánh dấu sống/chết. Ván kết thúc khi cả hai cùng đồng ý.",
+  opponentAccepted: "Đối thủ đã đồng ý",
+  acceptedWaiting: "Đã đồng ý, chờ đối thủ",
+  acceptScore: "Đồng ý kết quả",
+  resign: "Xin thua",
+  drawOffered: "Đối thủ đề nghị hòa:",
+  accept: "Đồng ý",
+  decline: "Từ chối",
+  drawSent: "Đã đề nghị hòa",
+  offerDraw: "Đề nghị hòa",
+
+  // Tsumego
+  tsumegoTitle: "Bài tập sống chết",
+  tsumegoIntro: "Đặt quân để giải bài; máy trả lời theo lời giải và đánh dấu đúng hoặc sai.",
+  importProblemSet: "Nhập bộ bài SGF",
+  problemSet: "Bộ bài",
+  solvedCount: (solved: number, total: number) => `Đã giải ${solved}/${total} bài`,
+  problemSolved: "Đã giải",
+  problemFailed: "Chưa giải được",
+  problemUntried: "Chưa làm",
+  resetProgress: "Xóa tiến độ",
+  removeProblemSet: "Xóa bộ bài",
+  colorToPlay: (color: string) => `${color} đi`,
+  problemName: (n: number) => `Bài ${n}`,
+  correct: "Chính xác!",
+  wrong: "Chưa đúng",
+  offTree: "Chưa đúng: nước này không có trong lời giải",
+  retry: "Làm lại",
+  nextProblem: "Bài tiếp",
+  importedProblems: (n: number, file: string) => `Đã nhập ${n} bài từ ${file}`,
+
+  // Library
+  libraryTitle: "Thư viện ván cờ",
+  libraryEmpty: "Chưa có ván nào. Các ván đã chơi xong sẽ được lưu tại đây.",
+  playersLine: (black: string, white: string) => `${black} (Đen) – ${white} (Trắng)`,
+  moveCount: (n: number) => `${n} nước`,
+  replay: "Xem lại",
+  remove: "Xóa",
+  backToLibrary: "Về thư viện",
+  variations: "Biến thể",
+  variationsHelp: "Đặt quân ở một thế cũ để mở nhánh mới; bấm vào một nước để chuyển nhánh.",
+  gameStart: "Đầu ván",
+  promoteLine: "Đưa lên nhánh chính",
+  deleteBranch: "Xóa nước này và các nước sau",
+  moveComment: "Bình luận cho nước này",
+  saveReview: "Lưu vào thư viện",
+  unsavedReview: "Có thay đổi chưa lưu",
+  gameReview: "Nhận xét ván (máy)",
+  startReview: "Phân tích ván",
+  reviewAgain: "Phân tích lại",
+  stopReview: "Dừng",
+  reviewHelp: "Máy xem lại từng thế cờ của nhánh chính để tìm các nước mất nhiều nhất, mất chừng một hai phút.",
+  reviewProgress: (done: number, total: number) => `Đang phân tích thế ${done}/${total}…`,
+  winRateGraph: "Tỉ lệ thắng của Đen qua từng nước",
+  worstMovesOf: (color: string) => `Nước đáng tiếc của ${color}`,
+  noMistakes: "Không có nước nào mất đáng kể.",
+  verdicts: { good: "Tốt", inaccuracy: "Chưa chuẩn", mistake: "Sai lầm", blunder: "Sai nặng" },
+  reviewedMove: (n: number, point: string) => `Nước ${n} ${point}`,
+  reviewLoss: (percent: number, points: string) => `mất ${percent}% tỉ lệ thắng, ${points} điểm`,
+  engineSuggests: (point: string) => `máy chọn ${point}`,
+  jumpBeforeMove: "Về thế ngay trước nước này để thử nước khác",
+  reviewLastGame: "Xem lại và nhận xét ván",
+  notFinished: "Chưa kết thúc",
+  winByResign: (color: string) => `${color} thắng (đối thủ xin thua)`,
+  winByTime: (color: string) => `${color} thắng (đối thủ hết giờ)`,
+  winByPoints: (color: string, margin: string) => `${color} thắng ${margin} điểm`,
+
+  // Statistics
+  stats: "Thống kê",
+  statsTitle: "Thống kê và hệ số",
+  statsIntro:
+    "Hệ số Glicko tính từ các ván đều giữa hai bên có hồ sơ, kể cả các mức của máy. Ván chấp chỉ được tính vào thống kê.",
+  noProfiles: "Chưa có hồ sơ nào. Hồ sơ được tạo khi một người chơi có tên chơi xong ván đầu tiên.",
+  newProfile: "Tên người chơi mới",
+  addProfile: "Thêm",
+  removeProfile: "Xóa hồ sơ",
+  playerColumn: "Người chơi",
+  ratingColumn: "Hệ số",
+  gamesColumn: "Số ván",
+  winsColumn: "Thắng",
+  lossesColumn: "Thua",
+  drawsColumn: "Hòa",
+  winRateColumn: "Tỉ lệ thắng",
+  engineTag: "máy",
+  unrated: "chưa xếp hạng",
+  ratingValue: (rating: number, deviation: number) => `${rating} ± ${deviation}`,
+  byMode: "Theo chế độ",
+  bySize: "Theo cỡ bàn",
+  byColor: "Theo màu quân",
+  recentGames: "Ván gần đây",
+  noGames: "Chưa có ván nào.",
+  versus: (name: string) => `gặp ${name}`,
+  untrackedPlayer: "người chơi khác",
+  outcomes: { win: "Thắng", loss: "Thua", draw: "Hòa" },
+};
+
+export type Messages = typeof vi;
+
+const en: Messages = {
+  dateLocale: "en-GB",
+  black: "Black",
+  white: "White",
+  humanName: "Player",
+  aiName: (level) => `Computer (${level})`,
+  gtpName: "Computer (GTP)",
+
+  modes: { ai: "Play the computer", local: "Two players", online: "Play online" },
+  koRules: { simple: "Simple ko", positional: "Positional superko", situational: "Situational superko" },
+  scoringMethods: { area: "Area scoring (stones + territory)", territory: "Territory scoring (territory + prisoners)" },
+  ruleSets: { japanese: "Japanese", chinese: "Chinese", aga: "AGA", nz: "New Zealand", "tromp-taylor": "Tromp-Taylor" },
+  timeControls: {
+    none: "No clock",
+    absolute: "Absolute",
+    byoyomi: "Byo-yomi",
+    canadian: "Canadian byo-yomi",
+    fischer: "Fischer",
+  },
+  aiLevels: { easy: "Easy", medium: "Medium", hard: "Hard" },
+  shades: { none: "No shading", influence: "Influence", ownership: "Territory estimate (engine)" },
+  notations: { gtp: "Letters and numbers (E5)", numeric: "Numbers (5-5)", japanese: "Japanese (5五)" },
+
+  close: "Close",
+  back: "Back",
+  chooseMode: "Choose mode",
+  leaveRoom: "Leave room",
+  restart: "New game",
+  exportSgf: "Export SGF",
+  importSgf: "Import SGF",
+  pass: "Pass",
+  resumePlay: "Resume play",
+  endGame: "End game",
+  undo: "Undo",
+  redo: "Redo",
+
+  appName: "Go",
+  appTagline: (size) => `Go Board ${size}x${size}`,
+  tsumego: "Problems",
+  library: "Library",
+  language: "Language",
+  notation: "Coordinates",
+  welcome: "Welcome to Go",
+  welcomeText:
+    "Choose a mode to start — play the computer, two players on one device, or online with a room code. The mode dialog opens at the start and after each game.",
+  tsumegoLong: "Life-and-death problems",
+
+  setupTitle: "Game setup",
+  lastResult: (mode) => `Last game (${mode})`,
+  draw: "Draw",
+  wins: (name) => `${name} wins`,
+  resignedNote: (color) => ` (${color} resigned)`,
+  timedOutNote: (color) => ` (${color} ran out of time)`,
+  handicapStones: (n) => `Handicap ${n} stones`,
+  capturesSummary: (black, white) => `Captures: Black ${black}, White ${white}`,
+  territorySummary: (black, white) => `Territory: Black ${black}, White ${white}`,
+  unfinishedGame: "You have a game in progress. Starting a new game saves it to the library.",
+  resumeGame: "Continue that game",
+  boardSize: "Board:",
+  ruleSet: "Rules:",
+  ruleDetails: (name, details) => `${name}: ${details}`,
+  suicideAllowed: "suicide allowed",
+  passStonesRule: "a pass gives up a prisoner, White passes last",
+  noDeadMarking: "every stone on the board counts as alive",
+  opponentKind: "Engine:",
+  builtinEngine: "Built-in engine",
+  gtpEngine: "GTP engine (via bridge)",
+  aiLevel: "Strength:",
+  bridgeUrl: "Bridge address:",
+  useOpeningBook: "Use opening book",
+  openingBookName: (name) => `Opening book: ${name}`,
+  importOpeningBook: "Load SGF book",
+  builtinOpeningBook: "Use built-in book",
+  openingBookLoaded: (name) => `Loaded the book ${name}`,
+  aiModeText: "The computer searches with Monte Carlo, or an external GTP engine chosen above.",
+  localModeText: "Two players take turns on one device.",
+  onlineModeText: "Create a room or join one by its code to play someone on another device.",
+
+  yourColor: "Your color:",
+  yourName: "Your name:",
+  blackName: "Black's name:",
+  whiteName: "White's name:",
+  handicap: "Handicap:",
+  noHandicap: "None",
+  stones: (n) => `${n} stones`,
+  placement: "Handicap placement",
+  placementFixed: "Fixed points",
+  placementFree: "Free placement",
+  komi: "Komi",
+  timeControl: "Time:",
+  mainTime: "Main time (min)",
+  periods: "Periods",
+  periodSeconds: "Seconds each",
+  periodStones: "Stones",
+  periodMinutes: "In (min)",
+  increment: "Increment (s)",
+  handicapNote: (n, free) =>
+    `Black places ${n} handicap stones${free ? " anywhere" : " on the star points"}, then White plays first.`,
+  evenGameNote: "Even game, Black plays first.",
+  aiPlacesNote: " The computer plays Black, so the handicap stones go on fixed points.",
+  start: "Start",
+
+  relayServer: "Server:",
+  createRoomTitle: "Create a room",
+  createRoom: "Create room",
+  roomNote: (size, rules) =>
+    `${size}x${size} board · ${rules}. Send the room code to your opponent once it is created.`,
+  joinRoomTitle: "Join a room",
+  roomCode: "Room code",
+  joinRoom: "Join",
+
+  boardLabel: (size) => `${size}x${size} board. Arrow keys move, Enter plays`,
+  atariTitle: "In atari",
+  twoLibertiesTitle: "Two liberties",
+  candidateTitle: (rank, winRate) => `Candidate #${rank}: ${winRate}% to win`,
+  bookMoveTitle: (percent) => `Opening book move (${percent}%)`,
+  pointEmpty: "empty",
+  pointStone: (color) => `${color} stone`,
+  pointLast: "last move",
+  pointDead: "dead",
+  pointOwner: (color) => `${color} territory`,
+  pointAtari: "in atari",
+  pointLiberties: (n) => `${n} liberties`,
+  previewMove: (color) => `${color} can play here`,
+  previewCaptures: (color, n) => `${color} can play here and capture ${n}`,
+
+  movePlayed: (color, point) => `${color} plays ${point}.`,
+  moveCaptured: (color, point, n) => `${color} plays ${point}, capturing ${n} ${n === 1 ? "stone" : "stones"}.`,
+  movePassed: (color) => `${color} passes.`,
+  toPlay: (color) => `${color} to play.`,
+  gameOver: (result) => `Game over: ${result}.`,
+  scoringStarted: "Both players passed. Mark dead stones, then confirm the score.",
+  placingLeft: (n) => `Black places handicap stones: ${n} left.`,
+
+  turn: "To play:",
+  captures: (black, white) => `Captures: Black ${black} · White ${white}`,
+  handicapShort: (n) => `Handicap: ${n} stones`,
+  clockOf: (color) => `${color}'s clock`,
+  flagged: "Time out",
+  paused: "Paused",
+  stonesUnit: "stones",
+  scoringHelp: "Scoring: click a group to mark it dead or alive.",
+  confirmScore: "Confirm result",
+  moveEntry: "Enter move:",
+  moveEntryPlaceholder: (example) => `${example} or pass`,
+  play: "Play",
+  unreadableMove: (text, example) => `Cannot read "${text}": enter a point like ${example}, or pass`,
+  firstMove: "First move",
+  previousMove: "Previous move",
+  nextMove: "Next move",
+  lastMove: "Last move",
+  moveOf: (index, total) => `Move ${index}/${total}`,
+  showNumbers: "Show move numbers",
+  markup: "Markup:",
+  markTools: {
+    triangle: "Triangle",
+    square: "Square",
+    circle: "Circle",
+    label: "Letter (A, B, C…)",
+    clear: "Clear the point",
+  },
+  clearMarks: "Clear all marks",
+  exportPosition: "Export position:",
+  copyDiagram: "Copy diagram",
+  copyDiagramTitle: "Sensei's Library text diagram, ready to paste into a chat",
+  diagramCopied: "Diagram copied.",
+  exportFailed: "Could not export the position.",
+  analysis: "Analysis:",
+  shading: "Shading",
+  libertyWarnings: "Liberty warnings",
+  candidateMoves: "Candidate moves",
+  bookMoves: "Book moves",
+  analyzing: "Analyzing…",
+  analysisFailed: "The engine could not analyze this position",
+  blackWinRate: (winRate, playouts) => `Black's chance to win: ${winRate}% (${playouts} playouts)`,
+  suggestionsFor: (color) => `Suggestions for ${color}:`,
+
+  aiTitle: (name) => `Mode: playing ${name}`,
+  aiRules: (size, rules) => `${size}x${size} board · ${rules}.`,
+  localTitle: "Mode: two players",
+  localRules: (size, rules) => `Players take turns, ${size}x${size} board · ${rules}.`,
+  you: "You:",
+  takeback: "Take back",
+  takebackHint: "Take back your last move and the computer's reply",
+  placingHandicap: (n) => `Black places handicap stones: ${n} left (click again to remove one)`,
+  thinking: "The computer is thinking…",
+  ended: (reason) => `Game over: ${reason}`,
+  timedOut: (color) => `${color} ran out of time`,
+  resigned: (color) => `${color} resigned`,
+  endedEarly: "Ended early",
+  bothPassed: "Both players passed",
+  illegal: {
+    occupied: "That point is taken",
+    suicide: "Suicide is not allowed: the group would have no liberties",
+    ko: "Ko: the stone cannot be retaken right away",
+    notYourTurn: "It is not your turn",
+    gameOver: "Play has stopped, no stones can be placed",
+  },
+  roomErrors: {
+    occupied: "That point is taken",
+    suicide: "Suicide is not allowed",
+    ko: "Ko: the stone cannot be retaken right away",
+    notYourTurn: "It is not your turn",
+    gameOver: "The game is over",
+    badMove: "That move is not valid",
+    cannotMove: "Stones cannot be placed now",
+    cannotPass: "You cannot pass now",
+    notScoring: "The stones are not being counted yet",
+    drawOffered: "A draw has already been offered",
+    noDrawOffer: "There is no draw offer",
+    roomNotFound: "Room not found",
+    roomFull: "The room is full",
+    roomGone: "The room no longer exists",
+    badMessage: "Invalid message",
+    alreadyInRoom: "You are already in a room",
+    notInRoom: "You have not joined a room",
+    waitingForOpponent: "Waiting for the opponent to join",
+    disconnected: "Connection lost, reconnecting",
+    connectionFailed: "The connection was lost before joining the room; please try again",
+  },
+  aiPassed: "The computer passes",
+  aiFailed: "The engine failed to find a move",
+  opponentErrors: {
+    engineFailed: () => "The engine failed to find a move",
+    bridgeUnreachable: (url) => `Cannot reach the GTP bridge at ${url}`,
+    bridgeRefused: (status) => `The GTP bridge refused the request (${status}); check the bridge's --origin`,
+    commandRefused: (detail) => `The GTP engine refused the command ${detail}`,
+    badMove: (answer) => `The GTP engine answered with an invalid move: ${answer}`,
+  },
+  importedGame: (file, moves) => `Imported ${file}: ${moves} moves`,
+  sgfError: (message) => `SGF error: ${message}`,
+  sgfUnreadable: "Cannot read the SGF file",
+  sgfProblems: {
+    badPoint: ({ value }) => `Invalid SGF point "${value}"`,
+    pointOffBoard: ({ value, size }) => `SGF point "${value}" is off the ${size}x${size} board`,
+    unclosedValue: ({ at }) => `Missing ] to close a value (character ${at})`,
+    badPropertyName: ({ at }) => `Invalid property name (character ${at})`,
+    missingValue: ({ ident, at }) => `Property ${ident} has no value (character ${at})`,
+    repeatedProperty: ({ ident, at }) => `Property ${ident} appears twice in one node (character ${at})`,
+    treeWithoutNode: ({ at }) => `An SGF tree must start with a node (character ${at})`,
+    unclosedTree: ({ at }) => `Missing ) to close a tree (character ${at})`,
+    noGame: ({ at }) => `No SGF game found (character ${at})`,
+    multipleValues: ({ ident }) => `Property ${ident} must have exactly one value`,
+    bothColors: ({ node }) => `Node ${node}: has both B and W`,
+    notGo: ({ value }) => `GM[${value}]: the file is not a game of Go`,
+    notSquare: ({ value }) => `SZ[${value}]: only square boards are supported`,
+    unsupportedSize: ({ value }) => `SZ[${value}]: only ${BOARD_SIZES.join(", ")} boards are supported`,
+    badKomi: ({ value }) => `KM[${value}]: invalid komi`,
+    badHandicap: ({ value }) => `HA[${value}]: invalid handicap`,
+    badFirstPlayer: ({ value }) => `PL[${value}]: must be B or W`,
+    setupMidGame: ({ node }) => `Node ${node}: setup stones within a game are not supported (AB/AW/AE)`,
+    setupOverlap: ({ point }) => `AB and AW overlap at ${point}`,
+    illegalMove: ({ number, color, point, reason }) =>
+      `Move ${number} (${color === 1 ? "Black" : "White"} ${point}) is illegal: ${
+        reason === "ko" ? "ko" : reason === "occupied" ? "the point is taken" : "suicide"
+      }`,
+    setupMidProblem: ({ move }) => `Move ${move}: setup stones within a problem are not supported (AB/AW/AE)`,
+    problemPass: ({ move }) => `Move ${move}: problems do not use passes`,
+    problemIllegal: ({ move, point }) => `Move ${move} (${point}) is illegal`,
+    rootMove: ({ problem }) => `Problem ${problem}: the root node must not hold a move`,
+    noSolution: ({ problem }) => `Problem ${problem}: no solution`,
+    mixedFirstMoves: ({ problem }) => `Problem ${problem}: the first moves must all be one color`,
+    mixedSizes: ({ size }) => `SZ[${size}]: every game in the book must be on the same board`,
+    emptyBook: () => "The opening book holds no games",
+  },
+
+  onlineTitle: "Mode: online",
+  connecting: "Connecting to the server…",
+  reconnecting: "Connection lost, reconnecting…",
+  disconnected: "Disconnected",
+  waitingForOpponent: (code) => `Waiting for an opponent. Send them the room code ${code}.`,
+  opponentAway: "Your opponent lost the connection; waiting for them to come back",
+  room: "Room",
+  seatInfo: (color, size, rules) => `You play ${color} · ${size}x${size} board · ${rules}.`,
+  onlineScoringHelp: "Scoring: click a group to mark it dead or alive. The game ends when both players agree.",
+  opponentAccepted: "Your opponent agreed",
+  acceptedWaiting: "Agreed, waiting for your opponent",
+  acceptScore: "Agree to result",
+  resign: "Resign",
+  drawOffered: "Your opponent offers a draw:",
+  accept: "Accept",
+  decline: "Decline",
+  drawSent: "Draw offered",
+  offerDraw: "Offer a draw",
+
+  tsumegoTitle: "Life-and-death problems",
+  tsumegoIntro: "Place a stone to solve the problem; the computer answers from the solution and tells you if you are right.",
+  importProblemSet: "Import SGF problem set",
+  problemSet: "Problem set",
+  solvedCount: (solved, total) => `Solved ${solved}/${total}`,
+  problemSolved: "Solved",
+  problemFailed: "Not solved yet",
+  problemUntried: "Not tried",
+  resetProgress: "Reset progress",
+  removeProblemSet: "Remove set",
+  colorToPlay: (color) => `${color} to play`,
+  problemName: (n) => `Problem ${n}`,
+  correct: "Correct!",
+  wrong: "Not quite",
+  offTree: "Not quite: this move is not in the solution",
+  retry: "Try again",
+  nextProblem: "Next problem",
+  importedProblems: (n, file) => `Imported ${n} problems from ${file}`,
+
+  libraryTitle: "Game library",
+  libraryEmpty: "No games yet. Finished games are saved here.",
+  playersLine: (black, white) => `${black} (Black) – ${white} (White)`,
+  moveCount: (n) => `${n} moves`,
+  replay: "Replay",
+  remove: "Delete",
+  backToLibrary: "Back to library",
+  variations: "Variations",
+  variationsHelp: "Play from a past position to start a variation; click a move to switch lines.",
+  gameStart: "Start",
+  promoteLine: "Make main line",
+  deleteBranch: "Delete this move and what follows",
+  moveComment: "Comment on this move",
+  saveReview: "Save to library",
+  unsavedReview: "Unsaved changes",
+  gameReview: "Engine review",
+  startReview: "Review game",
+  reviewAgain: "Review again",
+  stopReview: "Stop",
+  reviewHelp: "The engine goes over every position of the main line to find the costliest moves; it takes a minute or two.",
+  reviewProgress: (done, total) => `Reviewing position ${done}/${total}…`,
+  winRateGraph: "Black's win rate move by move",
+  worstMovesOf: (color) => `${color}'s costliest moves`,
+  noMistakes: "No move lost much.",
+  verdicts: { good: "Good", inaccuracy: "Inaccuracy", mistake: "Mistake", blunder: "Blunder" },
+  reviewedMove: (n, point) => `Move ${n} ${point}`,
+  reviewLoss: (percent, points) => `loses ${percent}% win rate, ${points} points`,
+  engineSuggests: (point) => `engine prefers ${point}`,
+  jumpBeforeMove: "Go to the position before this move to try another",
+  reviewLastGame: "Replay and review",
+  notFinished: "Unfinished",
+  winByResign: (color) => `${color} wins by resignation`,
+  winByTime: (color) => `${color} wins on time`,
+  winByPoints: (color, margin) => `${color} wins by ${margin} points`,
+
+  stats: "Stats",
+  statsTitle: "Statistics and ratings",
+  statsIntro:
+    "Glicko ratings come from even games between two sides with profiles, the engine levels included. Handicap games only count in the statistics.",
+  noProfiles: "No profiles yet. A profile is created when a named player finishes their first game.",
+  newProfile: "New player name",
+  addProfile: "Add",
+  removeProfile: "Delete profile",
+  playerColumn: "Player",
+  ratingColumn: "Rating",
+  gamesColumn: "Games",
+  winsColumn: "Won",
+  lossesColumn: "Lost",
+  drawsColumn: "Drawn",
+  winRateColumn: "Win rate",
+  engineTag: "engine",
+  unrated: "unrated",
+  ratingValue: (rating, deviation) => `${rating} ± ${deviation}`,
+  byMode: "By mode",
+  bySize: "By board size",
+  byColor: "By color",
+  recentGames: "Recent games",
+  noGames: "No games yet.",
+  versus: (name) => `vs ${name}`,
+  untrackedPlayer: "another player",
+  outcomes: { win: "Won", loss: "Lost", draw: "Drawn" },
+};
+
+export const MESSAGES: Record<Locale, Messages> = { vi, en };
+
+// Everything a component needs to speak the chosen language
+export interface I18n {
+  locale: Locale;
+  notation: Notation;
+  t: Messages;
+  color: (color: Stone) => string;
+  point: (point: Position, size: number) => string;
+  rules: (rules: RuleSet) => string; // name and what it implies
+  sgfError: (err: SgfError) => string;
+}
+
+export function makeI18n(locale: Locale, notation: Notation): I18n {
+  const t = MESSAGES[locale];
+  return {
+    locale,
+    notation,
+    t,
+    color: (color) => (color === 1 ? t.black : color === 2 ? t.white : ""),
+    point: (point, size) => formatPoint(point, size, notation),
+    rules: (rules) => {
+      const details = [t.koRules[rules.koRule], t.scoringMethods[rules.scoring]].map((label) => label.toLowerCase());
+      if (rules.suicide) details.push(t.suicideAllowed);
+      if (rules.passStones) details.push(t.passStonesRule);
+      if (!rules.markDead) details.push(t.noDeadMarking);
+      return t.ruleDetails(t.ruleSets[rules.id], details.join(", "));
+    },
+    sgfError: ({ problem }) => {
+      const text = t.sgfProblems[problem.code] as (problem: SgfProblem) => string;
+      return t.sgfError(text(problem));
+    },
+  };
+}
+
+// ---- Coordinates ----
+
+function toKanji(n: number): string {
+  return n < 10 ? KANJI_DIGITS[n] : `${n >= 20 ? KANJI_DIGITS[Math.floor(n / 10)] : ""}十${KANJI_DIGITS[n % 10]}`;
+}
+
+function fromKanji(text: string): number {
+  const ten = text.indexOf("十");
+  if (ten < 0) return text.length === 1 ? KANJI_DIGITS.indexOf(text) : -1;
+  const tens = ten === 0 ? 1 : KANJI_DIGITS.indexOf(text.slice(0, ten));
+  const ones = ten === text.length - 1 ? 0 : KANJI_DIGITS.indexOf(text.slice(ten + 1));
+  return tens > 0 && ones >= 0 ? tens * 10 + ones : -1;
+}
+
+export function columnLabel(x: number, size: number, notation: Notation): string {
+  if (notation === "numeric") return String(x + 1);
+  if (notation === "japanese") return String(size - x);
+  return toGtpVertex({ x, y: 0 }, size).charAt(0);
+}
+
+export function rowLabel(y: number, size: number, notation: Notation): string {
+  return notation === "japanese" ? toKanji(y + 1) : String(size - y);
+}
+
+export function formatPoint(point: Position, size: number, notation: Notation): string {
+  if (notation === "gtp") return toGtpVertex(point, size);
+  if (notation === "numeric") return `${point.x + 1}-${size - point.y}`;
+  return `${size - point.x}${toKanji(point.y + 1)}`;
+}
+
+// Reads a point typed in the chosen notation; GTP vertices like "E5" are always
+// understood. Undefined when the text is not a point on the board.
+export function parsePoint(text: string, size: number, notation: Notation): Position | undefined {
+  const t = text.trim().replace(/\s*([-,]|の)\s*/g, "$1");
+  if (/^[a-z]\d+$/i.test(t)) return fromGtpVertex(t, size) ?? undefined;
+  const kanji = /^(\d+)の?([一二三四五六七八九十]+)$/.exec(t);
+  const pair = /^(\d+)[-,\s]+(\d+)$/.exec(t);
+  const [col, row] = kanji ? [Number(kanji[1]), fromKanji(kanji[2])] : pair ? [Number(pair[1]), Number(pair[2])] : [0, 0];
+  if (col < 1 || col > size || row < 1 || row > size) return undefined;
+  return notation === "japanese" || kanji ? { x: size - col, y: row - 1 } : { x: col - 1, y: size - row };
+}
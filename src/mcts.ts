@@ -0,0 +1,192 @@
+import { BLACK, EMPTY, FastBoard, PASS, WHITE } from "./fastBoard";
+import { mulberry32, type Position, type Stone } from "./goRules";
+
+// ---- Types & Constants ----
+
+export type AiLevel = "easy" | "medium" | "hard";
+
+export interface AiRequest {
+  id: number;
+  board: Stone[][];
+  toMove: Stone;
+  komi: number;
+  forbidden: Position[]; // points the engine may not play at the root (ko)
+  level: AiLevel;
+  seed?: number; // fixed seed for reproducible searches
+  playouts?: number; // overrides the level's playout budget
+  timeMs?: number; // overrides the level's time budget
+  analyze?: boolean; // also report candidates and ownership
+}
+
+export interface CandidateMove {
+  move: Position | null; // null for a pass
+  visits: number;
+  winRate: number; // for the side to move, 0..1
+}
+
+export interface AiResponse {
+  id: number;
+  move: Position | null; // null for a pass
+  resign: boolean;
+  winRate: number; // estimated for the side to move, 0..1
+  playouts: number;
+  candidates?: CandidateMove[]; // root moves, most visited first (analyze only)
+  ownership?: number[][]; // average final owner per point, 1 black to -1 white (analyze only)
+}
+
+// Search stops at whichever budget runs out first
+export const AI_LEVELS: Record<AiLevel, { playouts: number; timeMs: number }> = {
+  easy: { playouts: 300, timeMs: 500 },
+  medium: { playouts: 5000, timeMs: 2000 },
+  hard: { playouts: 30000, timeMs: 6000 },
+};
+
+const UCT_C = 0.8;
+const RESIGN_WIN_RATE = 0.08;
+const RESIGN_MIN_PLAYOUTS = 200;
+
+// ---- Playout policy ----
+
+// Candidate moves for the tree: legal, not filling own eyes, plus pass.
+function candidates(b: FastBoard): number[] {
+  const color = b.toMove;
+  const res: number[] = [];
+  for (const idx of b.points) {
+    if (b.isLegal(idx, color) && !b.isEye(idx, color)) res.push(idx);
+  }
+  res.push(PASS);
+  return res;
+}
+
+// Light playout policy: capture a chain the last move left in atari, otherwise a random non-eye move.
+export function playoutMove(b: FastBoard, rand: () => number): number {
+  const color = b.toMove;
+  if (b.lastMove !== PASS && b.cells[b.lastMove] === 3 - color && b.inAtari(b.lastMove)) {
+    const lib = b.atariLiberty(b.lastMove);
+    if (b.isLegal(lib, color)) return lib;
+  }
+  const n = b.points.length;
+  const start = Math.floor(rand() * n);
+  for (let i = 0; i < n; i++) {
+    const idx = b.points[(start + i) % n];
+    if (b.cells[idx] === EMPTY && !b.isEye(idx, color) && b.isLegal(idx, color)) return idx;
+  }
+  return PASS;
+}
+
+// ---- Tree search ----
+
+interface TreeNode {
+  move: number;
+  player: number; // who played `move`
+  parent: TreeNode | null;
+  children: TreeNode[];
+  untried: number[] | null; // null until the node is first expanded
+  visits: number;
+  wins: number; // from the point of view of `player`
+}
+
+function newNode(move: number, player: number, parent: TreeNode | null): TreeNode {
+  return { move, player, parent, children: [], untried: null, visits: 0, wins: 0 };
+}
+
+function selectChild(node: TreeNode): TreeNode {
+  const logN = Math.log(node.visits);
+  let best = node.children[0];
+  let bestValue = -Infinity;
+  for (const c of node.children) {
+    const value = c.wins / c.visits + UCT_C * Math.sqrt(logN / c.visits);
+    if (value > bestValue) {
+      bestValue = value;
+      best = c;
+    }
+  }
+  return best;
+}
+
+export function runPlayout(b: FastBoard, komi: number, rand: () => number): number {
+  const maxMoves = b.points.length * 3;
+  for (let i = 0; i < maxMoves && b.passes < 2; i++) {
+    const move = playoutMove(b, rand);
+    if (move === PASS) b.pass();
+    else b.play(move);
+  }
+  return b.score(komi) > 0 ? BLACK : WHITE;
+}
+
+export function searchMove(request: AiRequest): AiResponse {
+  const { playouts = AI_LEVELS[request.level].playouts, timeMs = AI_LEVELS[request.level].timeMs } = request;
+  const rand = mulberry32(request.seed ?? Math.floor(Math.random() * 2 ** 32));
+  const rootBoard = FastBoard.fromStones(request.board, request.toMove);
+  const forbidden = new Set(request.forbidden.map((p) => rootBoard.index(p.x, p.y)));
+  const root = newNode(PASS, 3 - request.toMove, null);
+  root.untried = candidates(rootBoard).filter((m) => !forbidden.has(m));
+
+  const work = new FastBoard(rootBoard.size, request.toMove, false);
+  const owned = request.analyze ? new Float64Array(rootBoard.cells.length) : null;
+  const deadline = Date.now() + timeMs;
+  let done = 0;
+  while (done < playouts && Date.now() < deadline) {
+    work.copyFrom(rootBoard);
+    let node = root;
+    // Selection
+    while (node.untried && node.untried.length === 0 && node.children.length > 0) {
+      node = selectChild(node);
+      if (node.move === PASS) work.pass();
+      else work.play(node.move);
+    }
+    // Expansion
+    if (work.passes < 2) {
+      if (!node.untried) node.untried = candidates(work);
+      if (node.untried.length > 0) {
+        const i = Math.floor(rand() * node.untried.length);
+        const move = node.untried[i];
+        node.untried[i] = node.untried[node.untried.length - 1];
+        node.untried.pop();
+        const child = newNode(move, work.toMove, node);
+        node.children.push(child);
+        if (move === PASS) work.pass();
+        else work.play(move);
+        node = child;
+      }
+    }
+    // Simulation and backpropagation
+    const winner = runPlayout(work, request.komi, rand);
+    if (owned) {
+      for (const idx of work.points) {
+        const owner = work.owner(idx);
+        if (owner === BLACK) owned[idx]++;
+        else if (owner === WHITE) owned[idx]--;
+      }
+    }
+    for (let n: TreeNode | null = node; n; n = n.parent) {
+      n.visits++;
+      if (n.player === winner) n.wins++;
+    }
+    done++;
+  }
+
+  if (root.children.length === 0) {
+    return { id: request.id, move: null, resign: false, winRate: 0, playouts: done };
+  }
+  let best = root.children[0];
+  for (const c of root.children) if (c.visits > best.visits) best = c;
+  const winRate = best.wins / best.visits;
+  const toPosition = (move: number) => (move === PASS ? null : rootBoard.position(move));
+  const response: AiResponse = {
+    id: request.id,
+    move: toPosition(best.move),
+    resign: done >= RESIGN_MIN_PLAYOUTS && winRate < RESIGN_WIN_RATE,
+    winRate,
+    playouts: done,
+  };
+  if (owned) {
+    response.candidates = [...root.children]
+      .sort((a, b) => b.visits - a.visits)
+      .map((c) => ({ move: toPosition(c.move), visits: c.visits, winRate: c.wins / c.visits }));
+    response.ownership = Array.from({ length: rootBoard.size }, (_, y) =>
+      Array.from({ length: rootBoard.size }, (_, x) => owned[rootBoard.index(x, y)] / done)
+    );
+  }
+  return response;
+}
@@ -0,0 +1,9 @@
+import { searchMove, type AiRequest } from "./mcts";
+
+// Runs the MCTS search off the main thread. searchInWorker starts one worker per
+// search and terminates it when the position changes, which also cancels the search.
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (e: MessageEvent<AiRequest>) => {
+  ctx.postMessage(searchMove(e.data));
+};
@@ -0,0 +1,202 @@
+import {
+  applyMove,
+  currentPosition,
+  finishByScore,
+  newGame,
+  pass,
+  resign,
+  resumePlay,
+  toggleDead,
+  type GameState,
+  type IllegalReason,
+} from "./gameState";
+import { BOARD_SIZES, MAX_HANDICAP, RULE_SETS, RULE_SET_IDS, inBounds, type RuleSetId, type Stone } from "./goRules";
+import type { StoredGame } from "./storage";
+
+// Online play through src/relayServer.ts: the message protocol shared by the relay
+// and the browser, and the room rules the relay enforces. The relay owns the game;
+// clients send intentions and redraw from the full room state it broadcasts after
+// every change, which also resyncs a client after a reconnect.
+
+// ---- Types & Constants ----
+
+export interface RoomSettings {
+  size: number;
+  rules: RuleSetId;
+  komi: number;
+  handicap: number; // fixed star points, 0 for an even game
+}
+
+// Requests that open a connection to a room
+export type RoomRequest =
+  | { type: "create"; name: string; color: Stone; settings: RoomSettings }
+  | { type: "join"; code: string; name: string }
+  | { type: "rejoin"; code: string; token: string };
+
+// Actions of a seated player
+export type RoomAction =
+  | { type: "move"; x: number; y: number }
+  | { type: "pass" }
+  | { type: "resign" }
+  | { type: "toggleDead"; x: number; y: number }
+  | { type: "acceptScore" }
+  | { type: "resume" } // leave the scoring phase and play on
+  | { type: "offerDraw" }
+  | { type: "answerDraw"; accept: boolean };
+
+export type ClientMessage = RoomRequest | RoomAction;
+
+// What every client sees of a room
+export interface RoomView {
+  code: string;
+  game: StoredGame; // replay with restoreGame()
+  connected: { black: boolean; white: boolean };
+  seated: { black: boolean; white: boolean }; // false until the second player joins
+  drawOffer: Stone; // player with a pending draw offer, 0 for none
+  scoreAccepted: { black: boolean; white: boolean }; // agreement on the dead stones
+}
+
+export type ServerMessage =
+  | { type: "joined"; code: string; color: Stone; token: string }
+  | { type: "sync"; room: RoomView }
+  | { type: "error"; code: RoomError; fatal: boolean }; // fatal: the connection is refused
+
+export const DEFAULT_RELAY_URL = "ws://localhost:8766";
+
+// Room codes avoid look-alike characters (0/O, 1/I)
+export const ROOM_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+export const ROOM_CODE_LENGTH = 5;
+
+// Why the relay refuses a request or an action. Only the code goes over the wire;
+// clients word it in their own language.
+export type RoomError =
+  | IllegalReason
+  | "badMove" // off the board or otherwise malformed
+  | "cannotMove" // not while stones are counted
+  | "cannotPass"
+  | "notScoring"
+  | "drawOffered"
+  | "noDrawOffer"
+  | "roomNotFound"
+  | "roomFull"
+  | "roomGone" // the seat token no longer opens a room
+  | "badMessage"
+  | "alreadyInRoom"
+  | "notInRoom"
+  | "waitingForOpponent";
+
+// The part of a room that changes with play
+export interface RoomGame {
+  state: GameState;
+  drawOffer: Stone;
+  scoreAccepted: { black: boolean; white: boolean };
+}
+
+// ---- Room rules ----
+
+export function newRoomGame(settings: RoomSettings, players: GameState["players"]): RoomGame {
+  return {
+    state: newGame({ ...settings, rules: RULE_SETS[settings.rules], placement: "fixed", players }),
+    drawOffer: 0,
+    scoreAccepted: { black: false, white: false },
+  };
+}
+
+function colorKey(color: Stone): "black" | "white" {
+  return color === 1 ? "black" : "white";
+}
+
+// A game drawn by agreement keeps the scores of the current position for the record.
+function agreeDraw(state: GameState): GameState {
+  const res = resign(state, 1);
+  const { resignation: _, ...result } = res.result!;
+  return { ...res, result: { ...result, winner: "draw" } };
+}
+
+// Apply `color`'s action, or explain why it is refused. Every change to the position
+// or the dead stones withdraws pending draw offers and score agreements.
+export function applyRoomAction(room: RoomGame, color: Stone, action: RoomAction): { room: RoomGame; error?: RoomError } {
+  const { state } = room;
+  const fresh = (next: GameState): { room: RoomGame } => ({
+    room: { state: next, drawOffer: 0, scoreAccepted: { black: false, white: false } },
+  });
+  if (state.phase === "finished") return { room, error: "gameOver" };
+  const size = state.timeline[0].board.length;
+  if ("x" in action && !inBounds(action.x, action.y, size)) return { room, error: "badMove" };
+  switch (action.type) {
+    case "move": {
+      if (state.phase !== "playing") return { room, error: "cannotMove" };
+      if (currentPosition(state).toMove !== color) return { room, error: "notYourTurn" };
+      const res = applyMove(state, action.x, action.y, color);
+      if (!res.legal) return { room, error: res.reason ?? "badMove" };
+      return fresh(res.state);
+    }
+    case "pass":
+      if (state.phase !== "playing") return { room, error: "cannotPass" };
+      if (currentPosition(state).toMove !== color) return { room, error: "notYourTurn" };
+      return fresh(pass(state, color));
+    case "resign":
+      return fresh(resign(state, color));
+    case "toggleDead":
+      if (state.phase !== "scoring") return { room, error: "notScoring" };
+      return fresh(toggleDead(state, action.x, action.y));
+    case "resume":
+      if (state.phase !== "scoring") return { room, error: "notScoring" };
+      return fresh(resumePlay(state));
+    case "acceptScore": {
+      if (state.phase !== "scoring") return { room, error: "notScoring" };
+      const scoreAccepted = { ...room.scoreAccepted, [colorKey(color)]: true };
+      if (scoreAccepted.black && scoreAccepted.white) return fresh(finishByScore(state));
+      return { room: { ...room, scoreAccepted } };
+    }
+    case "offerDraw":
+      if (room.drawOffer) return { room, error: "drawOffered" };
+      return { room: { ...room, drawOffer: color } };
+    case "answerDraw":
+      if (!room.drawOffer || room.drawOffer === color) return { room, error: "noDrawOffer" };
+      return action.accept ? fresh(agreeDraw(state)) : { room: { ...room, drawOffer: 0 } };
+  }
+}
+
+// ---- Message checks ----
+
+const isInt = (v: unknown) => Number.isInteger(v);
+const isText = (v: unknown, max: number) => typeof v === "string" && v.length <= max;
+
+// Validate an untrusted message; the relay drops anything that fails.
+export function parseClientMessage(raw: string): ClientMessage | null {
+  let msg: Record<string, unknown>;
+  try {
+    msg = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (!msg || typeof msg !== "object") return null;
+  switch (msg.type) {
+    case "create": {
+      const s = msg.settings as Record<string, unknown> | undefined;
+      if (!isText(msg.name, 40) || (msg.color !== 1 && msg.color !== 2) || !s) return null;
+      if (!BOARD_SIZES.includes(s.size as never) || typeof s.komi !== "number" || !Number.isFinite(s.komi)) return null;
+      if (!isInt(s.handicap) || (s.handicap as number) < 0 || (s.handicap as number) > MAX_HANDICAP) return null;
+      if (!RULE_SET_IDS.includes(s.rules as never)) return null;
+      return msg as unknown as ClientMessage;
+    }
+    case "join":
+      return isText(msg.code, 16) && isText(msg.name, 40) ? (msg as unknown as ClientMessage) : null;
+    case "rejoin":
+      return isText(msg.code, 16) && isText(msg.token, 64) ? (msg as unknown as ClientMessage) : null;
+    case "move":
+    case "toggleDead":
+      return isInt(msg.x) && isInt(msg.y) ? (msg as unknown as ClientMessage) : null;
+    case "answerDraw":
+      return typeof msg.accept === "boolean" ? (msg as unknown as ClientMessage) : null;
+    case "pass":
+    case "resign":
+    case "acceptScore":
+    case "resume":
+    case "offerDraw":
+      return msg as unknown as ClientMessage;
+    default:
+      return null;
+  }
+}
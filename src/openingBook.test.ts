@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { makeEmptyBoard, type Stone } from "./goRules";
+import { BOOK_PLIES, bookMoves, canonicalPosition, chooseBookMove, parseOpeningBook, pickBookMove } from "./openingBook";
+import { BUILTIN_OPENING_BOOK } from "./openingBookData";
+import { SgfError } from "./sgf";
+
+function boardWith(stones: [number, number, Stone][], size = 9): Stone[][] {
+  const board = makeEmptyBoard(size);
+  for (const [x, y, color] of stones) board[y][x] = color;
+  return board;
+}
+
+// A line of `passes` passes and then a stone at the center
+function afterPasses(passes: number): string {
+  const nodes = Array.from({ length: passes }, (_, i) => (i % 2 ? ";W[]" : ";B[]"));
+  return `(;SZ[9]${nodes.join("")};${passes % 2 ? "W" : "B"}[ee])`;
+}
+
+describe("canonicalPosition", () => {
+  it("gives every orientation of a position the same key", () => {
+    const corners: [number, number][] = [[2, 2], [6, 2], [2, 6], [6, 6]];
+    const keys = corners.map(([x, y]) => canonicalPosition(boardWith([[x, y, 1]]), 2).key);
+    expect(new Set(keys).size).toBe(1);
+    expect(canonicalPosition(boardWith([[2, 2, 1]]), 1).key).not.toBe(keys[0]);
+  });
+
+  it("lists every symmetry of a symmetric position", () => {
+    expect(canonicalPosition(makeEmptyBoard(9), 1).transforms).toHaveLength(8);
+    expect(canonicalPosition(boardWith([[2, 2, 1]]), 2).transforms).toHaveLength(2);
+  });
+});
+
+describe("parseOpeningBook", () => {
+  it("reads the built-in book", () => {
+    const book = parseOpeningBook(BUILTIN_OPENING_BOOK.sgf, BUILTIN_OPENING_BOOK.name);
+    expect(book.size).toBe(9);
+    const moves = bookMoves(book, makeEmptyBoard(9), 1);
+    expect(moves[0]).toMatchObject({ x: 4, y: 4 });
+    expect(moves.reduce((sum, m) => sum + m.share, 0)).toBeCloseTo(1);
+  });
+
+  it("weighs a move by the lines through it", () => {
+    const book = parseOpeningBook("(;SZ[9](;B[ee](;W[cc])(;W[gc]))(;B[cg]))", "test");
+    const [center, ...corners] = bookMoves(book, makeEmptyBoard(9), 1);
+    expect(center).toEqual({ x: 4, y: 4, share: 2 / 3 });
+    // The 3-3 point shows in all four corners of the empty board
+    expect(corners).toHaveLength(4);
+    for (const corner of corners) expect(corner.share).toBeCloseTo(1 / 12);
+  });
+
+  it("finds a line in every orientation", () => {
+    const book = parseOpeningBook("(;SZ[9];B[cc];W[gg])", "test");
+    expect(bookMoves(book, boardWith([[6, 6, 1]]), 2)).toEqual([{ x: 2, y: 2, share: 1 }]);
+    expect(bookMoves(book, boardWith([[6, 6, 1]]), 1)).toEqual([]);
+    expect(bookMoves(book, makeEmptyBoard(13), 1)).toEqual([]);
+  });
+
+  it(`reads only the first ${BOOK_PLIES} moves of a line`, () => {
+    expect(parseOpeningBook(afterPasses(BOOK_PLIES - 1), "test").entries.size).toBe(1);
+    expect(parseOpeningBook(afterPasses(BOOK_PLIES), "test").entries.size).toBe(0);
+  });
+
+  it("refuses books on different boards or without games", () => {
+    expect(() => parseOpeningBook("(;SZ[9];B[ee])(;SZ[13];B[gg])", "test")).toThrow(
+      expect.objectContaining({ problem: { code: "mixedSizes", size: 13 } })
+    );
+    expect(() => parseOpeningBook("", "test")).toThrow(SgfError);
+  });
+});
+
+describe("picking a book move", () => {
+  const book = parseOpeningBook("(;SZ[9](;B[ee])(;B[ee])(;B[ee])(;B[fd]))", "test");
+
+  it("picks by share", () => {
+    const moves = bookMoves(book, makeEmptyBoard(9), 1);
+    expect(pickBookMove(moves, 0)).toMatchObject({ x: 4, y: 4 });
+    expect(pickBookMove(moves, 0.99)).not.toMatchObject({ x: 4, y: 4 });
+    expect(pickBookMove([], 0.5)).toBeNull();
+  });
+
+  it("skips moves the ko rule or the board forbid", () => {
+    const empty = makeEmptyBoard(9);
+    expect(chooseBookMove(book, empty, 1, [], 0)).toEqual({ x: 4, y: 4 });
+    const move = chooseBookMove(book, empty, 1, [{ x: 4, y: 4 }], 0);
+    expect(move).not.toBeNull();
+    expect(move).not.toEqual({ x: 4, y: 4 });
+    expect(chooseBookMove(book, boardWith([[4, 4, 2]]), 1, [], 0)).toBeNull();
+  });
+});
@@ -0,0 +1,190 @@
+import { RULE_SETS, tryPlay, type Position, type RuleSet, type Snapshot, type Stone } from "./goRules";
+import {
+  SgfError,
+  parseSgfCollection,
+  playSgfMove,
+  sgfGameFromNodes,
+  sgfMainLine,
+  sgfNodeMove,
+  sgfRuleSet,
+  sgfStart,
+  type SgfTree,
+} from "./sgf";
+
+// Opening books: known good moves for early positions, read from an SGF collection
+// whose variations are the book lines. A position is keyed by its stones and the
+// side to move under whichever of the 8 rotations and reflections gives the
+// smallest key, so a line learnt in one corner is found in all four. The more lines
+// of the file pass through a move, the more often it is picked.
+
+// ---- Types & Constants ----
+
+export interface BookMove extends Position {
+  share: number; // chance of being picked; the shares of a position add up to 1
+}
+
+export interface OpeningBook {
+  name: string;
+  size: number;
+  // canonical key → canonical point index (y * size + x) → lines through the move
+  entries: Map<string, Map<number, number>>;
+}
+
+export const BOOK_PLIES = 30; // moves read from each line; a whole game makes no book
+
+// The 8 symmetries of a square board, and the index of each one's inverse
+const TRANSFORMS: ((p: Position, n: number) => Position)[] = [
+  ({ x, y }) => ({ x, y }),
+  ({ x, y }, n) => ({ x: n - 1 - x, y }),
+  ({ x, y }, n) => ({ x, y: n - 1 - y }),
+  ({ x, y }, n) => ({ x: n - 1 - x, y: n - 1 - y }),
+  ({ x, y }) => ({ x: y, y: x }),
+  ({ x, y }, n) => ({ x: n - 1 - y, y: x }),
+  ({ x, y }, n) => ({ x: y, y: n - 1 - x }),
+  ({ x, y }, n) => ({ x: n - 1 - y, y: n - 1 - x }),
+];
+const INVERSE = [0, 1, 2, 3, 4, 6, 5, 7];
+
+// ---- Symmetry ----
+
+function transformKey(board: Stone[][], toMove: Stone, t: number): string {
+  const n = board.length;
+  const cells: Stone[] = new Array(n * n);
+  board.forEach((row, y) =>
+    row.forEach((cell, x) => {
+      const p = TRANSFORMS[t]({ x, y }, n);
+      cells[p.y * n + p.x] = cell;
+    })
+  );
+  return `${toMove}:${cells.join("")}`;
+}
+
+// The smallest key over the symmetries, with every symmetry that gives it: more
+// than one when the position is itself symmetric.
+export function canonicalPosition(board: Stone[][], toMove: Stone): { key: string; transforms: number[] } {
+  let key = "";
+  let transforms: number[] = [];
+  for (let t = 0; t < TRANSFORMS.length; t++) {
+    const k = transformKey(board, toMove, t);
+    if (!transforms.length || k < key) {
+      key = k;
+      transforms = [t];
+    } else if (k === key) {
+      transforms.push(t);
+    }
+  }
+  return { key, transforms };
+}
+
+// A move in the canonical frame. On a symmetric position equal moves are merged
+// under the smallest index, so their lines add up.
+function canonicalMove(p: Position, n: number, transforms: number[]): number {
+  return Math.min(
+    ...transforms.map((t) => {
+      const q = TRANSFORMS[t](p, n);
+      return q.y * n + q.x;
+    })
+  );
+}
+
+// ---- Building ----
+
+// Adds a tree's moves to the book, each counted once for every line through it,
+// and returns the number of lines
+function learn(book: OpeningBook, timeline: Snapshot[], { nodes, variations }: SgfTree, rules: RuleSet): number {
+  const counted: [string, number][] = [];
+  let lines = 0;
+  for (const node of nodes) {
+    const number = timeline.length;
+    const move = sgfNodeMove(node, book.size, number);
+    if (!move) continue;
+    if (number > BOOK_PLIES) {
+      variations = []; // the rest of the line and its branches lie beyond the book
+      break;
+    }
+    const { board } = timeline[timeline.length - 1];
+    if (move.point) {
+      const { key, transforms } = canonicalPosition(board, move.color);
+      counted.push([key, canonicalMove(move.point, book.size, transforms)]);
+    }
+    timeline = playSgfMove(timeline, move, rules, number);
+  }
+  for (const variation of variations) lines += learn(book, timeline, variation, rules);
+  lines = Math.max(lines, 1);
+  for (const [key, index] of counted) {
+    const moves = book.entries.get(key) ?? new Map<number, number>();
+    moves.set(index, (moves.get(index) ?? 0) + lines);
+    book.entries.set(key, moves);
+  }
+  return lines;
+}
+
+// Reads a book from an SGF collection. Every game must be on the same board; a
+// root with setup stones (handicap) starts its lines from those stones.
+export function parseOpeningBook(text: string, name: string): OpeningBook {
+  const trees = parseSgfCollection(text);
+  let book: OpeningBook | null = null;
+  for (const tree of trees) {
+    const [root, ...rest] = tree.nodes;
+    const game = sgfGameFromNodes(sgfMainLine(tree));
+    if (book && game.size !== book.size) throw new SgfError({ code: "mixedSizes", size: game.size });
+    book ??= { name, size: game.size, entries: new Map() };
+    // The root's own move, if any, is read like any other node
+    const rootMove = new Map([...root].filter(([ident]) => ident === "B" || ident === "W"));
+    const rules = sgfRuleSet(game.rules) ?? RULE_SETS.chinese;
+    learn(book, sgfStart(game), { nodes: [rootMove, ...rest], variations: tree.variations }, rules);
+  }
+  if (!book) throw new SgfError({ code: "emptyBook" });
+  return book;
+}
+
+// ---- Lookup ----
+
+// The book's moves for a position, on the board as it lies, most played first.
+// On a symmetric position each book move shows at all its equal points, sharing
+// the move's chance between them.
+export function bookMoves(book: OpeningBook, board: Stone[][], toMove: Stone): BookMove[] {
+  if (board.length !== book.size) return [];
+  const { key, transforms } = canonicalPosition(board, toMove);
+  const entry = book.entries.get(key);
+  if (!entry) return [];
+  const n = book.size;
+  const total = [...entry.values()].reduce((a, b) => a + b, 0);
+  const moves = new Map<number, BookMove>();
+  for (const [index, lines] of entry) {
+    const canonical = { x: index % n, y: Math.floor(index / n) };
+    const points = new Map<number, Position>();
+    for (const t of transforms) {
+      const p = TRANSFORMS[INVERSE[t]](canonical, n);
+      points.set(p.y * n + p.x, p);
+    }
+    for (const [at, p] of points) moves.set(at, { ...p, share: lines / total / points.size });
+  }
+  return [...moves.values()].sort((a, b) => b.share - a.share);
+}
+
+// Picks a move by its share; `random` is a number in 0..1
+export function pickBookMove(moves: BookMove[], random: number): BookMove | null {
+  let left = random * moves.reduce((sum, m) => sum + m.share, 0);
+  for (const move of moves) {
+    left -= move.share;
+    if (left < 0) return move;
+  }
+  return moves[moves.length - 1] ?? null;
+}
+
+// A legal book move for the engine, or null to search. `forbidden` are the points
+// the ko rule closes, as given to the search.
+export function chooseBookMove(
+  book: OpeningBook,
+  board: Stone[][],
+  toMove: Stone,
+  forbidden: Position[],
+  random = Math.random()
+): Position | null {
+  const moves = bookMoves(book, board, toMove).filter(
+    (m) => !forbidden.some((f) => f.x === m.x && f.y === m.y) && tryPlay(board, m.x, m.y, toMove).legal
+  );
+  const move = pickBookMove(moves, random);
+  return move ? { x: move.x, y: move.y } : null;
+}
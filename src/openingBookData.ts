@@ -0,0 +1,34 @@
+// The opening book that ships with the app, in the SGF format read by
+// parseOpeningBook. Lines are written in one corner only; the book finds them in
+// every orientation.
+
+export interface BuiltinOpeningBook {
+  name: string;
+  sgf: string;
+}
+
+export const BUILTIN_OPENING_BOOK: BuiltinOpeningBook = {
+  name: "Khai cuộc 9x9",
+  sgf: `
+(;GM[1]FF[4]SZ[9]RU[Chinese]KM[7]GN[Khai cuộc 9x9]
+C[Những thế mở đầu thường gặp trên bàn 9x9.]
+(;B[ee]C[Thiên nguyên: Đen nhắm tới cả bốn góc.]
+  (;W[gc]C[Trắng vào góc 3-3.]
+    (;B[fc];W[gd];B[fd];W[ge];B[fe];W[hf])
+    (;B[gd];W[fc];B[fd];W[ec];B[dd])
+    (;B[fd];W[cf];B[dg]))
+  (;W[gd]C[Trắng chiếm góc 3-4.]
+    (;B[fd];W[gc];B[ge];W[he];B[gf])
+    (;B[gc];W[hc];B[fd];W[ge];B[fe])
+    (;B[fe];W[fc];B[cd]))
+  (;W[ge]C[Trắng bám biên, nhắm sống nhanh.]
+    (;B[fe];W[gf];B[fg];W[gg])
+    (;B[gd];W[ff];B[fe])))
+(;B[fd]C[Góc 4-4 lệch: kín đáo hơn thiên nguyên.]
+  (;W[df];B[ee];W[de];B[ed])
+  (;W[ee];B[ed];W[de];B[dd]))
+(;B[gc]C[Góc 3-3: chắc chắn nhưng chậm.]
+  (;W[ee];B[cg];W[ce])
+  (;W[cg];B[ee])))
+`,
+};
@@ -0,0 +1,140 @@
+import { currentPosition, type GameState } from "./gameState";
+import { koForbidden, type Position, type Stone } from "./goRules";
+import { fromGtpVertex, syncCommands, toGtpColor, type GtpResponse } from "./gtp";
+import { searchMove, type AiLevel, type AiRequest, type AiResponse } from "./mcts";
+import { chooseBookMove, type OpeningBook } from "./openingBook";
+
+// Move sources for AiGame. An opponent is asked for one move at a time and is
+// told to stop through the AbortSignal when the position changes under it.
+
+// ---- Types & Constants ----
+
+export interface OpponentReply {
+  move: Position | null; // null for a pass
+  resign: boolean;
+}
+
+export interface Opponent {
+  id: string; // stable across games, for the ratings
+  name: string; // shown in the header and written to the SGF record
+  genmove(state: GameState, color: Stone, signal: AbortSignal): Promise<OpponentReply>;
+}
+
+export type OpponentKind = "builtin" | "gtp";
+
+export const DEFAULT_GTP_BRIDGE_URL = "http://127.0.0.1:8765"; // the bridge listens on loopback only
+
+// Why an opponent gave no move; the page words it, `detail` fills in the particulars
+export type OpponentErrorCode =
+  | "engineFailed" // the built-in search crashed
+  | "bridgeUnreachable" // detail: the bridge URL
+  | "bridgeRefused" // detail: the HTTP status
+  | "commandRefused" // detail: the command and the engine's answer
+  | "badMove"; // detail: what the engine answered
+
+export class OpponentError extends Error {
+  constructor(
+    readonly code: OpponentErrorCode,
+    readonly detail = ""
+  ) {
+    super(detail ? `${code}: ${detail}` : code);
+    this.name = "OpponentError";
+  }
+}
+
+// ---- Built-in engine ----
+
+// Run one MCTS search in a Web Worker; aborting terminates it. Also used for the
+// analysis overlays.
+export function searchInWorker(request: AiRequest, signal: AbortSignal): Promise<AiResponse> {
+  return new Promise<AiResponse>((resolve, reject) => {
+    if (typeof Worker === "undefined") {
+      // No worker support (server rendering, tests): search on the main thread
+      const timer = setTimeout(() => resolve(searchMove(request)), 0);
+      signal.addEventListener("abort", () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      });
+      return;
+    }
+    const worker = new Worker(new URL("./mctsWorker.ts", import.meta.url), { type: "module" });
+    worker.onmessage = (e: MessageEvent<AiResponse>) => {
+      worker.terminate();
+      resolve(e.data);
+    };
+    worker.onerror = () => {
+      worker.terminate();
+      reject(new OpponentError("engineFailed"));
+    };
+    signal.addEventListener("abort", () => {
+      worker.terminate();
+      reject(signal.reason);
+    });
+    worker.postMessage(request);
+  });
+}
+
+// The built-in engine, one worker per move. While the game is still in `book`
+// it plays a book move without searching.
+export function mctsOpponent(level: AiLevel, name: string, book: OpeningBook | null = null): Opponent {
+  return {
+    id: `ai:${level}`,
+    name,
+    async genmove(state, color, signal) {
+      const { board } = currentPosition(state);
+      const forbidden = koForbidden(state.timeline, state.rules.koRule);
+      const known = book && chooseBookMove(book, board, color, forbidden);
+      if (known) return { move: known, resign: false };
+      const request: AiRequest = {
+        id: state.timeline.length,
+        board,
+        toMove: color,
+        komi: state.komi,
+        forbidden,
+        level,
+      };
+      const reply = await searchInWorker(request, signal);
+      return { move: reply.move, resign: reply.resign };
+    },
+  };
+}
+
+// ---- External GTP engine ----
+
+// Any local GTP engine behind src/gtpBridge.ts. The bridge is stateless from our
+// side: every request replays the whole game before asking for a move, so undo
+// and takebacks need no extra commands.
+export function gtpOpponent(url: string, name: string): Opponent {
+  return {
+    id: "ai:gtp",
+    name,
+    async genmove(state, color, signal) {
+      const commands = [...syncCommands(state), `genmove ${toGtpColor(color)}`];
+      let res: Response;
+      try {
+        res = await fetch(url, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ commands }),
+          signal,
+        });
+      } catch (err) {
+        if (signal.aborted) throw err;
+        throw new OpponentError("bridgeUnreachable", url);
+      }
+      // The bridge turns away other origins and commands it does not pass on
+      if (!res.ok) throw new OpponentError("bridgeRefused", `HTTP ${res.status}`);
+      const { responses } = (await res.json()) as { responses: GtpResponse[] };
+      const last = responses[responses.length - 1];
+      if (responses.length < commands.length || !last.ok) {
+        const command = commands[Math.max(0, responses.length - 1)];
+        throw new OpponentError("commandRefused", `"${command}": ${last?.text ?? ""}`);
+      }
+      const vertex = last.text.toLowerCase();
+      if (vertex === "resign") return { move: null, resign: true };
+      const move = fromGtpVertex(vertex, state.timeline[0].board.length);
+      if (move === undefined) throw new OpponentError("badMove", last.text);
+      return { move, resign: false };
+    },
+  };
+}
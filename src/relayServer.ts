@@ -0,0 +1,336 @@
+import { createHash, randomBytes, randomInt } from "node:crypto";
+import { createServer, type IncomingMessage } from "node:http";
+import type { Duplex } from "node:stream";
+import {
+  ROOM_CODE_ALPHABET,
+  ROOM_CODE_LENGTH,
+  applyRoomAction,
+  newRoomGame,
+  parseClientMessage,
+  type RoomError,
+  type RoomGame,
+  type RoomRequest,
+  type RoomView,
+  type ServerMessage,
+} from "./online";
+import { DEFAULT_PLAYERS } from "./gameState";
+import type { Stone } from "./goRules";
+import { serializeGame } from "./storage";
+
+// WebSocket relay for online games. Rooms live in memory: the creator gets a room
+// code to pass on, the second player joins with it, and both get a seat token to
+// rejoin after a dropped connection. Every move is checked with the same rules as
+// the local game before it is broadcast. Start it with
+//   npx tsx src/relayServer.ts --port 8766
+// The WebSocket framing (RFC 6455, text frames only) is done by hand so the relay
+// needs nothing beyond Node itself.
+
+// ---- WebSocket connection ----
+
+const WS_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+const MAX_MESSAGE_BYTES = 64 * 1024;
+const PING_INTERVAL_MS = 30_000;
+
+class WsConnection {
+  private buffer = Buffer.alloc(0);
+  private fragments: Buffer[] = [];
+  private closed = false;
+  alive = true; // answered the last ping
+  onMessage: (text: string) => void = () => {};
+  onClose: () => void = () => {};
+
+  constructor(private socket: Duplex) {
+    socket.on("data", (chunk: Buffer) => {
+      this.buffer = Buffer.concat([this.buffer, chunk]);
+      this.readFrames();
+    });
+    socket.on("close", () => this.finish());
+    socket.on("error", () => this.finish());
+  }
+
+  private finish() {
+    if (this.closed) return;
+    this.closed = true;
+    this.socket.destroy();
+    this.onClose();
+  }
+
+  private readFrames() {
+    while (this.buffer.length >= 2) {
+      const fin = (this.buffer[0] & 0x80) !== 0;
+      const opcode = this.buffer[0] & 0x0f;
+      const masked = (this.buffer[1] & 0x80) !== 0;
+      let length = this.buffer[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (this.buffer.length < 4) return;
+        length = this.buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (this.buffer.length < 10) return;
+        length = Number(this.buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+      // Clients must mask their frames
+      if (!masked || length > MAX_MESSAGE_BYTES) return this.close(1002);
+      if (this.buffer.length < offset + 4 + length) return;
+      const mask = this.buffer.subarray(offset, offset + 4);
+      const payload = Buffer.from(this.buffer.subarray(offset + 4, offset + 4 + length));
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i & 3];
+      this.buffer = this.buffer.subarray(offset + 4 + length);
+
+      switch (opcode) {
+        case 0x0: // continuation
+        case 0x1: // text
+          this.fragments.push(payload);
+          if (this.fragments.reduce((n, f) => n + f.length, 0) > MAX_MESSAGE_BYTES) return this.close(1009);
+          if (fin) {
+            const text = Buffer.concat(this.fragments).toString("utf8");
+            this.fragments = [];
+            this.onMessage(text);
+          }
+          break;
+        case 0x8: // close
+          return this.close(1000);
+        case 0x9: // ping
+          this.writeFrame(0xa, payload);
+          break;
+        case 0xa: // pong
+          this.alive = true;
+          break;
+        default:
+          return this.close(1003); // binary frames are not part of the protocol
+      }
+    }
+  }
+
+  private writeFrame(opcode: number, payload: Buffer) {
+    if (this.closed) return;
+    const length = payload.length;
+    const header =
+      length < 126
+        ? Buffer.from([0x80 | opcode, length])
+        : length < 65536
+        ? Buffer.from([0x80 | opcode, 126, length >> 8, length & 0xff])
+        : Buffer.concat([Buffer.from([0x80 | opcode, 127]), bigLength(length)]);
+    this.socket.write(Buffer.concat([header, payload]));
+  }
+
+  send(message: ServerMessage) {
+    this.writeFrame(0x1, Buffer.from(JSON.stringify(message), "utf8"));
+  }
+
+  ping() {
+    this.alive = false;
+    this.writeFrame(0x9, Buffer.alloc(0));
+  }
+
+  close(code = 1000) {
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code);
+    this.writeFrame(0x8, payload);
+    this.finish();
+  }
+}
+
+function bigLength(length: number): Buffer {
+  const buf = Buffer.alloc(8);
+  buf.writeBigUInt64BE(BigInt(length));
+  return buf;
+}
+
+// Complete the opening handshake, or refuse anything that is not a WebSocket upgrade.
+function acceptUpgrade(req: IncomingMessage, socket: Duplex): WsConnection | null {
+  const key = req.headers["sec-websocket-key"];
+  if (req.headers.upgrade?.toLowerCase() !== "websocket" || typeof key !== "string") {
+    socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+    return null;
+  }
+  const accept = createHash("sha1").update(key + WS_GUID).digest("base64");
+  socket.write(
+    "HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n" +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+  return new WsConnection(socket);
+}
+
+// ---- Rooms ----
+
+const ROOM_IDLE_MS = 30 * 60_000; // rooms nobody is connected to are dropped after this
+
+interface Seat {
+  token: string;
+  connection: WsConnection | null;
+}
+
+interface Room {
+  code: string;
+  game: RoomGame;
+  seats: { black: Seat | null; white: Seat | null };
+  idleSince: number; // when the last player left, 0 while anyone is connected
+}
+
+const rooms = new Map<string, Room>();
+
+function seatKey(color: Stone): "black" | "white" {
+  return color === 1 ? "black" : "white";
+}
+
+function newRoomCode(): string {
+  for (;;) {
+    let code = "";
+    for (let i = 0; i < ROOM_CODE_LENGTH; i++) code += ROOM_CODE_ALPHABET[randomInt(ROOM_CODE_ALPHABET.length)];
+    if (!rooms.has(code)) return code;
+  }
+}
+
+function view(room: Room): RoomView {
+  const { black, white } = room.seats;
+  return {
+    code: room.code,
+    game: serializeGame(room.game.state),
+    connected: { black: !!black?.connection, white: !!white?.connection },
+    seated: { black: !!black, white: !!white },
+    drawOffer: room.game.drawOffer,
+    scoreAccepted: room.game.scoreAccepted,
+  };
+}
+
+function broadcast(room: Room) {
+  const message: ServerMessage = { type: "sync", room: view(room) };
+  room.seats.black?.connection?.send(message);
+  room.seats.white?.connection?.send(message);
+}
+
+// Seat `connection` as `color`, replacing an older connection of the same player.
+function seat(room: Room, color: Stone, token: string, connection: WsConnection) {
+  const key = seatKey(color);
+  const previous = room.seats[key]?.connection;
+  room.seats[key] = { token, connection };
+  if (previous && previous !== connection) previous.close(4000);
+  room.idleSince = 0;
+  connection.send({ type: "joined", code: room.code, color, token });
+}
+
+function open(request: RoomRequest, connection: WsConnection): { room: Room; color: Stone } | RoomError {
+  const name = (text: string, color: Stone) => text.trim() || DEFAULT_PLAYERS[seatKey(color)];
+  switch (request.type) {
+    case "create": {
+      const { color } = request;
+      const players = { ...DEFAULT_PLAYERS, [seatKey(color)]: name(request.name, color) };
+      const room: Room = {
+        code: newRoomCode(),
+        game: newRoomGame(request.settings, players),
+        seats: { black: null, white: null },
+        idleSince: 0,
+      };
+      rooms.set(room.code, room);
+      seat(room, color, randomBytes(16).toString("hex"), connection);
+      return { room, color };
+    }
+    case "join": {
+      const room = rooms.get(request.code.trim().toUpperCase());
+      if (!room) return "roomNotFound";
+      const color: Stone = !room.seats.black ? 1 : !room.seats.white ? 2 : 0;
+      if (!color) return "roomFull";
+      const { state } = room.game;
+      room.game = { ...room.game, state: { ...state, players: { ...state.players, [seatKey(color)]: name(request.name, color) } } };
+      seat(room, color, randomBytes(16).toString("hex"), connection);
+      return { room, color };
+    }
+    case "rejoin": {
+      const room = rooms.get(request.code);
+      const color: Stone =
+        room?.seats.black?.token === request.token ? 1 : room?.seats.white?.token === request.token ? 2 : 0;
+      if (!room || !color) return "roomGone";
+      seat(room, color, request.token, connection);
+      return { room, color };
+    }
+  }
+}
+
+function handleConnection(connection: WsConnection) {
+  let joined: { room: Room; color: Stone } | null = null;
+
+  connection.onMessage = (text) => {
+    const message = parseClientMessage(text);
+    if (!message) return connection.send({ type: "error", code: "badMessage", fatal: false });
+    if (message.type === "create" || message.type === "join" || message.type === "rejoin") {
+      if (joined) return connection.send({ type: "error", code: "alreadyInRoom", fatal: false });
+      const res = open(message, connection);
+      if (typeof res === "string") {
+        connection.send({ type: "error", code: res, fatal: true });
+        return connection.close(1000);
+      }
+      joined = res;
+      return broadcast(res.room);
+    }
+    if (!joined) return connection.send({ type: "error", code: "notInRoom", fatal: false });
+    const { room, color } = joined;
+    const { state } = room.game;
+    if (!room.seats.black || !room.seats.white) {
+      return connection.send({ type: "error", code: "waitingForOpponent", fatal: false });
+    }
+    const res = applyRoomAction(room.game, color, message);
+    if (res.error) return connection.send({ type: "error", code: res.error, fatal: false });
+    room.game = res.room;
+    if (room.game.state !== state) log(room, color, message.type);
+    broadcast(room);
+  };
+
+  connection.onClose = () => {
+    if (!joined) return;
+    const { room, color } = joined;
+    const mine = room.seats[seatKey(color)];
+    if (mine?.connection !== connection) return; // replaced by a newer connection
+    mine.connection = null;
+    if (!room.seats.black?.connection && !room.seats.white?.connection) room.idleSince = Date.now();
+    broadcast(room);
+  };
+}
+
+function log(room: Room, color: Stone, action: string) {
+  const { phase, timeline } = room.game.state;
+  console.error(`[${room.code}] ${seatKey(color)} ${action} (move ${timeline.length - 1}, ${phase})`);
+}
+
+// ---- Server ----
+
+function main() {
+  const argv = process.argv.slice(2);
+  const portAt = argv.indexOf("--port");
+  const port = portAt >= 0 ? Number(argv[portAt + 1]) : 8766;
+  const connections = new Set<WsConnection>();
+
+  const server = createServer((_req, res) => {
+    res.writeHead(426, { "Content-Type": "text/plain" });
+    res.end("WebSocket only\n");
+  });
+  server.on("upgrade", (req, socket) => {
+    const connection = acceptUpgrade(req, socket);
+    if (!connection) return;
+    connections.add(connection);
+    handleConnection(connection);
+    const onClose = connection.onClose;
+    connection.onClose = () => {
+      connections.delete(connection);
+      onClose();
+    };
+  });
+
+  // Drop connections that stopped answering pings, and rooms left idle
+  setInterval(() => {
+    for (const connection of connections) {
+      if (connection.alive) connection.ping();
+      else connection.close(1001);
+    }
+    const now = Date.now();
+    for (const [code, room] of rooms) {
+      if (room.idleSince && now - room.idleSince > ROOM_IDLE_MS) rooms.delete(code);
+    }
+  }, PING_INTERVAL_MS).unref();
+
+  server.listen(port, () => console.error(`Go relay on ws://localhost:${port}`));
+}
+
+main();
@@ -0,0 +1,125 @@
+import { koForbidden, type KoRule, type Position, type Snapshot, type Stone } from "./goRules";
+import type { AiRequest, AiResponse } from "./mcts";
+
+// Post-game review: the engine looks at every position of a finished game, and
+// each move is judged by how much it moved the win rate and the estimated score
+// against its player. The search is passed in, so the page can run it in a worker
+// and Node can call searchMove directly.
+
+// ---- Types & Constants ----
+
+export type Verdict = "good" | "inaccuracy" | "mistake" | "blunder";
+
+export interface PositionEvaluation {
+  blackWinRate: number; // 0..1
+  blackLead: number; // estimated area margin for black, komi included
+  best: Position | null; // the engine's choice for the side to move, null for a pass
+}
+
+export interface MoveReview {
+  index: number; // position after the move in the timeline, so also the move number
+  color: Stone;
+  move: Position | null; // null for a pass
+  winRateLoss: number; // for the mover; negative when the move beat the engine's expectation
+  scoreLoss: number; // points, for the mover
+  best: Position | null; // what the engine would have played instead
+  verdict: Verdict;
+}
+
+export interface GameReview {
+  positions: PositionEvaluation[]; // one per timeline position
+  moves: MoveReview[];
+}
+
+// Win rate a move has to lose for each verdict, checked from the worst down. The
+// averaged win rates below move in small steps, hence the small thresholds.
+const VERDICT_LOSS: [Verdict, number][] = [
+  ["blunder", 0.12],
+  ["mistake", 0.06],
+  ["inaccuracy", 0.03],
+];
+
+// A quick search per position keeps a whole game to a minute or two
+const REVIEW_PLAYOUTS = 1500;
+const REVIEW_TIME_MS = 700;
+
+export const WORST_MOVES = 5; // listed per side
+
+// ---- Evaluation ----
+
+// The best move's own win rate rests on few playouts in a short search; the mean
+// over all root moves, weighted by visits, swings far less from move to move.
+export function evaluation(response: AiResponse, toMove: Stone, komi: number): PositionEvaluation {
+  const candidates = response.candidates ?? [];
+  const visits = candidates.reduce((sum, c) => sum + c.visits, 0);
+  const winRate = visits ? candidates.reduce((sum, c) => sum + c.winRate * c.visits, 0) / visits : response.winRate;
+  const owned = (response.ownership ?? []).reduce((sum, row) => sum + row.reduce((a, b) => a + b, 0), 0);
+  return {
+    blackWinRate: toMove === 1 ? winRate : 1 - winRate,
+    blackLead: owned - komi,
+    best: response.move,
+  };
+}
+
+function verdictFor(winRateLoss: number): Verdict {
+  return VERDICT_LOSS.find(([, loss]) => winRateLoss >= loss)?.[0] ?? "good";
+}
+
+// Judges every move from the evaluations of the positions before and after it
+export function judgeMoves(timeline: Snapshot[], positions: PositionEvaluation[]): MoveReview[] {
+  return timeline.slice(1).map((position, i) => {
+    const before = positions[i];
+    const after = positions[i + 1];
+    const color = position.move!.color;
+    const sign = color === 1 ? 1 : -1;
+    const winRateLoss = sign * (before.blackWinRate - after.blackWinRate);
+    const move = position.move!.point;
+    const agrees = before.best ? move?.x === before.best.x && move.y === before.best.y : !move;
+    return {
+      index: i + 1,
+      color,
+      move,
+      winRateLoss,
+      scoreLoss: sign * (before.blackLead - after.blackLead),
+      best: before.best,
+      verdict: agrees ? "good" : verdictFor(winRateLoss),
+    };
+  });
+}
+
+// Searches each position in turn. `onProgress` hears how many are done; an
+// aborted search rejects and ends the review.
+export async function reviewGame(
+  timeline: Snapshot[],
+  komi: number,
+  koRule: KoRule,
+  search: (request: AiRequest) => Promise<AiResponse>,
+  onProgress?: (done: number, total: number) => void
+): Promise<GameReview> {
+  const positions: PositionEvaluation[] = [];
+  for (let i = 0; i < timeline.length; i++) {
+    const { board, toMove } = timeline[i];
+    const response = await search({
+      id: i,
+      board,
+      toMove,
+      komi,
+      forbidden: koForbidden(timeline.slice(0, i + 1), koRule),
+      level: "medium",
+      playouts: REVIEW_PLAYOUTS,
+      timeMs: REVIEW_TIME_MS,
+      analyze: true,
+    });
+    positions.push(evaluation(response, toMove, komi));
+    onProgress?.(i + 1, timeline.length);
+  }
+  return { positions, moves: judgeMoves(timeline, positions) };
+}
+
+// The moves of `color` that lost the most, worst first, leaving out good moves
+export function worstMoves(review: GameReview, color: Stone, count = WORST_MOVES): MoveReview[] {
+  return review.moves
+    .filter((m) => m.color === color && m.verdict !== "good")
+    .sort((a, b) => b.winRateLoss - a.winRateLoss)
+    .slice(0, count);
+}
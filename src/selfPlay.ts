@@ -0,0 +1,104 @@
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { basename, join } from "node:path";
+import { RULE_SETS, RULE_SET_IDS, type RuleSetId } from "./goRules";
+import { makeI18n } from "./i18n";
+import { parseOpeningBook, type OpeningBook } from "./openingBook";
+import { BUILTIN_OPENING_BOOK } from "./openingBookData";
+import { SgfError } from "./sgf";
+import { parseEngineSpec, playMatch, summarizeMatch, type EngineSpec, type MatchGame } from "./tournament";
+
+// Engine-against-engine matches from the command line, to tell whether an engine
+// change is an improvement:
+//   npx tsx src/selfPlay.ts medium:2000 hard:2000 --games 40 --size 9 --seed 7 --out selfplay
+// Engines are a level, a level with a fixed playout budget, or gtp:<bridge url>
+// for an external engine behind src/gtpBridge.ts. Every game is saved as SGF.
+// --book builtin (or an SGF file) lets the built-in engines open from a book.
+
+const USAGE =
+  "Usage: npx tsx src/selfPlay.ts <engine> <engine> [--games N] [--size N] [--rules ID] [--komi K] [--seed N] [--book builtin|FILE] [--out DIR]";
+
+function fail(message: string): never {
+  console.error(message);
+  console.error(USAGE);
+  process.exit(1);
+}
+
+function option(argv: string[], name: string): string | undefined {
+  const i = argv.indexOf(`--${name}`);
+  return i >= 0 ? argv[i + 1] : undefined;
+}
+
+function numberOption(argv: string[], name: string, fallback: number): number {
+  const text = option(argv, name);
+  if (text === undefined) return fallback;
+  const n = Number(text);
+  if (!Number.isFinite(n)) fail(`--${name} expects a number, got "${text}"`);
+  return n;
+}
+
+function loadBook(source: string | undefined): OpeningBook | null {
+  if (source === undefined) return null;
+  if (source === "builtin") return parseOpeningBook(BUILTIN_OPENING_BOOK.sgf, BUILTIN_OPENING_BOOK.name);
+  try {
+    return parseOpeningBook(readFileSync(source, "utf8"), basename(source, ".sgf"));
+  } catch (err) {
+    const reason = err instanceof SgfError ? makeI18n("en", "gtp").sgfError(err) : err instanceof Error ? err.message : err;
+    return fail(`Cannot read the book ${source}: ${reason}`);
+  }
+}
+
+function percent(x: number): string {
+  return `${(x * 100).toFixed(1)}%`;
+}
+
+function main() {
+  const argv = process.argv.slice(2);
+  const positional = argv.filter((arg, i) => !arg.startsWith("--") && !argv[i - 1]?.startsWith("--"));
+  if (positional.length !== 2) fail("Expected two engines");
+  const specs = positional.map((text) => parseEngineSpec(text) ?? fail(`Unknown engine "${text}"`)) as [EngineSpec, EngineSpec];
+
+  const ruleId = (option(argv, "rules") ?? "chinese") as RuleSetId;
+  if (!RULE_SET_IDS.includes(ruleId)) fail(`Unknown rules "${ruleId}", expected one of: ${RULE_SET_IDS.join(", ")}`);
+  const rules = RULE_SETS[ruleId];
+  const size = numberOption(argv, "size", 9);
+  if (!Number.isInteger(size) || size < 2 || size > 19) fail("--size must be between 2 and 19");
+  const options = {
+    size,
+    rules,
+    komi: numberOption(argv, "komi", rules.komi),
+    games: numberOption(argv, "games", 10),
+    seed: numberOption(argv, "seed", 1),
+    book: loadBook(option(argv, "book")),
+  };
+  const out = option(argv, "out") ?? "selfplay";
+  mkdirSync(out, { recursive: true });
+
+  console.log(`${options.games} games on ${size}x${size}, ${ruleId} rules, komi ${options.komi}, seed ${options.seed}`);
+  if (options.book && options.book.size !== size) console.log(`The book "${options.book.name}" is for ${options.book.size}x${options.book.size} and goes unused`);
+  const report = (game: MatchGame) => {
+    const file = join(out, `game-${String(game.index + 1).padStart(3, "0")}.sgf`);
+    writeFileSync(file, game.sgf);
+    const black = positional[game.black];
+    const white = positional[1 - game.black];
+    console.log(`#${game.index + 1} B ${black} vs W ${white}: ${game.winner} (${game.end}, ${game.moves} moves) → ${file}`);
+  };
+
+  playMatch(specs, options, report).then(
+    (games) => {
+      console.log("");
+      for (const s of summarizeMatch(specs, games)) {
+        console.log(
+          `${s.name}: ${s.wins}-${s.losses}-${s.draws}, score ${percent(s.score)} ` +
+            `(95% CI ${percent(s.interval[0])}–${percent(s.interval[1])}), ` +
+            `wins as B/W ${s.blackWins}/${s.whiteWins}, ${s.averageMs.toFixed(0)} ms per move`
+        );
+      }
+    },
+    (err) => {
+      console.error(err instanceof Error ? err.message : err);
+      process.exit(1);
+    }
+  );
+}
+
+main();
@@ -0,0 +1,141 @@
+import { describe, expect, it } from "vitest";
+import { applyMove, newGame, pass, resign, type GameState } from "./gameState";
+import { RULE_SETS } from "./goRules";
+import {
+  SgfError,
+  formatSgfResult,
+  gameToSgf,
+  parseSgf,
+  parseSgfCollection,
+  replaySgf,
+  sgfRuleSet,
+  sgfStart,
+  type SgfProblem,
+} from "./sgf";
+
+// The problem a bad file is refused with
+function problemOf(read: () => unknown): SgfProblem {
+  try {
+    read();
+  } catch (err) {
+    if (err instanceof SgfError) return err.problem;
+    throw err;
+  }
+  throw new Error("the file was accepted");
+}
+
+describe("gameToSgf and parseSgf", () => {
+  it("read back the game they wrote", () => {
+    let state: GameState = newGame({
+      size: 9,
+      rules: RULE_SETS.japanese,
+      komi: 6.5,
+      players: { black: "Lan", white: "Minh]" },
+    });
+    for (const [x, y] of [[2, 2], [6, 6], [2, 6]]) state = applyMove(state, x, y).state;
+    state = resign(pass(state), 1);
+    const game = parseSgf(gameToSgf(state));
+    expect(game).toMatchObject({ size: 9, komi: 6.5, rules: "Japanese", playerBlack: "Lan", playerWhite: "Minh]" });
+    expect(game.result).toBe("W+R");
+    expect(game.moves).toEqual([
+      { color: 1, point: { x: 2, y: 2 } },
+      { color: 2, point: { x: 6, y: 6 } },
+      { color: 1, point: { x: 2, y: 6 } },
+      { color: 2, point: null },
+    ]);
+    expect(replaySgf(game, RULE_SETS.japanese)).toHaveLength(5);
+  });
+
+  it("leave unnamed players out", () => {
+    const text = gameToSgf(newGame({ size: 9, rules: RULE_SETS.chinese, komi: 7.5 }));
+    expect(text).not.toMatch(/PB|PW/);
+  });
+
+  it("keep handicap stones and white's first move", () => {
+    const game = parseSgf(gameToSgf(newGame({ size: 9, rules: RULE_SETS.chinese, komi: 0.5, handicap: 3 })));
+    expect(game.handicap).toBe(3);
+    expect(game.setup.black).toHaveLength(3);
+    expect(game.firstPlayer).toBe(2);
+    expect(sgfStart(game)[0].toMove).toBe(2);
+  });
+});
+
+describe("parseSgf", () => {
+  it("follows the main line and reads compressed point lists", () => {
+    const game = parseSgf("(;GM[1]SZ[9]AB[aa:bb]C[a \\] b];B[cc](;W[dd];B[ee])(;W[ff]))");
+    expect(game.setup.black).toHaveLength(4);
+    expect(game.moves.map((m) => m.point)).toEqual([{ x: 2, y: 2 }, { x: 3, y: 3 }, { x: 4, y: 4 }]);
+  });
+
+  it("treats tt as a pass on boards up to 19x19", () => {
+    expect(parseSgf("(;SZ[19];B[tt];W[])").moves).toEqual([
+      { color: 1, point: null },
+      { color: 2, point: null },
+    ]);
+  });
+
+  it("accepts lowercase letters in FF[3] property names", () => {
+    expect(parseSgf("(;SiZe[13]KoMi[5.5])")).toMatchObject({ size: 13, komi: 5.5 });
+  });
+
+  it("keeps every game of a collection and its variations", () => {
+    const trees = parseSgfCollection("(;SZ[9];B[aa](;W[bb])(;W[cc]))(;SZ[9])");
+    expect(trees).toHaveLength(2);
+    expect(trees[0].variations).toHaveLength(2);
+  });
+});
+
+describe("bad files", () => {
+  it("are refused with the problem and where it lies", () => {
+    expect(problemOf(() => parseSgf("(;SZ[9];B[aa]"))).toEqual({ code: "unclosedTree", at: 14 });
+    expect(problemOf(() => parseSgf("(;SZ[9"))).toEqual({ code: "unclosedValue", at: 7 });
+    expect(problemOf(() => parseSgf("no game here"))).toEqual({ code: "noGame", at: 1 });
+    expect(problemOf(() => parseSgf("(;B[aa]B[bb])"))).toMatchObject({ code: "repeatedProperty", ident: "B" });
+  });
+
+  it("name the property that is wrong", () => {
+    expect(problemOf(() => parseSgf("(;GM[2])"))).toEqual({ code: "notGo", value: "2" });
+    expect(problemOf(() => parseSgf("(;SZ[9:13])"))).toEqual({ code: "notSquare", value: "9:13" });
+    expect(problemOf(() => parseSgf("(;SZ[8])"))).toEqual({ code: "unsupportedSize", value: "8" });
+    expect(problemOf(() => parseSgf("(;KM[lots])"))).toEqual({ code: "badKomi", value: "lots" });
+    expect(problemOf(() => parseSgf("(;PL[X])"))).toEqual({ code: "badFirstPlayer", value: "X" });
+    expect(problemOf(() => parseSgf("(;SZ[9];B[zz])"))).toEqual({ code: "pointOffBoard", value: "zz", size: 9 });
+    expect(problemOf(() => parseSgf("(;SZ[9];B[aa]W[bb])"))).toEqual({ code: "bothColors", node: 1 });
+    expect(problemOf(() => parseSgf("(;SZ[9];B[aa];AB[bb])"))).toEqual({ code: "setupMidGame", node: 2 });
+  });
+
+  it("stop at the first illegal move", () => {
+    const game = parseSgf("(;SZ[9];B[aa];W[aa])");
+    expect(problemOf(() => replaySgf(game, RULE_SETS.chinese))).toEqual({
+      code: "illegalMove",
+      number: 2,
+      color: 2,
+      point: "aa",
+      reason: "occupied",
+    });
+  });
+
+  it("refuse setup stones of both colors on one point", () => {
+    const game = parseSgf("(;SZ[9]AB[aa]AW[aa])");
+    expect(problemOf(() => sgfStart(game))).toEqual({ code: "setupOverlap", point: "aa" });
+  });
+});
+
+describe("sgfRuleSet", () => {
+  it("matches RU values loosely and knows nothing else", () => {
+    expect(sgfRuleSet("tromp_taylor")).toBe(RULE_SETS["tromp-taylor"]);
+    expect(sgfRuleSet("japanese")).toBe(RULE_SETS.japanese);
+    expect(sgfRuleSet("Ing")).toBeNull();
+    expect(sgfRuleSet(undefined)).toBeNull();
+  });
+});
+
+describe("formatSgfResult", () => {
+  it("writes the margin, resignation, time or a draw", () => {
+    const score = { blackScore: 40, whiteScore: 33.5 };
+    expect(formatSgfResult({ winner: "black", ...score })).toBe("B+6.5");
+    expect(formatSgfResult({ winner: "white", ...score, resignation: "black" })).toBe("W+R");
+    expect(formatSgfResult({ winner: "black", ...score, timeout: "white" })).toBe("B+T");
+    expect(formatSgfResult({ winner: "draw", blackScore: 7, whiteScore: 7 })).toBe("0");
+  });
+});
@@ -0,0 +1,368 @@
+import {
+  BOARD_SIZES,
+  RULE_SETS,
+  RULE_SET_IDS,
+  inBounds,
+  initialTimeline,
+  makeEmptyBoard,
+  movesOf,
+  passOnTimeline,
+  playOnTimeline,
+  type BoardSize,
+  type GameMove,
+  type Position,
+  type RuleSet,
+  type RuleViolation,
+  type Snapshot,
+  type Stone,
+} from "./goRules";
+import type { GameResult, GameState } from "./gameState";
+
+
+export interface SgfGame {
+  size: number;
+  komi: number;
+  rules?: string; // RU
+  playerBlack?: string; // PB
+  playerWhite?: string; // PW
+  result?: string; // RE, e.g. "B+3.5", "W+R", "0"
+  handicap?: number; // HA
+  timeLimit?: number; // TM, main time in seconds
+  overtime?: string; // OT, e.g. "3x30 byo-yomi"
+  setup: { black: Position[]; white: Position[] }; // AB / AW
+  firstPlayer?: Stone; // PL
+  moves: GameMove[];
+}
+
+// What is wrong with a file. Points are given as written in the file; `at` is a
+// character position counted from 1. The interface words each code.
+export type SgfProblem =
+  | { code: "badPoint"; value: string }
+  | { code: "pointOffBoard"; value: string; size: number }
+  | { code: "unclosedValue"; at: number }
+  | { code: "badPropertyName"; at: number }
+  | { code: "missingValue"; ident: string; at: number }
+  | { code: "repeatedProperty"; ident: string; at: number }
+  | { code: "treeWithoutNode"; at: number }
+  | { code: "unclosedTree"; at: number }
+  | { code: "noGame"; at: number }
+  | { code: "multipleValues"; ident: string }
+  | { code: "bothColors"; node: number }
+  | { code: "notGo"; value: string }
+  | { code: "notSquare"; value: string }
+  | { code: "unsupportedSize"; value: string }
+  | { code: "badKomi"; value: string }
+  | { code: "badHandicap"; value: string }
+  | { code: "badFirstPlayer"; value: string }
+  | { code: "setupMidGame"; node: number }
+  | { code: "setupOverlap"; point: string }
+  | { code: "illegalMove"; number: number; color: Stone; point: string; reason: RuleViolation }
+  // problem sets
+  | { code: "setupMidProblem"; move: number }
+  | { code: "problemPass"; move: number }
+  | { code: "problemIllegal"; move: number; point: string }
+  | { code: "rootMove"; problem: number }
+  | { code: "noSolution"; problem: number }
+  | { code: "mixedFirstMoves"; problem: number }
+  // opening books
+  | { code: "mixedSizes"; size: number }
+  | { code: "emptyBook" };
+
+export class SgfError extends Error {
+  constructor(readonly problem: SgfProblem) {
+    super(problem.code);
+    this.name = "SgfError";
+  }
+}
+
+export type SgfNode = Map<string, string[]>;
+
+// An SGF GameTree: a sequence of nodes followed by its variations, main line first
+export interface SgfTree {
+  nodes: SgfNode[];
+  variations: SgfTree[];
+}
+
+export function toSgfPoint(p: Position): string {
+  return String.fromCharCode(97 + p.x) + String.fromCharCode(97 + p.y);
+}
+
+function fromSgfPoint(value: string, size: number): Position {
+  if (!/^[a-z]{2}$/.test(value)) throw new SgfError({ code: "badPoint", value });
+  const x = value.charCodeAt(0) - 97;
+  const y = value.charCodeAt(1) - 97;
+  if (!inBounds(x, y, size)) throw new SgfError({ code: "pointOffBoard", value, size });
+  return { x, y };
+}
+
+// AB/AW values may be single points or compressed rectangles ("aa:cc").
+function fromSgfPointList(values: string[], size: number): Position[] {
+  const pts: Position[] = [];
+  for (const v of values) {
+    const [from, to] = v.split(":");
+    const a = fromSgfPoint(from, size);
+    const b = to === undefined ? a : fromSgfPoint(to, size);
+    for (let y = Math.min(a.y, b.y); y <= Math.max(a.y, b.y); y++) {
+      for (let x = Math.min(a.x, b.x); x <= Math.max(a.x, b.x); x++) pts.push({ x, y });
+    }
+  }
+  return pts;
+}
+
+export function escapeSgfText(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/]/g, "\\]");
+}
+
+// Game info and setup stones of the root node
+export function sgfRootProperties(game: Omit<SgfGame, "moves">): string {
+  const props = ["FF[4]", "GM[1]", "CA[UTF-8]", "AP[CoVay:1.0]", `SZ[${game.size}]`, `KM[${game.komi}]`];
+  if (game.rules) props.push(`RU[${escapeSgfText(game.rules)}]`);
+  if (game.playerBlack) props.push(`PB[${escapeSgfText(game.playerBlack)}]`);
+  if (game.playerWhite) props.push(`PW[${escapeSgfText(game.playerWhite)}]`);
+  if (game.result) props.push(`RE[${escapeSgfText(game.result)}]`);
+  if (game.handicap) props.push(`HA[${game.handicap}]`);
+  if (game.timeLimit !== undefined) props.push(`TM[${game.timeLimit}]`);
+  if (game.overtime) props.push(`OT[${escapeSgfText(game.overtime)}]`);
+  if (game.setup.black.length) props.push("AB" + game.setup.black.map((p) => `[${toSgfPoint(p)}]`).join(""));
+  if (game.setup.white.length) props.push("AW" + game.setup.white.map((p) => `[${toSgfPoint(p)}]`).join(""));
+  if (game.firstPlayer) props.push(`PL[${game.firstPlayer === 1 ? "B" : "W"}]`);
+  return props.join("");
+}
+
+// A move node, ";B[dd]"
+export function sgfMoveNode(move: GameMove): string {
+  return `;${move.color === 1 ? "B" : "W"}[${move.point ? toSgfPoint(move.point) : ""}]`;
+}
+
+export function exportSgf(game: SgfGame): string {
+  return `(;${sgfRootProperties(game)}${game.moves.map(sgfMoveNode).join("")})\n`;
+}
+
+// Parse every game tree of an SGF collection, keeping all variations.
+export function parseSgfCollection(text: string): SgfTree[] {
+  let i = 0;
+  const skipSpace = () => {
+    while (i < text.length && /\s/.test(text[i])) i++;
+  };
+  const readValue = (): string => {
+    i++; // "["
+    let value = "";
+    while (i < text.length && text[i] !== "]") {
+      if (text[i] === "\\") {
+        i++;
+        if (text[i] === "\n") {
+          i++; // soft line break
+          continue;
+        }
+      }
+      value += text[i] ?? "";
+      i++;
+    }
+    if (i >= text.length) throw new SgfError({ code: "unclosedValue", at: i + 1 });
+    i++; // "]"
+    return value;
+  };
+  const readNode = (): SgfNode => {
+    i++; // ";"
+    const node: SgfNode = new Map();
+    skipSpace();
+    while (i < text.length && /[A-Za-z]/.test(text[i])) {
+      let ident = "";
+      while (i < text.length && /[A-Za-z]/.test(text[i])) ident += text[i++];
+      ident = ident.replace(/[a-z]/g, ""); // FF[3] allowed lowercase letters in names
+      if (!ident) throw new SgfError({ code: "badPropertyName", at: i + 1 });
+      skipSpace();
+      if (text[i] !== "[") throw new SgfError({ code: "missingValue", ident, at: i + 1 });
+      if (node.has(ident)) throw new SgfError({ code: "repeatedProperty", ident, at: i + 1 });
+      const values: string[] = [];
+      while (text[i] === "[") {
+        values.push(readValue());
+        skipSpace();
+      }
+      node.set(ident, values);
+    }
+    return node;
+  };
+  const readTree = (): SgfTree => {
+    i++; // "("
+    skipSpace();
+    if (text[i] !== ";") throw new SgfError({ code: "treeWithoutNode", at: i + 1 });
+    const tree: SgfTree = { nodes: [], variations: [] };
+    while (text[i] === ";") {
+      tree.nodes.push(readNode());
+      skipSpace();
+    }
+    while (text[i] === "(") {
+      tree.variations.push(readTree());
+      skipSpace();
+    }
+    if (text[i] !== ")") throw new SgfError({ code: "unclosedTree", at: i + 1 });
+    i++; // ")"
+    return tree;
+  };
+  const trees: SgfTree[] = [];
+  skipSpace();
+  while (text[i] === "(") {
+    trees.push(readTree());
+    skipSpace();
+  }
+  if (!trees.length) throw new SgfError({ code: "noGame", at: i + 1 });
+  return trees;
+}
+
+// The nodes of a tree's main line, following the first variation at every branch.
+export function sgfMainLine(tree: SgfTree): SgfNode[] {
+  const nodes: SgfNode[] = [];
+  for (let t: SgfTree | undefined = tree; t; t = t.variations[0]) nodes.push(...t.nodes);
+  return nodes;
+}
+
+function single(node: SgfNode, ident: string): string | undefined {
+  const values = node.get(ident);
+  if (!values) return undefined;
+  if (values.length !== 1) throw new SgfError({ code: "multipleValues", ident });
+  return values[0];
+}
+
+// Setup stones after the root node would need a board editor, not a move list
+export function hasSgfSetup(node: SgfNode): boolean {
+  return node.has("AB") || node.has("AW") || node.has("AE");
+}
+
+// The move played in a node, if any; `index` is used in error messages.
+export function sgfNodeMove(node: SgfNode, size: number, index: number): GameMove | null {
+  const b = single(node, "B");
+  const w = single(node, "W");
+  if (b !== undefined && w !== undefined) throw new SgfError({ code: "bothColors", node: index });
+  const value = b ?? w;
+  if (value === undefined) return null;
+  // Empty value is a pass; FF[3] also used "tt" on boards up to 19x19
+  const isPass = value === "" || (value === "tt" && size <= 19);
+  return { color: b !== undefined ? 1 : 2, point: isPass ? null : fromSgfPoint(value, size) };
+}
+
+// Parse the first game tree of an SGF collection along its main line.
+export function parseSgf(text: string): SgfGame {
+  return sgfGameFromNodes(sgfMainLine(parseSgfCollection(text)[0]));
+}
+
+// Game info from the root node, moves from the nodes that follow it.
+export function sgfGameFromNodes([root, ...rest]: SgfNode[]): SgfGame {
+  const gm = single(root, "GM");
+  if (gm !== undefined && gm.trim() !== "1") throw new SgfError({ code: "notGo", value: gm });
+  const sz = single(root, "SZ") ?? "19";
+  if (!/^\s*\d+\s*$/.test(sz)) throw new SgfError({ code: "notSquare", value: sz });
+  const size = Number(sz);
+  if (!BOARD_SIZES.includes(size as BoardSize)) throw new SgfError({ code: "unsupportedSize", value: sz });
+  const km = single(root, "KM");
+  const komi = km === undefined || km.trim() === "" ? 0 : Number(km);
+  if (!Number.isFinite(komi)) throw new SgfError({ code: "badKomi", value: String(km) });
+  const ha = single(root, "HA");
+  const handicap = ha === undefined || ha.trim() === "" ? 0 : Number(ha);
+  if (!Number.isInteger(handicap) || handicap < 0) throw new SgfError({ code: "badHandicap", value: String(ha) });
+  const tm = single(root, "TM");
+  const pl = single(root, "PL");
+  if (pl !== undefined && pl !== "B" && pl !== "W") throw new SgfError({ code: "badFirstPlayer", value: pl });
+
+  const setup = {
+    black: fromSgfPointList(root.get("AB") ?? [], size),
+    white: fromSgfPointList(root.get("AW") ?? [], size),
+  };
+  const moves: GameMove[] = [];
+  for (const node of [root, ...rest]) {
+    if (node !== root && hasSgfSetup(node)) throw new SgfError({ code: "setupMidGame", node: moves.length + 1 });
+    const move = sgfNodeMove(node, size, moves.length + 1);
+    if (move) moves.push(move);
+  }
+
+  return {
+    size,
+    komi,
+    rules: single(root, "RU"),
+    playerBlack: single(root, "PB"),
+    playerWhite: single(root, "PW"),
+    result: single(root, "RE"),
+    handicap: handicap || undefined,
+    timeLimit: tm === undefined || !Number.isFinite(Number(tm)) ? undefined : Number(tm),
+    overtime: single(root, "OT"),
+    setup,
+    firstPlayer: pl === undefined ? undefined : pl === "B" ? 1 : 2,
+    moves,
+  };
+}
+
+// The rule set an RU value names, ignoring case and punctuation ("tromp_taylor");
+// null for rules this app does not know
+export function sgfRuleSet(ru: string | undefined): RuleSet | null {
+  const key = (value: string) => value.toLowerCase().replace(/[^a-z]/g, "");
+  const id = ru ? RULE_SET_IDS.find((id) => key(RULE_SETS[id].sgf) === key(ru)) : undefined;
+  return id ? RULE_SETS[id] : null;
+}
+
+// The starting position of a parsed game: its setup stones and first player.
+export function sgfStart(game: SgfGame): Snapshot[] {
+  const board = makeEmptyBoard(game.size);
+  for (const p of game.setup.black) board[p.y][p.x] = 1;
+  for (const p of game.setup.white) {
+    if (board[p.y][p.x] !== 0) throw new SgfError({ code: "setupOverlap", point: toSgfPoint(p) });
+    board[p.y][p.x] = 2;
+  }
+  const handicapStart = game.setup.black.length > 0 && game.setup.white.length === 0;
+  return initialTimeline(board, game.firstPlayer ?? game.moves[0]?.color ?? (handicapStart ? 2 : 1));
+}
+
+// Play move number `number` of a record, throwing SgfError when it is illegal.
+export function playSgfMove(timeline: Snapshot[], move: GameMove, rules: RuleSet, number: number): Snapshot[] {
+  if (!move.point) return passOnTimeline(timeline, move.color, rules.passStones);
+  const res = playOnTimeline(timeline, move.point.x, move.point.y, rules, move.color);
+  if (!res.timeline) {
+    const { color, point } = move;
+    throw new SgfError({ code: "illegalMove", number, color, point: toSgfPoint(point), reason: res.reason ?? "occupied" });
+  }
+  return res.timeline;
+}
+
+// Replay a parsed game through tryPlay, throwing SgfError on the first illegal move.
+export function replaySgf(game: SgfGame, rules: RuleSet): Snapshot[] {
+  return game.moves.reduce((timeline, move, i) => playSgfMove(timeline, move, rules, i + 1), sgfStart(game));
+}
+
+// Stones on the starting position of a game, for SGF AB/AW
+export function setupStones(state: GameState): { black: Position[]; white: Position[] } {
+  const setup = { black: [] as Position[], white: [] as Position[] };
+  state.timeline[0].board.forEach((row, y) =>
+    row.forEach((cell, x) => {
+      if (cell === 1) setup.black.push({ x, y });
+      if (cell === 2) setup.white.push({ x, y });
+    })
+  );
+  return setup;
+}
+
+// The SGF record of a game. Unnamed players are left out of PB/PW; `extra`
+// adds or overrides properties such as TM/OT or the RE of an imported game.
+export function gameToSgf(state: GameState, extra: Partial<SgfGame> = {}): string {
+  const { players, timeline } = state;
+  return exportSgf({
+    size: timeline[0].board.length,
+    komi: state.komi,
+    rules: state.rules.sgf,
+    playerBlack: players.black || undefined,
+    playerWhite: players.white || undefined,
+    result: state.result ? formatSgfResult(state.result) : undefined,
+    handicap: state.handicap || undefined,
+    setup: setupStones(state),
+    firstPlayer: timeline[0].toMove === 2 ? 2 : undefined, // white starts handicap games
+    moves: movesOf(timeline),
+    ...extra,
+  });
+}
+
+export function formatSgfResult(
+  result: Pick<GameResult, "winner" | "blackScore" | "whiteScore" | "resignation" | "timeout">
+): string {
+  const { winner, blackScore, whiteScore, resignation, timeout } = result;
+  if (winner === "draw") return "0";
+  const margin = resignation ? "R" : timeout ? "T" : `${Math.abs(blackScore - whiteScore)}`;
+  return `${winner === "black" ? "B" : "W"}+${margin}`;
+}
@@ -0,0 +1,113 @@
+import type { GameMode, GameRecord } from "./storage";
+
+// Player statistics and Glicko ratings, recomputed from the game records every
+// time rather than stored, so they always agree with the records. Each game is its
+// own rating period and RD does not grow with idle time. Engines get profiles like
+// players, so the AI levels end up rated against the people who play them.
+
+// ---- Types & Constants ----
+
+export interface Rating {
+  rating: number;
+  rd: number; // rating deviation: about 95% sure the strength is within ±2 RD
+  games: number; // rated games
+}
+
+export interface Tally {
+  games: number;
+  wins: number;
+  losses: number;
+  draws: number;
+}
+
+export interface ProfileStats {
+  total: Tally;
+  byMode: Partial<Record<GameMode, Tally>>;
+  bySize: Record<number, Tally>;
+  byColor: { black: Tally; white: Tally };
+}
+
+export const INITIAL_RATING: Rating = { rating: 1500, rd: 350, games: 0 };
+
+const Q = Math.log(10) / 400;
+const MIN_RD = 30; // keeps ratings responsive after many games
+
+// ---- Ratings ----
+
+function attenuation(rd: number): number {
+  return 1 / Math.sqrt(1 + (3 * Q * Q * rd * rd) / (Math.PI * Math.PI));
+}
+
+// Chance that `player` beats `opponent`
+export function expectedScore(player: Rating, opponent: Rating): number {
+  return 1 / (1 + 10 ** ((-attenuation(opponent.rd) * (player.rating - opponent.rating)) / 400));
+}
+
+// Glicko-1 after one game; `score` is 1 for a win, 0.5 for a draw, 0 for a loss
+export function glickoUpdate(player: Rating, opponent: Rating, score: number): Rating {
+  const g = attenuation(opponent.rd);
+  const e = expectedScore(player, opponent);
+  const dSquared = 1 / (Q * Q * g * g * e * (1 - e));
+  const precision = 1 / (player.rd * player.rd) + 1 / dSquared;
+  return {
+    rating: player.rating + (Q / precision) * g * (score - e),
+    rd: Math.max(MIN_RD, Math.sqrt(1 / precision)),
+    games: player.games + 1,
+  };
+}
+
+// Even games between two different profiles; handicap games only count in the tallies
+export function isRated(record: GameRecord): boolean {
+  return record.black !== null && record.white !== null && record.black !== record.white && record.handicap === 0;
+}
+
+export function computeRatings(records: GameRecord[]): Map<string, Rating> {
+  const ratings = new Map<string, Rating>();
+  const get = (id: string) => ratings.get(id) ?? INITIAL_RATING;
+  for (const record of [...records].sort((a, b) => a.finishedAt - b.finishedAt)) {
+    if (!isRated(record)) continue;
+    const black = get(record.black!);
+    const white = get(record.white!);
+    const score = record.winner === "black" ? 1 : record.winner === "white" ? 0 : 0.5;
+    ratings.set(record.black!, glickoUpdate(black, white, score));
+    ratings.set(record.white!, glickoUpdate(white, black, 1 - score));
+  }
+  return ratings;
+}
+
+// ---- Tallies ----
+
+function emptyTally(): Tally {
+  return { games: 0, wins: 0, losses: 0, draws: 0 };
+}
+
+function count(tally: Tally, outcome: "win" | "loss" | "draw") {
+  tally.games++;
+  if (outcome === "win") tally.wins++;
+  else if (outcome === "loss") tally.losses++;
+  else tally.draws++;
+}
+
+export function profileStats(records: GameRecord[], id: string): ProfileStats {
+  const stats: ProfileStats = {
+    total: emptyTally(),
+    byMode: {},
+    bySize: {},
+    byColor: { black: emptyTally(), white: emptyTally() },
+  };
+  for (const record of records) {
+    for (const color of ["black", "white"] as const) {
+      if (record[color] !== id) continue;
+      const outcome = record.winner === "draw" ? "draw" : record.winner === color ? "win" : "loss";
+      count(stats.total, outcome);
+      count((stats.byMode[record.mode] ??= emptyTally()), outcome);
+      count((stats.bySize[record.size] ??= emptyTally()), outcome);
+      count(stats.byColor[color], outcome);
+    }
+  }
+  return stats;
+}
+
+export function winRate(tally: Tally): number {
+  return tally.games ? (tally.wins + tally.draws / 2) / tally.games : 0;
+}
@@ -0,0 +1,356 @@
+import type { ClockState } from "./clock";
+import type { GamePhase, GameResult, GameState, Players } from "./gameState";
+import { RULE_SETS, movesOf, type GameMove, type RuleSetId, type Stone } from "./goRules";
+import type { Locale, Notation } from "./i18n";
+import { replaySgf, setupStones } from "./sgf";
+
+// Local persistence: the game in progress (autosaved after every change, resumed
+// on load), a library of finished games, the seat of an online game in progress,
+// tsumego progress with imported problem sets, the display preferences, and player
+// profiles with a short record of every finished game for the statistics.
+// Everything lives in localStorage as JSON; positions are stored as move lists
+// and replayed, since Snapshot hashes are bigints and do not survive JSON.
+
+// ---- Types & Constants ----
+
+export type GameMode = "ai" | "local" | "online";
+
+// A GameState without the derived positions
+export interface StoredGame {
+  size: number;
+  komi: number;
+  handicap: number;
+  players: Players;
+  rules: RuleSetId;
+  phase: GamePhase;
+  dead: string[];
+  result: GameResult | null;
+  setup: { black: { x: number; y: number }[]; white: { x: number; y: number }[] };
+  firstPlayer: Stone;
+  moves: GameMove[];
+  redo: GameMove[]; // undone moves, next one first
+}
+
+// `settings` is whatever the page needs to rebuild the game screen around the state
+export interface ActiveGame<S> {
+  mode: GameMode;
+  savedAt: number;
+  game: StoredGame;
+  clock: ClockState | null;
+  settings: S;
+}
+
+export interface LibraryEntry {
+  id: string;
+  finishedAt: number;
+  mode: GameMode;
+  size: number;
+  players: Players;
+  result: string; // SGF RE, "" when the game was left unfinished
+  moves: number;
+  sgf: string;
+}
+
+// Seat in an online room, kept so a reload rejoins it
+export interface OnlineSession {
+  url: string;
+  code: string;
+  token: string;
+}
+
+export interface ProblemProgress {
+  solved: boolean; // solved at least once
+  attempts: number;
+}
+
+// Problem set id -> problem id -> progress
+export type TsumegoProgress = Record<string, Record<string, ProblemProgress>>;
+
+// A problem set imported from a file
+export interface StoredProblemSet {
+  id: string;
+  name: string;
+  sgf: string;
+}
+
+// An opening book imported from a file, in place of the built-in one
+export interface StoredOpeningBook {
+  name: string;
+  sgf: string;
+}
+
+// A local player, or an engine (id "ai:<level>" or "ai:gtp") so it can be rated too
+export interface Profile {
+  id: string;
+  name: string;
+  kind: "human" | "ai";
+  createdAt: number;
+}
+
+// A side of a finished game as the game screen knows it, before it is matched to a profile
+export type Participant = { kind: "human"; name: string } | { kind: "ai"; id: string; name: string };
+
+// What the statistics need from a finished game; a side without a profile is null
+export interface GameRecord {
+  id: string;
+  finishedAt: number;
+  mode: GameMode;
+  size: number;
+  handicap: number;
+  black: string | null; // profile id
+  white: string | null;
+  winner: "black" | "white" | "draw";
+}
+
+// Language and coordinate notation, kept across sessions
+export interface Preferences {
+  locale: Locale;
+  notation: Notation;
+}
+
+const DEFAULT_PREFERENCES: Preferences = { locale: "vi", notation: "gtp" };
+
+const ACTIVE_KEY = "covay.activeGame.v1";
+const LIBRARY_KEY = "covay.library.v1";
+const ONLINE_KEY = "covay.onlineSession.v1";
+const TSUMEGO_PROGRESS_KEY = "covay.tsumegoProgress.v1";
+const TSUMEGO_SETS_KEY = "covay.tsumegoSets.v1";
+const OPENING_BOOK_KEY = "covay.openingBook.v1";
+const PREFERENCES_KEY = "covay.preferences.v1";
+const PROFILES_KEY = "covay.profiles.v1";
+const RECORDS_KEY = "covay.gameRecords.v1";
+const LIBRARY_LIMIT = 200; // oldest entries are dropped beyond this
+const RECORDS_LIMIT = 5000;
+
+// ---- Serialization ----
+
+export function serializeGame(state: GameState): StoredGame {
+  return {
+    size: state.timeline[0].board.length,
+    komi: state.komi,
+    handicap: state.handicap,
+    players: state.players,
+    rules: state.rules.id,
+    phase: state.phase,
+    dead: [...state.dead],
+    result: state.result,
+    setup: setupStones(state),
+    firstPlayer: state.timeline[0].toMove,
+    moves: movesOf(state.timeline),
+    redo: [...state.redo].reverse().map((s) => s.move!),
+  };
+}
+
+// Replays the stored moves; throws SgfError if the record is not a legal game.
+export function restoreGame(stored: StoredGame): GameState {
+  const all = replaySgf(
+    {
+      size: stored.size,
+      komi: stored.komi,
+      setup: stored.setup,
+      firstPlayer: stored.firstPlayer,
+      moves: [...stored.moves, ...stored.redo],
+    },
+    RULE_SETS[stored.rules]
+  );
+  const played = stored.moves.length + 1;
+  return {
+    timeline: all.slice(0, played),
+    redo: all.slice(played).reverse(),
+    rules: RULE_SETS[stored.rules],
+    komi: stored.komi,
+    handicap: stored.handicap,
+    players: stored.players,
+    phase: stored.phase,
+    dead: new Set(stored.dead),
+    result: stored.result,
+  };
+}
+
+// ---- localStorage ----
+
+function read<T>(key: string): T | null {
+  try {
+    const raw = typeof localStorage === "undefined" ? null : localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : null;
+  } catch {
+    return null; // unavailable (private mode) or corrupt
+  }
+}
+
+function write(key: string, value: unknown) {
+  try {
+    if (value === null) localStorage.removeItem(key);
+    else localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // Storage full or unavailable: the game goes on unsaved
+  }
+}
+
+export function loadActiveGame<S>(): ActiveGame<S> | null {
+  return read<ActiveGame<S>>(ACTIVE_KEY);
+}
+
+export function saveActiveGame<S>(active: ActiveGame<S>) {
+  write(ACTIVE_KEY, active);
+}
+
+export function clearActiveGame() {
+  write(ACTIVE_KEY, null);
+}
+
+export function loadLibrary(): LibraryEntry[] {
+  return read<LibraryEntry[]>(LIBRARY_KEY) ?? [];
+}
+
+function newId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Newest first
+export function addToLibrary(game: Omit<LibraryEntry, "id" | "finishedAt">): LibraryEntry[] {
+  const entry: LibraryEntry = {
+    ...game,
+    id: newId(),
+    finishedAt: Date.now(),
+  };
+  const library = [entry, ...loadLibrary()].slice(0, LIBRARY_LIMIT);
+  write(LIBRARY_KEY, library);
+  return library;
+}
+
+// Keeps edits made while reviewing: comments and variations in the record
+export function updateLibraryEntry(id: string, patch: Pick<LibraryEntry, "sgf" | "moves">): LibraryEntry[] {
+  const library = loadLibrary().map((e) => (e.id === id ? { ...e, ...patch } : e));
+  write(LIBRARY_KEY, library);
+  return library;
+}
+
+export function removeFromLibrary(id: string): LibraryEntry[] {
+  const library = loadLibrary().filter((e) => e.id !== id);
+  write(LIBRARY_KEY, library);
+  return library;
+}
+
+export function loadOnlineSession(): OnlineSession | null {
+  return read<OnlineSession>(ONLINE_KEY);
+}
+
+export function saveOnlineSession(session: OnlineSession) {
+  write(ONLINE_KEY, session);
+}
+
+export function clearOnlineSession() {
+  write(ONLINE_KEY, null);
+}
+
+export function loadTsumegoProgress(): TsumegoProgress {
+  return read<TsumegoProgress>(TSUMEGO_PROGRESS_KEY) ?? {};
+}
+
+export function recordTsumegoAttempt(setId: string, problemId: string, solved: boolean): TsumegoProgress {
+  const progress = loadTsumegoProgress();
+  const set = progress[setId] ?? {};
+  const prev = set[problemId] ?? { solved: false, attempts: 0 };
+  const next = { ...progress, [setId]: { ...set, [problemId]: { solved: prev.solved || solved, attempts: prev.attempts + 1 } } };
+  write(TSUMEGO_PROGRESS_KEY, next);
+  return next;
+}
+
+export function resetTsumegoProgress(setId: string): TsumegoProgress {
+  const { [setId]: _, ...rest } = loadTsumegoProgress();
+  write(TSUMEGO_PROGRESS_KEY, rest);
+  return rest;
+}
+
+export function loadTsumegoSets(): StoredProblemSet[] {
+  return read<StoredProblemSet[]>(TSUMEGO_SETS_KEY) ?? [];
+}
+
+// Re-importing a set replaces it
+export function saveTsumegoSet(set: StoredProblemSet): StoredProblemSet[] {
+  const sets = [...loadTsumegoSets().filter((s) => s.id !== set.id), set];
+  write(TSUMEGO_SETS_KEY, sets);
+  return sets;
+}
+
+export function removeTsumegoSet(id: string): StoredProblemSet[] {
+  const sets = loadTsumegoSets().filter((s) => s.id !== id);
+  write(TSUMEGO_SETS_KEY, sets);
+  return sets;
+}
+
+export function loadOpeningBook(): StoredOpeningBook | null {
+  return read<StoredOpeningBook>(OPENING_BOOK_KEY);
+}
+
+// null goes back to the built-in book
+export function saveOpeningBook(book: StoredOpeningBook | null) {
+  write(OPENING_BOOK_KEY, book);
+}
+
+export function loadPreferences(): Preferences {
+  return { ...DEFAULT_PREFERENCES, ...read<Partial<Preferences>>(PREFERENCES_KEY) };
+}
+
+export function savePreferences(preferences: Preferences) {
+  write(PREFERENCES_KEY, preferences);
+}
+
+export function loadProfiles(): Profile[] {
+  return read<Profile[]>(PROFILES_KEY) ?? [];
+}
+
+// Names are matched without regard to case, so "An" and "an" are one player
+function findProfile(profiles: Profile[], name: string): Profile | undefined {
+  const key = name.trim().toLowerCase();
+  return profiles.find((p) => p.kind === "human" && p.name.toLowerCase() === key);
+}
+
+export function addProfile(name: string): Profile[] {
+  const profiles = loadProfiles();
+  if (!name.trim() || findProfile(profiles, name)) return profiles;
+  const next = [...profiles, { id: newId(), name: name.trim(), kind: "human" as const, createdAt: Date.now() }];
+  write(PROFILES_KEY, next);
+  return next;
+}
+
+// The games stay in the records, so opponents keep their history
+export function removeProfile(id: string): Profile[] {
+  const profiles = loadProfiles().filter((p) => p.id !== id);
+  write(PROFILES_KEY, profiles);
+  return profiles;
+}
+
+export function loadGameRecords(): GameRecord[] {
+  return read<GameRecord[]>(RECORDS_KEY) ?? [];
+}
+
+// Oldest first, the order ratings are computed in. Players are matched to their
+// profiles by name, creating one on their first game; engines by their id.
+export function recordGame(
+  game: Omit<GameRecord, "id" | "finishedAt" | "black" | "white">,
+  participants: { black: Participant | null; white: Participant | null }
+): GameRecord[] {
+  const profiles = loadProfiles();
+  const resolve = (participant: Participant | null): string | null => {
+    if (!participant || !participant.name.trim()) return null;
+    const existing =
+      participant.kind === "ai" ? profiles.find((p) => p.id === participant.id) : findProfile(profiles, participant.name);
+    if (existing) return existing.id;
+    const id = participant.kind === "ai" ? participant.id : newId();
+    profiles.push({ id, name: participant.name.trim(), kind: participant.kind, createdAt: Date.now() });
+    return id;
+  };
+  const record: GameRecord = {
+    ...game,
+    id: newId(),
+    finishedAt: Date.now(),
+    black: resolve(participants.black),
+    white: resolve(participants.white),
+  };
+  const records = [...loadGameRecords(), record].slice(-RECORDS_LIMIT);
+  write(PROFILES_KEY, profiles);
+  write(RECORDS_KEY, records);
+  return records;
+}
@@ -0,0 +1,215 @@
+import { applyMove, currentPosition, finishByScore, newGame, pass, resign, type GameState } from "./gameState";
+import { koForbidden, type RuleSet } from "./goRules";
+import { AI_LEVELS, searchMove, type AiLevel } from "./mcts";
+import { chooseBookMove, type OpeningBook } from "./openingBook";
+import { gtpOpponent, type Opponent } from "./opponent";
+import { gameToSgf } from "./sgf";
+
+// Engine-against-engine matches without a page: two engines play a series of games
+// with colors alternating, and the results are summed up with confidence intervals.
+// Built-in engines search on the calling thread with seeds derived from the match
+// seed, so a match with fixed playout budgets replays move for move.
+
+// ---- Types & Constants ----
+
+// "medium", "hard:3000" (fixed playouts, no time limit) or "gtp:<bridge url>"
+export type EngineSpec = { kind: "builtin"; level: AiLevel; playouts?: number } | { kind: "gtp"; url: string };
+
+export interface MatchOptions {
+  size: number;
+  rules: RuleSet;
+  komi: number;
+  games: number;
+  seed: number;
+  book?: OpeningBook | null; // opening book for the built-in engines
+}
+
+export type GameEnd = "score" | "resign" | "illegal" | "moveLimit";
+
+export interface MatchGame {
+  index: number; // 0-based
+  black: 0 | 1; // which engine took black
+  winner: "black" | "white" | "draw";
+  end: GameEnd;
+  moves: number;
+  moveMs: [number[], number[]]; // thinking time of each move, per engine
+  sgf: string;
+}
+
+export interface EngineSummary {
+  name: string;
+  wins: number;
+  losses: number;
+  draws: number;
+  score: number; // wins plus half the draws, over the games
+  interval: [number, number]; // 95% Wilson interval of the score
+  blackWins: number;
+  whiteWins: number;
+  averageMs: number; // per move
+}
+
+const CONFIDENCE_Z = 1.96;
+const MOVE_LIMIT_FACTOR = 3; // plies per board point before the game is counted as it stands
+
+// ---- Engines ----
+
+export function parseEngineSpec(text: string): EngineSpec | null {
+  if (text.startsWith("gtp:")) return { kind: "gtp", url: text.slice(4) };
+  const [level, playouts] = text.split(":");
+  if (!(level in AI_LEVELS)) return null;
+  if (playouts === undefined) return { kind: "builtin", level: level as AiLevel };
+  const n = Number(playouts);
+  return Number.isInteger(n) && n > 0 ? { kind: "builtin", level: level as AiLevel, playouts: n } : null;
+}
+
+export function engineName(spec: EngineSpec): string {
+  if (spec.kind === "gtp") return `gtp (${spec.url})`;
+  return spec.playouts ? `${spec.level} (${spec.playouts} playouts)` : spec.level;
+}
+
+// Seeds for every search of a match, from the match seed and the place in it
+function mixSeed(...parts: number[]): number {
+  let h = 0x811c9dc5;
+  for (const part of parts) h = Math.imul(h ^ part, 0x01000193) >>> 0;
+  return h;
+}
+
+// A fixed playout budget drops the time limit, so the search no longer depends on machine speed.
+// Book moves are picked with the seed as well.
+export function engineOpponent(spec: EngineSpec, seed: number, book: OpeningBook | null = null): Opponent {
+  const name = engineName(spec);
+  if (spec.kind === "gtp") return gtpOpponent(spec.url, name);
+  return {
+    id: `ai:${spec.level}`,
+    name,
+    async genmove(state, color) {
+      const { board } = currentPosition(state);
+      const forbidden = koForbidden(state.timeline, state.rules.koRule);
+      const known = book && chooseBookMove(book, board, color, forbidden, mixSeed(seed, state.timeline.length, 1) / 2 ** 32);
+      if (known) return { move: known, resign: false };
+      const reply = searchMove({
+        id: state.timeline.length,
+        board,
+        toMove: color,
+        komi: state.komi,
+        forbidden,
+        level: spec.level,
+        playouts: spec.playouts,
+        timeMs: spec.playouts ? Infinity : undefined,
+        seed: mixSeed(seed, state.timeline.length),
+      });
+      return { move: reply.move, resign: reply.resign };
+    },
+  };
+}
+
+// ---- Matches ----
+
+// One game between `black` and `white`. A refused move loses the game; a game
+// that runs past the move limit is counted as it stands.
+export async function playMatchGame(
+  black: Opponent,
+  white: Opponent,
+  options: MatchOptions
+): Promise<{ state: GameState; end: GameEnd; moveMs: [number[], number[]] }> {
+  const moveMs: [number[], number[]] = [[], []];
+  const limit = options.size * options.size * MOVE_LIMIT_FACTOR;
+  const signal = new AbortController().signal;
+  let state = newGame({
+    size: options.size,
+    rules: options.rules,
+    komi: options.komi,
+    players: { black: black.name, white: white.name },
+  });
+  while (state.phase === "playing") {
+    if (state.timeline.length > limit) return { state: finishByScore(state), end: "moveLimit", moveMs };
+    const color = currentPosition(state).toMove;
+    const started = performance.now();
+    const reply = await (color === 1 ? black : white).genmove(state, color, signal);
+    moveMs[color - 1].push(performance.now() - started);
+    if (reply.resign) return { state: resign(state, color), end: "resign", moveMs };
+    if (!reply.move) {
+      state = pass(state);
+      continue;
+    }
+    const res = applyMove(state, reply.move.x, reply.move.y);
+    if (!res.legal) return { state: resign(state, color), end: "illegal", moveMs };
+    state = res.state;
+  }
+  // Nobody marks dead stones: the position counts as it stands, as in the playouts
+  return { state: finishByScore(state), end: "score", moveMs };
+}
+
+// Plays the match, engine 0 taking black in the even games; `onGame` hears of
+// each game as it ends.
+export async function playMatch(
+  specs: [EngineSpec, EngineSpec],
+  options: MatchOptions,
+  onGame?: (game: MatchGame) => void
+): Promise<MatchGame[]> {
+  const games: MatchGame[] = [];
+  for (let index = 0; index < options.games; index++) {
+    const engines = specs.map((spec, i) => engineOpponent(spec, mixSeed(options.seed, index, i), options.book));
+    const first = (index % 2) as 0 | 1;
+    const { state, end, moveMs } = await playMatchGame(engines[first], engines[1 - first], options);
+    const game: MatchGame = {
+      index,
+      black: first,
+      winner: state.result!.winner,
+      end,
+      moves: state.timeline.length - 1,
+      // moveMs is by color; the summary wants it by engine
+      moveMs: first === 0 ? moveMs : [moveMs[1], moveMs[0]],
+      sgf: gameToSgf(state),
+    };
+    games.push(game);
+    onGame?.(game);
+  }
+  return games;
+}
+
+// ---- Summary ----
+
+// Wilson score interval for `successes` out of `n`
+export function wilsonInterval(successes: number, n: number, z = CONFIDENCE_Z): [number, number] {
+  if (n === 0) return [0, 1];
+  const p = successes / n;
+  const z2 = z * z;
+  const centre = (p + z2 / (2 * n)) / (1 + z2 / n);
+  const half = (z * Math.sqrt((p * (1 - p)) / n + z2 / (4 * n * n))) / (1 + z2 / n);
+  return [Math.max(0, centre - half), Math.min(1, centre + half)];
+}
+
+export function summarizeMatch(specs: [EngineSpec, EngineSpec], games: MatchGame[]): [EngineSummary, EngineSummary] {
+  const summary = (engine: 0 | 1): EngineSummary => {
+    let wins = 0;
+    let draws = 0;
+    let blackWins = 0;
+    let whiteWins = 0;
+    for (const game of games) {
+      if (game.winner === "draw") {
+        draws++;
+        continue;
+      }
+      const color = game.black === engine ? "black" : "white";
+      if (game.winner !== color) continue;
+      wins++;
+      if (color === "black") blackWins++;
+      else whiteWins++;
+    }
+    const times = games.flatMap((g) => g.moveMs[engine]);
+    const points = wins + draws / 2;
+    return {
+      name: engineName(specs[engine]),
+      wins,
+      losses: games.length - wins - draws,
+      draws,
+      score: games.length ? points / games.length : 0,
+      interval: wilsonInterval(points, games.length),
+      blackWins,
+      whiteWins,
+      averageMs: times.length ? times.reduce((a, b) => a + b, 0) / times.length : 0,
+    };
+  };
+  return [summary(0), summary(1)];
+}
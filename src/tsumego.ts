@@ -0,0 +1,204 @@
+import type { IllegalReason } from "./gameState";
+import {
+  RULE_SETS,
+  initialTimeline,
+  makeEmptyBoard,
+  playOnTimeline,
+  type GameMove,
+  type Position,
+  type Snapshot,
+  type Stone,
+} from "./goRules";
+import {
+  SgfError,
+  hasSgfSetup,
+  parseSgfCollection,
+  sgfGameFromNodes,
+  sgfNodeMove,
+  toSgfPoint,
+  type SgfNode,
+  type SgfTree,
+} from "./sgf";
+
+// Life-and-death problems. A problem set is an SGF collection, one game tree per
+// problem: setup stones in the root, the student's candidate moves as variations
+// and the expected answers below them. A variation is right when it has TE[] or a
+// comment saying RIGHT/CORRECT/Đúng, wrong with BM[] or WRONG/Sai; files without
+// any such marks count the main line as the solution. Like gameState, attempts are
+// pure values.
+
+// ---- Types & Constants ----
+
+export type Verdict = "correct" | "wrong";
+
+export interface ProblemNode {
+  move: GameMove;
+  comment?: string; // C
+  verdict: Verdict | null; // explicit mark on this node
+  children: ProblemNode[]; // first child is the main line
+}
+
+export interface Problem {
+  id: string; // position in the set, from "1"
+  name: string; // GN, empty when the file gives none
+  size: number;
+  setup: { black: Position[]; white: Position[] };
+  toPlay: Stone; // the student's color
+  comment?: string; // root C, usually the task
+  marked: boolean; // some node carries a verdict mark
+  moves: ProblemNode[]; // the student's candidate first moves
+}
+
+export interface ProblemSet {
+  id: string;
+  name: string;
+  problems: Problem[];
+}
+
+export type AttemptStatus = "playing" | "solved" | "failed";
+
+export interface ProblemAttempt {
+  problem: Problem;
+  timeline: Snapshot[];
+  path: ProblemNode[]; // tree nodes played so far, student and answers alike
+  status: AttemptStatus;
+  offTree: boolean; // the student left the known variations
+}
+
+const CORRECT_COMMENT = /\b(RIGHT|CORRECT)\b|đúng/i;
+const WRONG_COMMENT = /\bWRONG\b|\bsai\b/i;
+
+const PROBLEM_RULES = RULE_SETS.japanese; // simple ko, no suicide
+
+// ---- Parsing ----
+
+function nodeVerdict(node: SgfNode): Verdict | null {
+  const comment = node.get("C")?.[0] ?? "";
+  if (node.has("TE") || CORRECT_COMMENT.test(comment)) return "correct";
+  if (node.has("BM") || WRONG_COMMENT.test(comment)) return "wrong";
+  return null;
+}
+
+// Turn an SGF tree below the root into move nodes, checking each move on the board.
+function buildNodes(nodes: SgfNode[], variations: SgfTree[], timeline: Snapshot[], size: number): ProblemNode[] {
+  if (!nodes.length) return variations.flatMap((v) => buildNodes(v.nodes, v.variations, timeline, size));
+  const [first, ...rest] = nodes;
+  const depth = timeline.length;
+  if (hasSgfSetup(first)) throw new SgfError({ code: "setupMidProblem", move: depth });
+  const move = sgfNodeMove(first, size, depth);
+  const comment = first.get("C")?.[0];
+  if (!move) {
+    // A node without a move only adds its comment to the line
+    const children = buildNodes(rest, variations, timeline, size);
+    if (comment) for (const child of children) child.comment = child.comment ?? comment;
+    return children;
+  }
+  if (!move.point) throw new SgfError({ code: "problemPass", move: depth });
+  const res = playOnTimeline(timeline, move.point.x, move.point.y, PROBLEM_RULES, move.color);
+  if (!res.timeline) throw new SgfError({ code: "problemIllegal", move: depth, point: toSgfPoint(move.point) });
+  return [{ move, comment, verdict: nodeVerdict(first), children: buildNodes(rest, variations, res.timeline, size) }];
+}
+
+function someNode(nodes: ProblemNode[], test: (node: ProblemNode) => boolean): boolean {
+  return nodes.some((n) => test(n) || someNode(n.children, test));
+}
+
+function problemFromTree(tree: SgfTree, index: number): Problem {
+  const [root, ...rest] = tree.nodes;
+  const game = sgfGameFromNodes([root]);
+  if (game.moves.length) throw new SgfError({ code: "rootMove", problem: index + 1 });
+  const board = makeEmptyBoard(game.size);
+  for (const p of game.setup.black) board[p.y][p.x] = 1;
+  for (const p of game.setup.white) board[p.y][p.x] = 2;
+  const firstMove = [...rest, ...tree.variations.map((v) => v.nodes[0])]
+    .map((node, i) => sgfNodeMove(node, game.size, i + 1))
+    .find((m) => m);
+  const toPlay = game.firstPlayer ?? firstMove?.color ?? 1;
+  const moves = buildNodes(rest, tree.variations, initialTimeline(board, toPlay), game.size);
+  if (!moves.length) throw new SgfError({ code: "noSolution", problem: index + 1 });
+  if (moves.some((m) => m.move.color !== toPlay)) throw new SgfError({ code: "mixedFirstMoves", problem: index + 1 });
+  return {
+    id: String(index + 1),
+    name: root.get("GN")?.[0] ?? "",
+    size: game.size,
+    setup: game.setup,
+    toPlay,
+    comment: root.get("C")?.[0],
+    marked: someNode(moves, (n) => n.verdict !== null),
+    moves,
+  };
+}
+
+// Short stable id from the file contents, so progress survives re-importing a set
+function hashText(text: string): string {
+  let h = 5381;
+  for (let i = 0; i < text.length; i++) h = ((h * 33) ^ text.charCodeAt(i)) >>> 0;
+  return h.toString(36);
+}
+
+export function parseProblemSet(text: string, name: string, id = `sgf-${hashText(text)}`): ProblemSet {
+  return { id, name, problems: parseSgfCollection(text).map(problemFromTree) };
+}
+
+// ---- Solving ----
+
+export function startProblem(problem: Problem): ProblemAttempt {
+  const board = makeEmptyBoard(problem.size);
+  for (const p of problem.setup.black) board[p.y][p.x] = 1;
+  for (const p of problem.setup.white) board[p.y][p.x] = 2;
+  return { problem, timeline: initialTimeline(board, problem.toPlay), path: [], status: "playing", offTree: false };
+}
+
+// Candidate moves at the current point of the attempt
+function nextNodes(attempt: ProblemAttempt): ProblemNode[] {
+  const last = attempt.path[attempt.path.length - 1];
+  return last ? last.children : attempt.problem.moves;
+}
+
+// Right when the line ends on a correct mark with no wrong mark on the way, or, in
+// an unmarked problem, when it is the main line all the way down.
+function judge(problem: Problem, path: ProblemNode[]): AttemptStatus {
+  if (path.some((n) => n.verdict === "wrong")) return "failed";
+  if (path[path.length - 1].children.length) return "playing";
+  if (problem.marked) return path.some((n) => n.verdict === "correct") ? "solved" : "failed";
+  let siblings = problem.moves;
+  for (const node of path) {
+    if (siblings[0] !== node) return "failed";
+    siblings = node.children;
+  }
+  return "solved";
+}
+
+function advance(attempt: ProblemAttempt, node: ProblemNode): ProblemAttempt {
+  const { x, y } = node.move.point!;
+  const res = playOnTimeline(attempt.timeline, x, y, PROBLEM_RULES, node.move.color);
+  const path = [...attempt.path, node];
+  return { ...attempt, timeline: res.timeline!, path, status: judge(attempt.problem, path) };
+}
+
+// Play the student's move at (x, y) and, while the line goes on, the answer from
+// the tree: the refutation after a wrong move, the expected reply after a right one.
+// A legal move outside the tree fails the attempt.
+export function playProblemMove(
+  attempt: ProblemAttempt,
+  x: number,
+  y: number
+): { attempt: ProblemAttempt; legal: boolean; reason?: IllegalReason; group?: Position[] } {
+  if (attempt.status !== "playing") return { attempt, legal: false, reason: "gameOver" };
+  const node = nextNodes(attempt).find((n) => n.move.point!.x === x && n.move.point!.y === y);
+  if (!node) {
+    const res = playOnTimeline(attempt.timeline, x, y, PROBLEM_RULES, attempt.problem.toPlay);
+    if (!res.timeline) return { attempt, legal: false, reason: res.reason, group: res.group };
+    return { attempt: { ...attempt, timeline: res.timeline, status: "failed", offTree: true }, legal: true };
+  }
+  let next = advance(attempt, node);
+  const answer = nextNodes(next)[0];
+  if (answer && answer.move.color !== attempt.problem.toPlay) next = advance(next, answer);
+  return { attempt: next, legal: true };
+}
+
+// Comment to show for the position reached: the answer's, else the student move's
+export function attemptComment(attempt: ProblemAttempt): string | undefined {
+  if (!attempt.path.length) return attempt.problem.comment;
+  return attempt.path.slice(-2).reverse().find((n) => n.comment)?.comment;
+}
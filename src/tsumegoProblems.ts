@@ -0,0 +1,36 @@
+// Problem sets that ship with the app, in the SGF format read by parseProblemSet.
+
+export interface BuiltinProblemSet {
+  id: string;
+  name: string;
+  sgf: string;
+}
+
+export const BUILTIN_PROBLEM_SETS: BuiltinProblemSet[] = [
+  {
+    id: "co-ban",
+    name: "Sống chết cơ bản",
+    sgf: `
+(;GM[1]FF[4]SZ[9]GN[Bắt hai quân]PL[B]
+AB[de][ed][fd][ge][ef]AW[ee][fe]
+C[Đen đi. Hai quân Trắng chỉ còn một khí, hãy bắt chúng.]
+(;B[ff]C[Đúng! Nước này lấy khí cuối cùng của Trắng.]))
+
+(;GM[1]FF[4]SZ[9]GN[Giết ba mắt thẳng]PL[B]
+AB[ag][bg][cg][dg][eg][eh][ei]AW[ah][bh][ch][dh][di]
+C[Đen đi. Trắng có không gian mắt ba ô thẳng hàng. Giết nhóm Trắng.]
+(;B[bi]C[Điểm yếu của ba mắt thẳng là ô giữa.]
+  (;W[ai];B[ci]C[Đúng! Trắng chỉ còn một mắt và bị bắt hết.])
+  (;W[ci];B[ai]C[Đúng! Trắng chỉ còn một mắt và bị bắt hết.]))
+(;B[ai]C[Sai.];W[bi]C[Sai: Trắng ăn quân Đen và có hai mắt.])
+(;B[ci]C[Sai.];W[bi]C[Sai: Trắng ăn quân Đen và có hai mắt.]))
+
+(;GM[1]FF[4]SZ[9]GN[Làm sống ba mắt thẳng]PL[B]
+AB[ah][bh][ch][dh][di]AW[ag][bg][cg][dg][eg][eh][ei]
+C[Đen đi. Hãy làm cho nhóm Đen sống với hai mắt.]
+(;B[bi]C[Đúng! Đen có hai mắt thật ở hai bên.])
+(;B[ai]C[Sai.];W[bi]C[Sai: không gian còn lại chỉ đủ một mắt.])
+(;B[ci]C[Sai.];W[bi]C[Sai: không gian còn lại chỉ đủ một mắt.]))
+`,
+  },
+];
@@ -0,0 +1,45 @@
+import { useEffect, useState } from "react";
+import { koForbidden, type KoRule, type Snapshot } from "./goRules";
+import type { AiLevel, AiResponse } from "./mcts";
+import { searchInWorker } from "./opponent";
+
+const ANALYSIS_LEVEL: AiLevel = "medium";
+
+// Searches the last position of `timeline` in a worker while `enabled`, for the
+// ownership and candidate overlays. A new position cancels the running search; a
+// search that fails is reported as `failed` for its position and not retried.
+export function useAnalysis(timeline: Snapshot[], komi: number, koRule: KoRule, enabled: boolean) {
+  const position = timeline[timeline.length - 1];
+  // response is null when the search failed
+  const [result, setResult] = useState<{ position: Snapshot; response: AiResponse | null } | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const controller = new AbortController();
+    searchInWorker(
+      {
+        id: timeline.length,
+        board: position.board,
+        toMove: position.toMove,
+        komi,
+        forbidden: koForbidden(timeline, koRule),
+        level: ANALYSIS_LEVEL,
+        analyze: true,
+      },
+      controller.signal
+    ).then(
+      (response) => setResult({ position, response }),
+      () => {
+        if (!controller.signal.aborted) setResult({ position, response: null });
+      }
+    );
+    return () => controller.abort();
+    // The position object changes with every move
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [position, komi, koRule, enabled]);
+
+  // Only report results for the position on screen
+  const done = enabled && result?.position === position;
+  const analysis = done ? result.response : null;
+  return { analysis, running: enabled && !done, failed: done && !analysis };
+}
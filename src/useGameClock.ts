@@ -0,0 +1,70 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  clockView,
+  flaggedPlayer,
+  newClock,
+  setRunning,
+  switchTurn,
+  type ClockState,
+  type PlayerClock,
+  type TimeControl,
+} from "./clock";
+import type { Stone } from "./goRules";
+
+const TICK_MS = 200;
+
+// React binding for the pure clock functions. `turn` is the player to move (0 when
+// nobody is, e.g. while scoring); every change of turn ends the previous player's
+// move. `running` is false while the game is paused. onFlag fires once when the
+// player to move runs out of time; reset() arms it again. `initial` restores a
+// clock saved with snapshot().
+export function useGameClock(
+  control: TimeControl,
+  turn: Stone,
+  running: boolean,
+  onFlag: (color: Stone) => void,
+  initial?: ClockState | null
+) {
+  const [clock, setClock] = useState(() => initial ?? newClock(control));
+  const [now, setNow] = useState(() => Date.now());
+  const onFlagRef = useRef(onFlag);
+  onFlagRef.current = onFlag;
+  const reported = useRef(false);
+  const enabled = control.kind !== "none";
+
+  useEffect(() => {
+    setClock((c) => switchTurn(c, turn, Date.now()));
+  }, [turn]);
+
+  useEffect(() => {
+    setClock((c) => setRunning(c, running, Date.now()));
+  }, [running]);
+
+  useEffect(() => {
+    if (!enabled || !running || !turn) return;
+    const timer = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(timer);
+  }, [enabled, running, turn]);
+
+  useEffect(() => {
+    const flagged = flaggedPlayer(clock, now);
+    if (!flagged || reported.current) return;
+    reported.current = true;
+    onFlagRef.current(flagged);
+  }, [clock, now]);
+
+  return {
+    enabled,
+    control,
+    turn: clock.turn,
+    view: (color: Stone): PlayerClock => clockView(clock, color, now),
+    // Settled and stopped, so time spent away from the page is not charged on resume
+    snapshot: (): ClockState => setRunning(clock, false, Date.now()),
+    // Fresh clocks for a new game whose first player is `next`
+    reset: (next: Stone) => {
+      reported.current = false;
+      const start = Date.now();
+      setClock(setRunning(switchTurn(newClock(control), next, start), running, start));
+    },
+  };
+}
@@ -0,0 +1,44 @@
+import { useEffect, useRef, useState } from "react";
+import type { KoRule, Snapshot } from "./goRules";
+import { searchInWorker } from "./opponent";
+import { reviewGame, type GameReview } from "./review";
+
+// Runs the post-game review of `timeline` in a worker, one position at a time, on
+// request. The report is dropped once the line on screen is no longer the one reviewed.
+export function useGameReview(timeline: Snapshot[], komi: number, koRule: KoRule) {
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [result, setResult] = useState<{ timeline: Snapshot[]; review: GameReview } | null>(null);
+  const controller = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controller.current?.abort(), []);
+
+  function start() {
+    controller.current?.abort();
+    const current = new AbortController();
+    controller.current = current;
+    const reviewed = timeline;
+    setProgress({ done: 0, total: reviewed.length });
+    reviewGame(reviewed, komi, koRule, (request) => searchInWorker(request, current.signal), (done, total) =>
+      setProgress({ done, total })
+    ).then(
+      (review) => {
+        setResult({ timeline: reviewed, review });
+        setProgress(null);
+      },
+      () => {
+        // Cancelling clears the progress itself; a failed worker just ends the review
+        if (!current.signal.aborted) setProgress(null);
+      }
+    );
+  }
+
+  function cancel() {
+    controller.current?.abort();
+    controller.current = null;
+    setProgress(null);
+  }
+
+  // Positions are kept as they are by tree edits, so the same objects mean the same line
+  const same = result && result.timeline.length === timeline.length && result.timeline.every((p, i) => p === timeline[i]);
+  return { review: same ? result.review : null, progress, start, cancel };
+}
@@ -0,0 +1,54 @@
+import { useState } from "react";
+import {
+  applyMove,
+  checkMove,
+  currentPosition,
+  finishByScore,
+  pass,
+  placeHandicapStone,
+  redo,
+  resign,
+  resumePlay,
+  timeout,
+  toggleDead,
+  undo,
+  undoToTurn,
+  type GameState,
+} from "./gameState";
+import type { Stone } from "./goRules";
+
+// React binding for the pure game-state functions. Actions read the state of the
+// current render, so call them from event handlers or from an effect that is
+// cancelled whenever the state changes. Actions that end the game return the new
+// state so callers can report the result right away.
+export function useGoGame(init: () => GameState) {
+  const [state, setState] = useState<GameState>(init);
+
+  function update(next: GameState): GameState {
+    setState(next);
+    return next;
+  }
+
+  return {
+    state,
+    position: currentPosition(state),
+    // `player` limits the move to one side, for modes where the user plays only one
+    play(x: number, y: number, player?: Stone) {
+      const check = checkMove(state, x, y, player);
+      if (check.legal) setState(applyMove(state, x, y).state);
+      return check;
+    },
+    check: (x: number, y: number, player?: Stone) => checkMove(state, x, y, player),
+    placeHandicap: (x: number, y: number) => update(placeHandicapStone(state, x, y)),
+    pass: () => update(pass(state)),
+    resign: (color: Stone) => update(resign(state, color)),
+    timeout: (color: Stone) => update(timeout(state, color)),
+    toggleDead: (x: number, y: number) => update(toggleDead(state, x, y)),
+    resume: () => update(resumePlay(state)),
+    finish: () => update(finishByScore(state)),
+    undo: () => update(undo(state)),
+    redo: () => update(redo(state)),
+    undoToTurn: (color: Stone) => update(undoToTurn(state, color)),
+    reset: (next: GameState) => update(next),
+  };
+}
@@ -0,0 +1,9 @@
+import { createContext, useContext } from "react";
+import { makeI18n, type I18n } from "./i18n";
+
+// The page provides the language and notation chosen in the header
+export const I18nContext = createContext<I18n>(makeI18n("vi", "gtp"));
+
+export function useI18n(): I18n {
+  return useContext(I18nContext);
+}
@@ -0,0 +1,23 @@
+import { useState } from "react";
+import { toggleMark, type Mark, type MarkKind } from "./diagram";
+import type { Snapshot } from "./goRules";
+
+// "clear" takes marks off; null means clicks play moves as usual
+export type MarkTool = MarkKind | "clear";
+
+// Marks drawn on the position on screen. They belong to that position: moving to
+// another one starts with a clean board, like the analysis results.
+export function useMarkup(position: Snapshot | null) {
+  const [tool, setTool] = useState<MarkTool | null>(null);
+  const [markup, setMarkup] = useState<{ position: Snapshot | null; marks: Mark[] } | null>(null);
+  const marks = markup?.position === position ? markup.marks : [];
+
+  // Handles a click on the board; false when no tool is picked and the click is a move
+  function mark(x: number, y: number): boolean {
+    if (!tool) return false;
+    setMarkup({ position, marks: toggleMark(marks, x, y, tool === "clear" ? null : tool) });
+    return true;
+  }
+
+  return { tool, setTool, marks, mark, clear: () => setMarkup(null) };
+}
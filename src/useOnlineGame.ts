@@ -0,0 +1,113 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { Stone } from "./goRules";
+import type { RoomAction, RoomError, RoomRequest, RoomView, ServerMessage } from "./online";
+import { clearOnlineSession, restoreGame, saveOnlineSession } from "./storage";
+
+const MAX_RETRY_MS = 10_000;
+
+export type OnlineStatus = "connecting" | "open" | "reconnecting" | "closed";
+
+// The relay's refusals, an action sent while the connection is down, and a
+// connection lost before a seat was given
+export type OnlineError = RoomError | "disconnected" | "connectionFailed";
+
+// React binding for a seat in a relay room. `request` opens the first connection;
+// after that every reconnect (with backoff) rejoins with the seat token, and the
+// relay answers with the whole room, so nothing has to be replayed locally. A
+// connection lost before the seat token arrives is not retried, since sending the
+// request again could open a second room. The seat is saved so the game can be
+// taken up again after a reload or a visit to another view; it is forgotten when
+// the game finishes, on a fatal refusal, or on leave().
+export function useOnlineGame(url: string, request: RoomRequest) {
+  const [status, setStatus] = useState<OnlineStatus>("connecting");
+  const [color, setColor] = useState<Stone>(0);
+  const [room, setRoom] = useState<RoomView | null>(null);
+  const [error, setError] = useState<OnlineError | null>(null);
+  const socket = useRef<WebSocket | null>(null);
+  const stop = useRef<() => void>(() => {});
+  const state = useMemo(() => (room ? restoreGame(room.game) : null), [room]);
+
+  useEffect(() => {
+    let stopped = false;
+    let retries = 0;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let next = request;
+
+    function connect() {
+      const ws = new WebSocket(url);
+      socket.current = ws;
+      ws.onopen = () => {
+        retries = 0;
+        ws.send(JSON.stringify(next));
+      };
+      ws.onmessage = (e: MessageEvent<string>) => {
+        const message = JSON.parse(e.data) as ServerMessage;
+        switch (message.type) {
+          case "joined":
+            next = { type: "rejoin", code: message.code, token: message.token };
+            saveOnlineSession({ url, code: message.code, token: message.token });
+            setColor(message.color);
+            setStatus("open");
+            setError(null);
+            break;
+          case "sync":
+            if (message.room.game.phase === "finished") clearOnlineSession();
+            setRoom(message.room);
+            break;
+          case "error":
+            setError(message.code);
+            if (message.fatal) {
+              stopped = true;
+              if (next.type === "rejoin") clearOnlineSession();
+              setStatus("closed");
+            }
+            break;
+        }
+      };
+      ws.onclose = () => {
+        if (stopped) return;
+        if (next.type !== "rejoin") {
+          stopped = true;
+          setError("connectionFailed");
+          setStatus("closed");
+          return;
+        }
+        setStatus("reconnecting");
+        timer = setTimeout(connect, Math.min(1000 * 2 ** retries++, MAX_RETRY_MS));
+      };
+    }
+
+    connect();
+    stop.current = () => {
+      stopped = true;
+      clearTimeout(timer);
+      socket.current?.close();
+    };
+    return stop.current;
+    // The request only opens the first connection
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [url]);
+
+  return {
+    status,
+    color,
+    room,
+    state,
+    error,
+    send(action: RoomAction) {
+      const ws = socket.current;
+      if (ws?.readyState !== WebSocket.OPEN) {
+        setError("disconnected");
+        return;
+      }
+      setError(null);
+      ws.send(JSON.stringify(action));
+    },
+    // Gives up the seat: this device will not rejoin the room
+    leave() {
+      stop.current();
+      clearOnlineSession();
+      setStatus("closed");
+    },
+  };
+}